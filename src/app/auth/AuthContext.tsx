@@ -1,13 +1,52 @@
 // auth/AuthContext.tsx
 "use client"
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  ApiError,
+  forgotPasswordRequest,
+  loginRequest,
+  logoutRequest,
+  refreshRequest,
+  registerRequest,
+  resetPasswordRequest,
+} from '../utils/apiClient';
+import { AuthUser, getTokenExpiry, getUserFromToken, isTokenExpiring } from './jwt';
+import { LogoutReason } from './redirect';
 
+// Refresh this long before the access token actually expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+// setTimeout overflows above ~24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const ACCESS_TOKEN_KEY = 'accessToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+// Web Locks name held while refreshing, so tabs take turns
+const REFRESH_LOCK = 'auth-refresh';
+
+// Runs `refresh` while no other tab of the app is refreshing, where the browser supports Web Locks
+const withRefreshLock = <T,>(refresh: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks ? navigator.locks.request(REFRESH_LOCK, refresh) : refresh();
+
+// Only a refresh token the server turns down ends the session; network trouble or a server
+// error leaves it for the next refresh to try again
+const isSessionRejected = (error: unknown) => error instanceof ApiError && (error.status === 401 || error.status === 403);
 
 interface AuthContextType {
   accessToken: string | null;
   refreshToken: string | null;
+  user: AuthUser | null;
+  isAuthenticated: boolean;
+  // Why the last session ended, if it was not the user's choice
+  logoutReason: LogoutReason | null;
   login: (username: string, password: string) => Promise<void>;
-  logout: () => void;
+  register: (username: string, email: string, password: string) => Promise<void>;
+  logout: (reason?: LogoutReason) => void;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (token: string, password: string) => Promise<void>;
+  // Shared by every caller: concurrent calls wait on the same /auth/refresh request
+  refreshAccessToken: () => Promise<string>;
+  // The current access token, refreshed first if it is about to expire
+  getValidAccessToken: () => Promise<string | null>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -16,48 +55,180 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [refreshToken, setRefreshToken] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
+  const [logoutReason, setLogoutReason] = useState<LogoutReason | null>(null);
+  // Refs mirror the state so callbacks always see the latest tokens without re-creating
+  const accessTokenRef = useRef<string | null>(null);
+  const refreshTokenRef = useRef<string | null>(null);
+  const refreshPromiseRef = useRef<Promise<string> | null>(null);
+
+  const applyTokens = useCallback((newAccessToken: string | null, newRefreshToken: string | null) => {
+    accessTokenRef.current = newAccessToken;
+    refreshTokenRef.current = newRefreshToken;
+    setAccessToken(newAccessToken);
+    setRefreshToken(newRefreshToken);
+  }, []);
+
+  const storeTokens = useCallback((newAccessToken: string | null, newRefreshToken: string | null) => {
+    applyTokens(newAccessToken, newRefreshToken);
+    if (newAccessToken) localStorage.setItem(ACCESS_TOKEN_KEY, newAccessToken);
+    else localStorage.removeItem(ACCESS_TOKEN_KEY);
+    if (newRefreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, newRefreshToken);
+    else localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }, [applyTokens]);
 
   useEffect(() => {
     // Load tokens from localStorage on initial load
-    const storedAccessToken = localStorage.getItem('accessToken');
-    const storedRefreshToken = localStorage.getItem('refreshToken');
-    if (storedAccessToken) setAccessToken(storedAccessToken);
-    if (storedRefreshToken) setRefreshToken(storedRefreshToken);
+    applyTokens(localStorage.getItem(ACCESS_TOKEN_KEY), localStorage.getItem(REFRESH_TOKEN_KEY));
     setIsLoaded(true);
+
+    // Keep tabs in sync: a login, refresh or logout in another tab lands here
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== localStorage) return;
+      if (event.key !== null && event.key !== ACCESS_TOKEN_KEY && event.key !== REFRESH_TOKEN_KEY) return;
+      applyTokens(localStorage.getItem(ACCESS_TOKEN_KEY), localStorage.getItem(REFRESH_TOKEN_KEY));
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [applyTokens]);
+
+  // Errors (ApiError, NetworkError, ...) propagate to the caller to display
+  const login = useCallback(async (username: string, password: string) => {
+    const data = await loginRequest(username, password);
+    storeTokens(data.access_token, data.refresh_token);
+    setLogoutReason(null);
+  }, [storeTokens]);
+
+  const register = useCallback(async (username: string, email: string, password: string) => {
+    const data = await registerRequest(username, email, password);
+    storeTokens(data.access_token, data.refresh_token);
+    setLogoutReason(null);
+  }, [storeTokens]);
+
+  const logout = useCallback((reason?: LogoutReason) => {
+    // A user-initiated logout also revokes the session server side; best effort only
+    if (!reason && refreshTokenRef.current) {
+      logoutRequest(refreshTokenRef.current).catch(() => {});
+    }
+    refreshPromiseRef.current = null;
+    storeTokens(null, null);
+    setLogoutReason(reason ?? null);
+  }, [storeTokens]);
+
+  const requestPasswordReset = useCallback(async (email: string) => {
+    await forgotPasswordRequest(email);
   }, []);
 
-  const login = async (username: string, password: string) => {
-    try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/v1/auth/login`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username, password }),
+  const resetPassword = useCallback(async (token: string, password: string) => {
+    await resetPasswordRequest(token, password);
+  }, []);
+
+  const refreshAccessToken = useCallback(() => {
+    if (!refreshPromiseRef.current) {
+      const staleAccessToken = accessTokenRef.current;
+      // Another tab may have refreshed meanwhile; its token is taken instead of rotating again
+      const adoptStoredToken = () => {
+        const storedAccessToken = localStorage.getItem(ACCESS_TOKEN_KEY);
+        if (
+          !storedAccessToken ||
+          storedAccessToken === staleAccessToken ||
+          isTokenExpiring(storedAccessToken, REFRESH_MARGIN_MS)
+        ) {
+          return null;
+        }
+        applyTokens(storedAccessToken, localStorage.getItem(REFRESH_TOKEN_KEY));
+        return storedAccessToken;
+      };
+
+      const request = withRefreshLock(async () => {
+        const adopted = adoptStoredToken();
+        if (adopted) return adopted;
+
+        try {
+          const data = await refreshRequest(refreshTokenRef.current);
+          storeTokens(data.access_token, data.refresh_token ?? refreshTokenRef.current);
+          return data.access_token;
+        } catch (error) {
+          if (!isSessionRejected(error)) throw error;
+          // Without Web Locks another tab may have rotated the refresh token under us
+          const adoptedAfterAll = adoptStoredToken();
+          if (adoptedAfterAll) return adoptedAfterAll;
+          logout('session_expired');
+          throw error;
+        }
       });
-      if (!response.ok) throw new Error('Login failed');
-      const data = await response.json();
-      setAccessToken(data.access_token);
-      setRefreshToken(data.refresh_token);
-      localStorage.setItem('accessToken', data.access_token);
-      localStorage.setItem('refreshToken', data.refresh_token);
-    } catch (error) {
-      console.error('Login error:', error);
-      throw error;
+
+      refreshPromiseRef.current = request;
+      request
+        .finally(() => {
+          if (refreshPromiseRef.current === request) refreshPromiseRef.current = null;
+        })
+        .catch(() => {
+          // Callers of refreshAccessToken handle the rejection
+        });
+    }
+    return refreshPromiseRef.current;
+  }, [applyTokens, storeTokens, logout]);
+
+  const getValidAccessToken = useCallback(async () => {
+    const token = accessTokenRef.current;
+    if (token && refreshTokenRef.current && isTokenExpiring(token, REFRESH_MARGIN_MS)) {
+      return refreshAccessToken();
     }
-  };
+    return token;
+  }, [refreshAccessToken]);
+
+  // Proactively refresh shortly before the access token expires
+  useEffect(() => {
+    const expiry = getTokenExpiry(accessToken);
+    if (expiry === null || !refreshToken) return;
 
-  const logout = () => {
-    setAccessToken(null);
-    setRefreshToken(null);
-    localStorage.removeItem('accessToken');
-    localStorage.removeItem('refreshToken');
-  };
+    const delay = Math.min(Math.max(expiry - REFRESH_MARGIN_MS - Date.now(), 0), MAX_TIMEOUT_MS);
+    const timer = setTimeout(() => {
+      refreshAccessToken().catch(() => {
+        // Either refreshAccessToken logged the user out, or the next request tries again
+      });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [accessToken, refreshToken, refreshAccessToken]);
+
+  const value = useMemo(() => {
+    const user = getUserFromToken(accessToken);
+    // Opaque (non-JWT) tokens carry no expiry; an expired JWT still counts while it can be refreshed
+    const isAuthenticated = !!accessToken && (!isTokenExpiring(accessToken) || !!refreshToken);
+    return {
+      accessToken,
+      refreshToken,
+      user,
+      isAuthenticated,
+      logoutReason,
+      login,
+      register,
+      logout,
+      requestPasswordReset,
+      resetPassword,
+      refreshAccessToken,
+      getValidAccessToken,
+    };
+  }, [
+    accessToken,
+    refreshToken,
+    logoutReason,
+    login,
+    register,
+    logout,
+    requestPasswordReset,
+    resetPassword,
+    refreshAccessToken,
+    getValidAccessToken,
+  ]);
 
   if (!isLoaded) {
     return null; // or a loading spinner
   }
 
   return (
-    <AuthContext.Provider value={{ accessToken, refreshToken, login, logout }}>
+    <AuthContext.Provider value={value}>
       {children}
     </AuthContext.Provider>
   );
@@ -69,4 +240,4 @@ export const useAuth = () => {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
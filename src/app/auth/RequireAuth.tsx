@@ -0,0 +1,27 @@
+// auth/RequireAuth.tsx
+"use client"
+import React, { useEffect } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useAuth } from './AuthContext';
+import { buildLoginUrl } from './redirect';
+
+// Renders its children only for logged-in users; everyone else is sent to the login page
+// with a returnTo parameter, including users whose session ends while on the page.
+const RequireAuth: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isAuthenticated, logoutReason } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    if (isAuthenticated) return;
+    router.replace(buildLoginUrl(`${pathname}${window.location.search}`, logoutReason));
+  }, [isAuthenticated, logoutReason, pathname, router]);
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
@@ -0,0 +1,61 @@
+// auth/jwt.ts
+// Reads JWT claims on the client. Signatures are NOT verified here; the backend does that,
+// the client only needs the claims to know who is logged in and when to refresh.
+
+export interface JwtClaims {
+  sub?: string;
+  exp?: number;
+  iat?: number;
+  username?: string;
+  preferred_username?: string;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+const decodeBase64Url = (segment: string) => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  // Claims may contain UTF-8 (e.g. display names)
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export const decodeJwt = (token: string | null): JwtClaims | null => {
+  if (!token) return null;
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const claims = JSON.parse(decodeBase64Url(parts[1]));
+    return typeof claims === 'object' && claims !== null ? (claims as JwtClaims) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Expiry in epoch milliseconds, or null when the token carries no exp claim
+export const getTokenExpiry = (token: string | null): number | null => {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+// True when the token expires within `marginMs`; tokens without exp never expire
+export const isTokenExpiring = (token: string | null, marginMs = 0, now = Date.now()): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - marginMs <= now;
+};
+
+export const getUserFromToken = (token: string | null): AuthUser | null => {
+  const claims = decodeJwt(token);
+  if (!claims) return null;
+
+  const username = claims.username ?? claims.preferred_username ?? claims.name ?? claims.sub;
+  if (typeof username !== 'string') return null;
+  return { id: typeof claims.sub === 'string' ? claims.sub : username, username };
+};
@@ -0,0 +1,26 @@
+// auth/redirect.ts
+
+export type LogoutReason = 'session_expired';
+
+export const LOGIN_PATH = '/login';
+
+const logoutMessages: { [reason in LogoutReason]: string } = {
+  session_expired: 'Your session has expired. Please log in again.',
+};
+
+// Only same-origin paths are allowed as redirect targets, never "//host" or absolute URLs
+export const getSafeReturnTo = (returnTo: string | null | undefined): string => {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.startsWith('/\\')) {
+    return '/';
+  }
+  return returnTo;
+};
+
+export const buildLoginUrl = (returnTo: string, reason?: LogoutReason | null): string => {
+  const params = new URLSearchParams({ returnTo: getSafeReturnTo(returnTo) });
+  if (reason) params.set('reason', reason);
+  return `${LOGIN_PATH}?${params.toString()}`;
+};
+
+export const getLogoutMessage = (reason: string | null): string | null =>
+  reason && reason in logoutMessages ? logoutMessages[reason as LogoutReason] : null;
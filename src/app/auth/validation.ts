@@ -0,0 +1,39 @@
+// auth/validation.ts
+// Client-side checks for the auth forms. The backend stays the source of truth;
+// these only catch obvious mistakes before a round trip.
+
+export type FieldErrors<Field extends string> = Partial<{ [field in Field]: string }>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const validateUsername = (username: string): string | undefined => {
+  if (!username.trim()) return 'Username is required.';
+  if (username.length < 3 || username.length > 32) return 'Username must be between 3 and 32 characters.';
+  if (!USERNAME_PATTERN.test(username)) return 'Username may only contain letters, numbers, dots, dashes and underscores.';
+};
+
+export const validateEmail = (email: string): string | undefined => {
+  if (!email.trim()) return 'Email is required.';
+  if (!EMAIL_PATTERN.test(email)) return 'Enter a valid email address.';
+};
+
+export const validatePassword = (password: string): string | undefined => {
+  if (!password) return 'Password is required.';
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+  if (!/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) return 'Password must contain both letters and numbers.';
+};
+
+export const validatePasswordConfirmation = (password: string, confirmation: string): string | undefined => {
+  if (password !== confirmation) return 'Passwords do not match.';
+};
+
+// Drops undefined entries so `Object.keys(errors).length` tells whether the form is valid
+export const collectErrors = <Field extends string>(errors: { [field in Field]: string | undefined }): FieldErrors<Field> => {
+  const result: FieldErrors<Field> = {};
+  (Object.keys(errors) as Field[]).forEach((field) => {
+    if (errors[field]) result[field] = errors[field];
+  });
+  return result;
+};
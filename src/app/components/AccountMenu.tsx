@@ -0,0 +1,43 @@
+// app/components/AccountMenu.tsx
+"use client"
+import React from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "../auth/AuthContext";
+import { LOGIN_PATH } from "../auth/redirect";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+
+const AccountMenu: React.FC = () => {
+  const { user, logout } = useAuth();
+  const router = useRouter();
+
+  const handleLogout = () => {
+    logout();
+    router.replace(LOGIN_PATH);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="text-white hover:text-black">
+          {user?.username ?? "Account"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px] bg-white/75" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>Account</DialogTitle>
+          <DialogDescription>
+            {user ? `Signed in as ${user.username}` : "Signed in"}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <Button variant="destructive" onClick={handleLogout}>
+            Log out
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountMenu;
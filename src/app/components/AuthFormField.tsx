@@ -0,0 +1,42 @@
+// components/AuthFormField.tsx
+
+"use client"
+import { Input } from '@/components/ui/input';
+
+interface AuthFormFieldProps {
+  id: string;
+  label: string;
+  type?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  autoComplete?: string;
+  error?: string;
+}
+
+// Labelled input with its validation message underneath, shared by the auth forms
+const AuthFormField = ({ id, label, type = 'text', value, onChange, placeholder, autoComplete, error }: AuthFormFieldProps) => (
+  <div className="space-y-2">
+    <label htmlFor={id} className="text-sm font-medium text-gray-700">
+      {label}
+    </label>
+    <Input
+      id={id}
+      type={type}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      autoComplete={autoComplete}
+      aria-invalid={!!error}
+      aria-describedby={error ? `${id}-error` : undefined}
+      className={error ? 'border-red-500' : undefined}
+    />
+    {error && (
+      <p id={`${id}-error`} className="text-sm text-red-600">
+        {error}
+      </p>
+    )}
+  </div>
+);
+
+export default AuthFormField;
@@ -0,0 +1,77 @@
+// app/components/BuildMenu.tsx
+"use client"
+import React, { useEffect, useState } from "react";
+import { BUILDINGS, BUILDING_TYPES, BuildingType } from "../data/content";
+import { gameActions, selectBuildMode, selectLocalPlayer } from "../store/gameStore";
+import { useGameDispatch, useGameStore } from "../store/GameStoreContext";
+import { canAfford, formatResourceAmounts } from "../utils/resources";
+import { Button } from "@/components/ui/button";
+
+// Building catalog. Picking a building enters build mode, where the map shows a ghost of it
+// on the hovered tile and a click asks to confirm the placement.
+const BuildMenu: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const buildMode = useGameStore(selectBuildMode);
+  const player = useGameStore(selectLocalPlayer);
+  const dispatch = useGameDispatch();
+
+  const chooseBuilding = (building: BuildingType) => {
+    dispatch(gameActions.setBuildMode(building));
+    setOpen(false);
+  };
+
+  useEffect(() => {
+    if (!buildMode) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") dispatch(gameActions.setBuildMode(null));
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [buildMode, dispatch]);
+
+  if (buildMode) {
+    return (
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-4 rounded bg-white/75 px-4 py-2 ui-element">
+        <span className="text-sm">
+          Placing {BUILDINGS[buildMode].label}: click a tile, Esc to cancel
+        </span>
+        <Button variant="outline" onClick={() => dispatch(gameActions.setBuildMode(null))}>
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex flex-col items-center gap-2 ui-element">
+      {open && (
+        <div className="grid gap-2 rounded bg-white/75 p-4">
+          {BUILDING_TYPES.map((building) => {
+            const { label, description, cost } = BUILDINGS[building];
+            const affordable = !!player && canAfford(player.resources, cost);
+            return (
+              <Button
+                key={building}
+                variant="outline"
+                className="h-auto flex-col items-start"
+                disabled={!affordable}
+                title={description}
+                onClick={() => chooseBuilding(building)}
+              >
+                <span>{label}</span>
+                <span className="text-xs text-muted-foreground">{formatResourceAmounts(cost)}</span>
+              </Button>
+            );
+          })}
+          {!player && <p className="text-sm">Connect to the game to build.</p>}
+        </div>
+      )}
+      <Button variant="outline" className="text-white hover:text-black" onClick={() => setOpen(!open)}>
+        Build
+      </Button>
+    </div>
+  );
+};
+
+export default BuildMenu;
@@ -0,0 +1,83 @@
+// app/components/BuildingGhost.ts
+import * as THREE from 'three';
+import { BUILDINGS, BuildingType } from '../data/content';
+import { axialToWorld } from '../utils/hex';
+import { loadGLTFModel } from '../utils/gltfModels';
+
+export interface BuildingGhostProps {
+  size: number;
+  // Height of the tile surface the ghost stands on
+  height: number;
+}
+
+// Translucent stand-in for a building while choosing where to place it, tinted by whether it fits
+export class BuildingGhost extends THREE.Group {
+  private size: number;
+  private height: number;
+  private validMaterial: THREE.MeshStandardMaterial;
+  private invalidMaterial: THREE.MeshStandardMaterial;
+  private building: BuildingType | null = null;
+  private model: THREE.Object3D | null = null;
+  private valid = true;
+
+  constructor({ size, height }: BuildingGhostProps) {
+    super();
+    this.size = size;
+    this.height = height;
+
+    const ghost = (color: THREE.ColorRepresentation) =>
+      new THREE.MeshStandardMaterial({ color, transparent: true, opacity: 0.55, depthWrite: false });
+    this.validMaterial = ghost(0x66ff66);
+    this.invalidMaterial = ghost(0xff4040);
+    this.visible = false;
+  }
+
+  show(building: BuildingType, q: number, r: number, valid: boolean) {
+    const { x, z } = axialToWorld(q, r, this.size);
+    this.position.set(x, this.height, z);
+    this.valid = valid;
+    this.visible = true;
+
+    if (building !== this.building) {
+      this.building = building;
+      this.setModel(null);
+      loadGLTFModel(BUILDINGS[building].model)
+        .then((model) => {
+          // Another building was picked while this one loaded
+          if (this.building === building) this.setModel(model.clone());
+        })
+        .catch((error) => console.error(`Failed to load the preview of ${building}:`, error));
+    } else {
+      this.applyMaterial();
+    }
+  }
+
+  hide() {
+    this.visible = false;
+  }
+
+  dispose() {
+    this.setModel(null);
+    this.building = null;
+    this.validMaterial.dispose();
+    this.invalidMaterial.dispose();
+  }
+
+  private setModel(model: THREE.Object3D | null) {
+    if (this.model) this.remove(this.model);
+    this.model = model;
+    if (!model) return;
+
+    model.scale.setScalar(this.size);
+    this.add(model);
+    this.applyMaterial();
+  }
+
+  // The clone shares materials with placed buildings, so they are swapped rather than edited
+  private applyMaterial() {
+    const material = this.valid ? this.validMaterial : this.invalidMaterial;
+    this.model?.traverse((object) => {
+      if (object instanceof THREE.Mesh) object.material = material;
+    });
+  }
+}
@@ -0,0 +1,77 @@
+// app/components/BuildingModels.ts
+import * as THREE from 'three';
+import { BUILDINGS } from '../data/content';
+import { PlacedBuilding } from '../store/gameStore';
+import { axialToWorld, hexKey } from '../utils/hex';
+import { loadGLTFModel } from '../utils/gltfModels';
+
+export interface BuildingModelsProps {
+  size: number;
+  // Height of the tile surface the buildings stand on
+  height: number;
+}
+
+interface BuildingEntry {
+  building: PlacedBuilding;
+  // Null until the model has loaded
+  object: THREE.Object3D | null;
+}
+
+/**
+ * The buildings standing on the map, one GLTF model each. Models are cloned from the
+ * shared cache, so geometry and materials are never disposed here.
+ */
+export class BuildingModels extends THREE.Group {
+  private size: number;
+  private height: number;
+  private entries = new Map<string, BuildingEntry>();
+  private disposed = false;
+
+  constructor({ size, height }: BuildingModelsProps) {
+    super();
+    this.size = size;
+    this.height = height;
+  }
+
+  // Adds, replaces and removes models so exactly `buildings` are shown
+  setBuildings(buildings: PlacedBuilding[]) {
+    const wanted = new Map(buildings.map((building) => [hexKey(building.q, building.r), building]));
+
+    this.entries.forEach((entry, key) => {
+      if (wanted.get(key)?.building !== entry.building.building) this.removeEntry(key);
+    });
+    wanted.forEach((building, key) => {
+      if (!this.entries.has(key)) this.addEntry(key, building);
+    });
+  }
+
+  dispose() {
+    this.disposed = true;
+    Array.from(this.entries.keys()).forEach((key) => this.removeEntry(key));
+  }
+
+  private addEntry(key: string, building: PlacedBuilding) {
+    const entry: BuildingEntry = { building, object: null };
+    this.entries.set(key, entry);
+
+    loadGLTFModel(BUILDINGS[building.building].model)
+      .then((model) => {
+        // Removed or replaced while loading
+        if (this.disposed || this.entries.get(key) !== entry) return;
+
+        const object = model.clone();
+        const { x, z } = axialToWorld(building.q, building.r, this.size);
+        object.position.set(x, this.height, z);
+        object.scale.setScalar(this.size);
+        entry.object = object;
+        this.add(object);
+      })
+      .catch((error) => console.error(`Failed to add building ${building.building}:`, error));
+  }
+
+  private removeEntry(key: string) {
+    const entry = this.entries.get(key);
+    if (entry?.object) this.remove(entry.object);
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,460 @@
+// app/components/ChunkedTerrain.ts
+import * as THREE from 'three';
+import { BuildPreview, FogOfWar, PlacedBuilding, TerritoryBorder } from '../store/gameStore';
+import { TileData, TileUpdate } from '../types/gameTypes';
+import { Axial, axialToWorld, hexKey, parseHexKey } from '../utils/hex';
+import { CHUNK_SIZE, ChunkCoord, getChunkCoord, getChunkWorldBounds, getMapChunks } from '../utils/chunks';
+import { ChunkSource } from '../utils/chunkSource';
+import { getColorForTerrain } from '../utils/terrain';
+import { MovementRange } from '../utils/pathfinding';
+import { Visibility } from '../utils/vision';
+import { MapLocation, getMapKey } from '../utils/mapHierarchy';
+import { applyTileUpdate, mergeTileUpdates } from '../utils/tileUpdates';
+import { TerrainInstances, getTileSurfaceHeight } from './TerrainInstances';
+import { BuildingGhost } from './BuildingGhost';
+import { BuildingModels } from './BuildingModels';
+import { MovementRangeOverlay } from './MovementRangeOverlay';
+import { PathPreview } from './PathPreview';
+import { TerritoryBorders } from './TerritoryBorders';
+import { TileHighlight } from './TileHighlight';
+
+export interface ChunkedTerrainProps {
+  source: ChunkSource;
+  size: number;
+  height: number;
+  map: MapLocation;
+  mapRadius: number;
+  chunkSize?: number;
+  // Upper bound on chunks wanted at once; the nearest visible chunks win
+  maxVisibleChunks?: number;
+  // Loaded chunks kept around after leaving the view, least recently seen are evicted first
+  maxCachedChunks?: number;
+  maxConcurrentRequests?: number;
+  // With the tiles of each chunk loaded, and of each chunk dropped
+  onTilesAdded?: (tiles: TileData[]) => void;
+  onTilesRemoved?: (tiles: TileData[]) => void;
+  onChunkError?: (error: Error) => void;
+}
+
+// Fog of war darkens tiles that are out of sight and nearly blacks out the ones never seen
+const FOG_TINTS: { [V in Visibility]: THREE.Color } = {
+  visible: new THREE.Color(1, 1, 1),
+  explored: new THREE.Color(0.45, 0.47, 0.55),
+  unexplored: new THREE.Color(0.08, 0.08, 0.1),
+};
+
+interface LoadedChunk {
+  coord: ChunkCoord;
+  instances: TerrainInstances;
+  lastVisible: number;
+}
+
+interface ChunkBox {
+  coord: ChunkCoord;
+  key: string;
+  box: THREE.Box3;
+}
+
+/**
+ * The whole map of one level, streamed chunk by chunk.
+ * Call update(camera) every frame: chunks intersecting the camera frustum are requested
+ * nearest first, and chunks that have been out of view the longest are evicted once the
+ * cache is full.
+ */
+export class ChunkedTerrain extends THREE.Group {
+  public readonly size: number;
+  public readonly height: number;
+  public readonly map: MapLocation;
+  // See getMapKey
+  public readonly mapKey: string;
+  public readonly chunkSize: number;
+  private source: ChunkSource;
+  private maxVisibleChunks: number;
+  private maxCachedChunks: number;
+  private maxConcurrentRequests: number;
+  private onTilesAdded?: (tiles: TileData[]) => void;
+  private onTilesRemoved?: (tiles: TileData[]) => void;
+  private onChunkError?: (error: Error) => void;
+  private chunkBoxes: ChunkBox[];
+  private loaded = new Map<string, LoadedChunk>();
+  private pending = new Set<string>();
+  private queue: ChunkCoord[] = [];
+  // Realtime changes, kept so chunks loaded (or reloaded) later still show them
+  private tileUpdates = new Map<string, TileUpdate>();
+  // Whole tiles from the map editor, by hexKey, in place of the ones the source serves
+  private tileEdits: { [key: string]: TileData } = {};
+  private frame = 0;
+  private frustum = new THREE.Frustum();
+  private projectionScreenMatrix = new THREE.Matrix4();
+  private lastCameraState = new THREE.Matrix4();
+  private focusHighlight: TileHighlight;
+  private hoverHighlight: TileHighlight;
+  private pathPreview: PathPreview;
+  private movementRange: MovementRangeOverlay;
+  private territoryBorders: TerritoryBorders;
+  private buildings: BuildingModels;
+  private buildGhost: BuildingGhost;
+  private fogOfWar: FogOfWar | null = null;
+  private disposed = false;
+  // Cleared by stopLoading once the terrain is left for another map
+  private loading = true;
+
+  constructor({
+    source,
+    size,
+    height,
+    map,
+    mapRadius,
+    chunkSize = CHUNK_SIZE,
+    maxVisibleChunks = 256,
+    maxCachedChunks = 384,
+    maxConcurrentRequests = 4,
+    onTilesAdded,
+    onTilesRemoved,
+    onChunkError,
+  }: ChunkedTerrainProps) {
+    super();
+
+    this.source = source;
+    this.size = size;
+    this.height = height;
+    this.map = map;
+    this.mapKey = getMapKey(map);
+    this.chunkSize = chunkSize;
+    this.maxVisibleChunks = maxVisibleChunks;
+    this.maxCachedChunks = Math.max(maxCachedChunks, maxVisibleChunks);
+    this.maxConcurrentRequests = maxConcurrentRequests;
+    this.onTilesAdded = onTilesAdded;
+    this.onTilesRemoved = onTilesRemoved;
+    this.onChunkError = onChunkError;
+
+    const top = getTileSurfaceHeight(size, height);
+    this.chunkBoxes = getMapChunks(mapRadius, chunkSize).map((coord) => {
+      const bounds = getChunkWorldBounds(coord, size, chunkSize);
+      return {
+        coord,
+        key: hexKey(coord.q, coord.r),
+        box: new THREE.Box3(
+          new THREE.Vector3(bounds.minX, 0, bounds.minZ),
+          new THREE.Vector3(bounds.maxX, top, bounds.maxZ)
+        ),
+      };
+    });
+
+    this.focusHighlight = new TileHighlight({ size, color: 0xffff00, thick: true });
+    this.hoverHighlight = new TileHighlight({ size, color: 0xffffff, opacity: 0.8 });
+    this.territoryBorders = new TerritoryBorders({ size, height: top + 0.003 });
+    this.movementRange = new MovementRangeOverlay({ size, height: top + 0.005 });
+    this.pathPreview = new PathPreview({ size, height: top + 0.01 });
+    this.buildings = new BuildingModels({ size, height: top });
+    this.buildGhost = new BuildingGhost({ size, height: top });
+    this.add(
+      this.focusHighlight,
+      this.hoverHighlight,
+      this.territoryBorders,
+      this.movementRange,
+      this.pathPreview,
+      this.buildings,
+      this.buildGhost
+    );
+  }
+
+  get tileCount() {
+    let count = 0;
+    this.loaded.forEach((chunk) => (count += chunk.instances.tileCount));
+    return count;
+  }
+
+  get loadedChunkCount() {
+    return this.loaded.size;
+  }
+
+  getTile(q: number, r: number): TileData | null {
+    const chunk = getChunkCoord(q, r, this.chunkSize);
+    return this.loaded.get(hexKey(chunk.q, chunk.r))?.instances.getTile(q, r) ?? null;
+  }
+
+  // Color used for UI that stands in for the tile, e.g. the level transition overlay
+  getTileColor(q: number, r: number): string | null {
+    const tile = this.getTile(q, r);
+    return tile ? getColorForTerrain(tile.terrain) : null;
+  }
+
+  getTileWorldPosition(q: number, r: number, target = new THREE.Vector3()): THREE.Vector3 {
+    const { x, z } = axialToWorld(q, r, this.size);
+    target.set(x, 0, z);
+    return this.localToWorld(target);
+  }
+
+  applyTileUpdates(updates: TileUpdate[]) {
+    if (this.disposed || updates.length === 0) return;
+
+    updates.forEach((update) => {
+      const key = hexKey(update.q, update.r);
+      const merged = mergeTileUpdates(this.tileUpdates.get(key), update);
+      this.tileUpdates.set(key, merged);
+
+      const chunk = getChunkCoord(update.q, update.r, this.chunkSize);
+      this.loaded.get(hexKey(chunk.q, chunk.r))?.instances.updateTile(merged);
+    });
+  }
+
+  // Edits are never taken back, undo paints the earlier tile instead. Only the chunks with
+  // changed tiles are rebuilt, their old instances stay until the new ones are drawn.
+  setTileEdits(edits: { [key: string]: TileData }) {
+    if (this.disposed || edits === this.tileEdits) return;
+
+    const changedChunks = new Set<string>();
+    Object.keys(edits).forEach((key) => {
+      if (edits[key] === this.tileEdits[key]) return;
+      const { q, r } = edits[key];
+      const chunk = getChunkCoord(q, r, this.chunkSize);
+      changedChunks.add(hexKey(chunk.q, chunk.r));
+    });
+    this.tileEdits = edits;
+
+    changedChunks.forEach((key) => {
+      const chunk = this.loaded.get(key);
+      if (!chunk) return;
+
+      const previous = chunk.instances;
+      const instances = new TerrainInstances({
+        tiles: previous.getTiles().map((tile) => edits[hexKey(tile.q, tile.r)] ?? tile),
+        size: this.size,
+        height: this.height,
+      });
+      this.applyVisibility(instances);
+      this.add(instances);
+      chunk.instances = instances;
+      instances.ready.then(() => {
+        this.remove(previous);
+        previous.dispose();
+      });
+    });
+  }
+
+  setFocus(q: number, r: number) {
+    this.showHighlight(this.focusHighlight, q, r);
+  }
+
+  clearFocus() {
+    this.focusHighlight.hide();
+  }
+
+  setHover(q: number, r: number) {
+    this.showHighlight(this.hoverHighlight, q, r);
+  }
+
+  clearHover() {
+    this.hoverHighlight.hide();
+  }
+
+  // `steps` are the tiles a move would enter; shown in warning colors when it costs too much
+  setPathPreview(steps: Axial[], withinBudget: boolean) {
+    this.pathPreview.show(steps, withinBudget);
+  }
+
+  clearPathPreview() {
+    this.pathPreview.hide();
+  }
+
+  setMovementRange(range: MovementRange) {
+    this.movementRange.setRange(range);
+  }
+
+  clearMovementRange() {
+    this.movementRange.clearRange();
+  }
+
+  // Until this is called every tile shows as visible. Only tiles that came into or went out of
+  // sight are tinted again, unless everything was or is now visible.
+  setVisibility(fogOfWar: FogOfWar) {
+    const previous = this.fogOfWar;
+    this.fogOfWar = fogOfWar;
+    if (!previous?.visible || !fogOfWar.visible) {
+      this.loaded.forEach((chunk) => this.applyVisibility(chunk.instances));
+      return;
+    }
+
+    const { visible } = fogOfWar;
+    const wasVisible = previous.visible;
+    wasVisible.forEach((key) => {
+      if (!visible.has(key)) this.applyTileVisibility(key);
+    });
+    visible.forEach((key) => {
+      if (!wasVisible.has(key)) this.applyTileVisibility(key);
+    });
+  }
+
+  setTerritoryBorders(borders: TerritoryBorder[]) {
+    this.territoryBorders.setBorders(borders);
+  }
+
+  setBuildings(buildings: PlacedBuilding[]) {
+    this.buildings.setBuildings(buildings);
+  }
+
+  setBuildPreview(preview: BuildPreview) {
+    this.buildGhost.show(preview.building, preview.q, preview.r, !preview.error);
+  }
+
+  clearBuildPreview() {
+    this.buildGhost.hide();
+  }
+
+  update(camera: THREE.Camera) {
+    if (this.disposed) return;
+
+    // Only recompute visibility when the camera or the terrain actually moved. The frustum is
+    // taken into the terrain's own space, where the chunk boxes are.
+    camera.updateMatrixWorld();
+    this.updateWorldMatrix(true, false);
+    this.projectionScreenMatrix
+      .multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+      .multiply(this.matrixWorld);
+    if (this.projectionScreenMatrix.equals(this.lastCameraState)) return;
+    this.lastCameraState.copy(this.projectionScreenMatrix);
+
+    this.frame++;
+    this.frustum.setFromProjectionMatrix(this.projectionScreenMatrix);
+
+    const cameraPosition = this.worldToLocal(camera.getWorldPosition(new THREE.Vector3()));
+    const center = new THREE.Vector3();
+    const visible = this.chunkBoxes
+      .filter(({ box }) => this.frustum.intersectsBox(box))
+      .map((chunk) => ({ chunk, distance: chunk.box.getCenter(center).distanceToSquared(cameraPosition) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, this.maxVisibleChunks)
+      .map(({ chunk }) => chunk);
+
+    visible.forEach(({ key }) => {
+      const loaded = this.loaded.get(key);
+      if (loaded) loaded.lastVisible = this.frame;
+    });
+
+    this.queue = visible
+      .filter(({ key }) => this.loading && !this.loaded.has(key) && !this.pending.has(key))
+      .map(({ coord }) => coord);
+
+    this.evictChunks();
+    this.pumpQueue();
+  }
+
+  // Drop every loaded chunk and request the visible ones again
+  reload() {
+    this.loaded.forEach((chunk) => this.dropChunk(chunk));
+    this.loaded.clear();
+    this.lastCameraState.identity();
+  }
+
+  // No more chunk requests; the chunks loaded so far stay on screen. Requests already sent
+  // still finish, without reporting to onTilesAdded or onChunkError.
+  stopLoading() {
+    this.loading = false;
+    this.queue = [];
+  }
+
+  dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    this.loaded.forEach((chunk) => this.removeChunk(chunk));
+    this.loaded.clear();
+    this.queue = [];
+    this.focusHighlight.dispose();
+    this.hoverHighlight.dispose();
+    this.pathPreview.dispose();
+    this.movementRange.dispose();
+    this.territoryBorders.dispose();
+    this.buildings.dispose();
+    this.buildGhost.dispose();
+  }
+
+  private pumpQueue() {
+    while (this.pending.size < this.maxConcurrentRequests && this.queue.length > 0) {
+      const coord = this.queue.shift()!;
+      this.loadChunk(coord);
+    }
+  }
+
+  private async loadChunk(coord: ChunkCoord) {
+    const key = hexKey(coord.q, coord.r);
+    this.pending.add(key);
+
+    try {
+      const chunk = await this.source.fetchChunk(coord, this.map, this.chunkSize);
+      if (this.disposed || this.loaded.has(key)) return;
+
+      const instances = new TerrainInstances({
+        tiles: chunk.tiles.map((tile) => {
+          const key = hexKey(tile.q, tile.r);
+          const edited = this.tileEdits[key] ?? tile;
+          const update = this.tileUpdates.get(key);
+          return update ? applyTileUpdate(edited, update) : edited;
+        }),
+        size: this.size,
+        height: this.height,
+      });
+      this.applyVisibility(instances);
+      this.add(instances);
+      this.loaded.set(key, { coord, instances, lastVisible: this.frame });
+      if (this.loading) this.onTilesAdded?.(instances.getTiles());
+      this.evictChunks();
+    } catch (error) {
+      // Not marked as loaded, so the chunk is requested again next time the camera moves
+      if (!this.disposed && this.loading) {
+        this.onChunkError?.(error instanceof Error ? error : new Error(`Failed to load chunk ${key}`));
+      }
+    } finally {
+      this.pending.delete(key);
+      if (!this.disposed) this.pumpQueue();
+    }
+  }
+
+  private applyVisibility(instances: TerrainInstances) {
+    if (!this.fogOfWar) return;
+    const { visibility } = this.fogOfWar;
+    instances.getTiles().forEach(({ q, r }) => instances.setTileTint(q, r, FOG_TINTS[visibility(q, r)]));
+  }
+
+  private applyTileVisibility(key: string) {
+    if (!this.fogOfWar) return;
+    const { q, r } = parseHexKey(key);
+    const chunk = getChunkCoord(q, r, this.chunkSize);
+    this.loaded.get(hexKey(chunk.q, chunk.r))?.instances.setTileTint(q, r, FOG_TINTS[this.fogOfWar.visibility(q, r)]);
+  }
+
+  private evictChunks() {
+    if (this.loaded.size <= this.maxCachedChunks) return;
+
+    const stale = Array.from(this.loaded.entries())
+      .filter(([, chunk]) => chunk.lastVisible < this.frame)
+      .sort(([, a], [, b]) => a.lastVisible - b.lastVisible);
+
+    for (const [key, chunk] of stale) {
+      if (this.loaded.size <= this.maxCachedChunks) break;
+      this.dropChunk(chunk);
+      this.loaded.delete(key);
+    }
+  }
+
+  // Removes a chunk that is no longer wanted, as opposed to everything going on dispose
+  private dropChunk(chunk: LoadedChunk) {
+    this.removeChunk(chunk);
+    this.onTilesRemoved?.(chunk.instances.getTiles());
+  }
+
+  private removeChunk(chunk: LoadedChunk) {
+    this.remove(chunk.instances);
+    chunk.instances.dispose();
+  }
+
+  private showHighlight(highlight: TileHighlight, q: number, r: number) {
+    if (!this.getTile(q, r)) {
+      highlight.hide();
+      return;
+    }
+    const { x, z } = axialToWorld(q, r, this.size);
+    highlight.showAt(new THREE.Vector3(x, getTileSurfaceHeight(this.size, this.height), z));
+  }
+}
@@ -0,0 +1,107 @@
+// components/ForgotPassword.tsx
+
+"use client"
+import { useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '../auth/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, Info } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getFieldErrors } from '../utils/apiClient';
+import { validateEmail } from '../auth/validation';
+import AuthFormField from './AuthFormField';
+
+const ForgotPassword = () => {
+  const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const { requestPasswordReset } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const validationError = validateEmail(email);
+    setEmailError(validationError);
+    if (validationError) return;
+
+    setIsSubmitting(true);
+    try {
+      await requestPasswordReset(email);
+      setIsSent(true);
+    } catch (err) {
+      const serverEmailError = getFieldErrors(err).email;
+      setEmailError(serverEmailError);
+      if (!serverEmailError) {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-100 p-4 sm:p-6 md:p-8">
+      <div className="w-full max-w-md">
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold text-center">
+              Forgot password
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isSent ? (
+              <div className="space-y-4">
+                {/* Same answer whether or not the address has an account */}
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertDescription>
+                    If an account exists for {email}, we sent a link to reset your password.
+                  </AlertDescription>
+                </Alert>
+                <Button asChild className="w-full">
+                  <Link href="/login">Back to login</Link>
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+                <p className="text-sm text-gray-600">
+                  Enter the email address of your account and we will send you a reset link.
+                </p>
+                <AuthFormField
+                  id="email"
+                  label="Email"
+                  type="email"
+                  value={email}
+                  onChange={setEmail}
+                  placeholder="Enter your email"
+                  autoComplete="email"
+                  error={emailError}
+                />
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Sending...' : 'Send reset link'}
+                </Button>
+                <p className="text-center text-sm text-gray-600">
+                  <Link href="/login" className="font-medium text-blue-600 hover:underline">
+                    Back to login
+                  </Link>
+                </p>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -1,36 +1,62 @@
 // app/components/HexagonalMap.tsx
 'use client';
 
-import React, { useCallback, useRef, useState, useEffect } from 'react';
+import React, { useCallback, useRef, useEffect } from 'react';
 import ThreeJSSceneManager from './ThreeJSSceneManager';
+import ResourceBar from './ResourceBar';
+import TurnIndicator from './TurnIndicator';
+import MapFileMenu from './MapFileMenu';
+import MapEditor from './MapEditor';
 import { useHexagonTiles } from '../hooks/useHexagonTiles';
+import { gameActions, selectConnectionStatus, selectMapLevel } from '../store/gameStore';
+import { Axial } from '../utils/hex';
+import { MapParent } from '../utils/mapHierarchy';
+import { GameStoreProvider, useGameDispatch, useGameStore } from '../store/GameStoreContext';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle } from 'lucide-react';
 
 interface HexagonalMapProps {
   size: number;
   tileSize: number;
   tileHeight: number;
   initialMapLevel: number;
+  // Tiles descended through to reach the initial map, the level's default map without them
+  initialMapPath?: MapParent[];
+  // Show a saved map instead of the procedural one
+  savedMapId?: string;
 }
 
-const HexagonalMap: React.FC<HexagonalMapProps> = ({ size, tileSize, tileHeight, initialMapLevel }) => {
+const HexagonalMapContent: React.FC<Omit<HexagonalMapProps, 'initialMapLevel' | 'initialMapPath'>> = ({
+  size,
+  tileSize,
+  tileHeight,
+  savedMapId,
+}) => {
   const mountRef = useRef<HTMLDivElement>(null);
-  const [mapLevel, setMapLevel] = useState(initialMapLevel);
-  const { tiles, scene } = useHexagonTiles(size, tileSize, tileHeight, mapLevel);
+  const mapLevel = useGameStore(selectMapLevel);
+  const connectionStatus = useGameStore(selectConnectionStatus);
+  const dispatch = useGameDispatch();
+  const { terrain, previousTerrain, releaseTerrain, scene, error, importMapFile, exportMapFile } = useHexagonTiles(
+    size,
+    tileSize,
+    tileHeight,
+    savedMapId
+  );
 
-  const handleDescend = useCallback((newMapData: { q: number; r: number; mapLevel: number; parentTile?: { q: number; r: number } }) => {
-    
-    setMapLevel(newMapData.mapLevel);
-  }, []);
+  // A child map starts at its center
+  const handleDescend = useCallback((tile: Axial) => {
+    dispatch(gameActions.descend(tile));
+  }, [dispatch]);
 
-  const handleAscend = useCallback((newMapData: { mapLevel: number; parentTile?: { q: number; r: number }}) => {
-    
-    setMapLevel(newMapData.mapLevel);
-  }, []);
+  // Back on a parent map the player stands on the tile it descended into
+  const handleAscend = useCallback((level: number) => {
+    dispatch(gameActions.ascend(level));
+  }, [dispatch]);
 
   useEffect(() => {
     console.log(`Current map level: ${mapLevel}`);
-    console.log(`Number of tiles: ${tiles.length}`);
-  }, [mapLevel, tiles]);
+    console.log(`Number of tiles: ${terrain?.tileCount ?? 0}`);
+  }, [mapLevel, terrain]);
 
   return (
     <div ref={mountRef} className="w-full h-screen">
@@ -40,13 +66,38 @@ const HexagonalMap: React.FC<HexagonalMapProps> = ({ size, tileSize, tileHeight,
         size={size}
         tileSize={tileSize}
         tileHeight={tileHeight}
-        tiles={tiles}
+        terrain={terrain}
+        previousTerrain={previousTerrain}
+        onTerrainReleased={releaseTerrain}
         mapLevel={mapLevel}
         onDescend={handleDescend}
-        onAscend={handleAscend}>
+        onAscend={handleAscend}
+        savedMapId={savedMapId}>
       </ThreeJSSceneManager>
+      <ResourceBar />
+      <TurnIndicator />
+      <MapFileMenu onExport={exportMapFile} onImport={importMapFile} />
+      <MapEditor mapRadius={size} savedMapId={savedMapId} />
+      {error && (
+        <Alert variant="destructive" className="absolute top-16 left-4 w-auto max-w-md bg-white/75 ui-element">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+      {connectionStatus === 'reconnecting' && (
+        <div className="absolute bottom-4 left-4 rounded bg-white/75 px-3 py-1 text-sm ui-element">
+          Connection lost, reconnecting...
+        </div>
+      )}
     </div>
   );
 };
 
+const HexagonalMap: React.FC<HexagonalMapProps> = ({ initialMapLevel, initialMapPath, ...props }) => (
+  <GameStoreProvider
+    initialState={initialMapPath ? { mapLevel: initialMapLevel, mapPath: initialMapPath } : { mapLevel: initialMapLevel }}>
+    <HexagonalMapContent {...props} />
+  </GameStoreProvider>
+);
+
 export default HexagonalMap;
\ No newline at end of file
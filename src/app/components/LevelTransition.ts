@@ -0,0 +1,96 @@
+// app/components/LevelTransition.ts
+import * as THREE from 'three';
+import gsap from 'gsap';
+import { Axial, axialToWorld } from '../utils/hex';
+import { ChunkedTerrain } from './ChunkedTerrain';
+import { getTileSurfaceHeight } from './TerrainInstances';
+
+export const LEVEL_TRANSITION_DURATION = 1.5;
+
+// A child map of `mapRadius` drawn this much smaller fits inside the tile of its parent
+export const getChildMapScale = (mapRadius: number) => 1 / (2 * mapRadius + 1);
+
+export interface CameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+}
+
+interface LevelTransitionOptions {
+  direction: 'descend' | 'ascend';
+  parent: ChunkedTerrain;
+  child: ChunkedTerrain;
+  // The tiles leading from the parent map down to the child map, outermost first
+  tiles: Axial[];
+  mapRadius: number;
+  camera: THREE.PerspectiveCamera;
+  cameraTo: CameraPose;
+  onComplete: () => void;
+}
+
+// Where the camera looks, i.e. where its view direction meets the ground
+const getCameraTarget = (camera: THREE.Camera) => {
+  const direction = camera.getWorldDirection(new THREE.Vector3());
+  const distance = direction.y < 0 ? -camera.position.y / direction.y : 0;
+  return camera.position.clone().addScaledVector(direction, distance);
+};
+
+/**
+ * Semantic zoom between a map and a map below it, with both terrains in the scene.
+ * The child map is drawn inside the footprint of the parent tile it belongs to; descending
+ * grows it to full size while the parent grows past the camera, ascending shrinks it back
+ * into its tile. The terrain that stays ends at its normal size at the origin.
+ */
+export const zoomBetweenLevels = ({
+  direction,
+  parent,
+  child,
+  tiles,
+  mapRadius,
+  camera,
+  cameraTo,
+  onComplete,
+}: LevelTransitionOptions) => {
+  // Where the child map sits in the parent's space, and how much smaller it is drawn there
+  const childScale = getChildMapScale(mapRadius);
+  const surface = getTileSurfaceHeight(parent.size, parent.height);
+  const offset = new THREE.Vector3();
+  let scale = 1;
+  tiles.forEach(({ q, r }) => {
+    const { x, z } = axialToWorld(q, r, parent.size);
+    offset.add(new THREE.Vector3(x, surface, z).multiplyScalar(scale));
+    scale *= childScale;
+  });
+
+  // At zoom 0 the parent is shown as is, at zoom 1 the child; the offset slides to the origin
+  // as the parent grows around it
+  const applyZoom = (zoom: number) => {
+    const growth = Math.pow(scale, -zoom);
+    parent.scale.setScalar(growth);
+    parent.position.copy(offset).multiplyScalar(1 - zoom - growth);
+    child.scale.setScalar(scale * growth);
+    child.position.copy(offset).multiplyScalar(1 - zoom);
+  };
+
+  const cameraFrom: CameraPose = { position: camera.position.clone(), target: getCameraTarget(camera) };
+  const target = new THREE.Vector3();
+  const progress = { value: 0 };
+  const zoomFor = (value: number) => (direction === 'descend' ? value : 1 - value);
+  applyZoom(zoomFor(0));
+
+  return gsap.to(progress, {
+    duration: LEVEL_TRANSITION_DURATION,
+    value: 1,
+    ease: 'power2.inOut',
+    onUpdate: () => {
+      applyZoom(zoomFor(progress.value));
+      camera.position.lerpVectors(cameraFrom.position, cameraTo.position, progress.value);
+      camera.lookAt(target.lerpVectors(cameraFrom.target, cameraTo.target, progress.value));
+    },
+    onComplete: () => {
+      const remaining = direction === 'descend' ? child : parent;
+      remaining.scale.setScalar(1);
+      remaining.position.set(0, 0, 0);
+      onComplete();
+    },
+  });
+};
@@ -2,13 +2,16 @@
 
 "use client"
 import { useState } from 'react';
+import Link from 'next/link';
 import { useAuth } from '../auth/AuthContext';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, Info } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getLogoutMessage, getSafeReturnTo } from '../auth/redirect';
+import { ApiError } from '../utils/apiClient';
 
 const Login = () => {
   // Track login inputs and potential error
@@ -17,8 +20,11 @@ const Login = () => {
   const [error, setError] = useState<string | null>(null);
   // Get login from AuthContext
   const { login } = useAuth();
-  // Router for redirection
+  // Router for redirection, back to the page that sent us here
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'));
+  const logoutMessage = getLogoutMessage(searchParams.get('reason'));
 
   // Submit form logic
   const handleSubmit = async (e: React.FormEvent) => {
@@ -26,9 +32,11 @@ const Login = () => {
     setError(null);
     try {
       await login(username, password);
-      router.push('/');
+      router.replace(returnTo);
     } catch (err) {
-      if (err instanceof Error) {
+      if (err instanceof ApiError && err.status === 401) {
+        setError('Invalid username or password.');
+      } else if (err instanceof Error) {
         setError(err.message);
       } else {
         setError('An unexpected error occurred. Please try again.');
@@ -49,6 +57,12 @@ const Login = () => {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
+              {logoutMessage && !error && (
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertDescription>{logoutMessage}</AlertDescription>
+                </Alert>
+              )}
               <div className="space-y-2">
                 <label htmlFor="username" className="text-sm font-medium text-gray-700">
                   Username
@@ -63,9 +77,14 @@ const Login = () => {
                 />
               </div>
               <div className="space-y-2">
-                <label htmlFor="password" className="text-sm font-medium text-gray-700">
-                  Password
-                </label>
+                <div className="flex items-center justify-between">
+                  <label htmlFor="password" className="text-sm font-medium text-gray-700">
+                    Password
+                  </label>
+                  <Link href="/forgot-password" className="text-sm text-blue-600 hover:underline">
+                    Forgot password?
+                  </Link>
+                </div>
                 <Input
                   id="password"
                   type="password"
@@ -84,6 +103,12 @@ const Login = () => {
               <Button type="submit" className="w-full">
                 Login
               </Button>
+              <p className="text-center text-sm text-gray-600">
+                No account yet?{' '}
+                <Link href="/register" className="font-medium text-blue-600 hover:underline">
+                  Create account
+                </Link>
+              </p>
             </form>
           </CardContent>
         </Card>
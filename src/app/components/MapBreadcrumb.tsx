@@ -0,0 +1,33 @@
+// app/components/MapBreadcrumb.tsx
+"use client"
+import React, { Fragment } from "react";
+import { selectMap } from "../store/gameStore";
+import { useGameStore } from "../store/GameStoreContext";
+import { Button } from "@/components/ui/button";
+
+interface MapBreadcrumbProps {
+  // Return to the map of `level` above the current one
+  onAscend: (level: number) => void;
+}
+
+// The maps descended through from the top level, each with the tile that was entered.
+// Clicking one goes straight back up to it.
+const MapBreadcrumb: React.FC<MapBreadcrumbProps> = ({ onAscend }) => {
+  const map = useGameStore(selectMap);
+
+  return (
+    <nav className="absolute top-4 left-4 flex items-center gap-1 rounded bg-white/75 px-2 py-1 text-sm ui-element">
+      {map.path.map(({ level, q, r }) => (
+        <Fragment key={level}>
+          <Button variant="ghost" size="sm" title={`Back to level ${level}`} onClick={() => onAscend(level)}>
+            Level {level} ({q}, {r})
+          </Button>
+          <span aria-hidden>›</span>
+        </Fragment>
+      ))}
+      <span className="px-3 font-semibold">Level {map.level}</span>
+    </nav>
+  );
+};
+
+export default MapBreadcrumb;
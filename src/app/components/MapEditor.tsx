@@ -0,0 +1,289 @@
+// app/components/MapEditor.tsx
+"use client"
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { BUILDINGS, BUILDING_TYPES, RESOURCES, RESOURCE_TYPES, TERRAINS, TERRAIN_TYPES } from "../data/content";
+import { gameActions, selectEditor, selectPlayers } from "../store/gameStore";
+import { useGameDispatch, useGameStore, useGameStoreApi } from "../store/GameStoreContext";
+import { useApiClient } from "../utils/api";
+import { EDITOR_BRUSHES, EditorPaint } from "../utils/mapEditor";
+import { saveCurrentMap } from "../utils/mapSave";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface MapEditorProps {
+  // Radius of the map on screen, saved along with it
+  mapRadius: number;
+  // Saved map being edited, whose edits the saved copy keeps
+  savedMapId?: string;
+}
+
+type PaintType = EditorPaint["type"];
+
+const PAINT_TYPES: { type: PaintType; label: string }[] = [
+  { type: "terrain", label: "Terrain" },
+  { type: "owner", label: "Owner" },
+  { type: "building", label: "Building" },
+  { type: "resource", label: "Deposit" },
+];
+
+const DEFAULT_DEPOSIT_AMOUNT = 50;
+
+// Buttons of the option that is in use are filled
+const optionClass = (selected: boolean) =>
+  `border hover:bg-white hover:text-black ${selected ? "bg-white text-black" : ""}`;
+
+// Editor mode: clicks paint the map with the chosen brush instead of playing. Edits can be
+// undone (Ctrl+Z) and redone (Ctrl+Shift+Z or Ctrl+Y) until the map changes, and are saved
+// as a new map through the map save endpoint.
+const MapEditor: React.FC<MapEditorProps> = ({ mapRadius, savedMapId }) => {
+  const editor = useGameStore(selectEditor);
+  const players = useGameStore(selectPlayers);
+  const localPlayerId = useGameStore((state) => state.localPlayerId);
+  const store = useGameStoreApi();
+  const dispatch = useGameDispatch();
+  const apiClient = useApiClient();
+  const [saveName, setSaveName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [depositAmount, setDepositAmount] = useState(DEFAULT_DEPOSIT_AMOUNT);
+
+  const setPaint = (paint: EditorPaint) => dispatch(gameActions.setEditorTool({ paint }));
+
+  const choosePaintType = (type: PaintType) => {
+    if (type === editor.paint.type) return;
+    switch (type) {
+      case "terrain":
+        return setPaint({ type, terrain: TERRAIN_TYPES[0] });
+      case "owner":
+        return setPaint({ type, ownerId: localPlayerId });
+      case "building":
+        return setPaint({ type, building: BUILDING_TYPES[0] });
+      case "resource":
+        return setPaint({ type, resource: { type: RESOURCE_TYPES[0], amount: depositAmount } });
+    }
+  };
+
+  useEffect(() => {
+    if (!editor.enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = event.key.toLowerCase();
+      if (event.key === "Escape") {
+        // Drops the start of a line
+        dispatch(gameActions.setEditorTool({}));
+      } else if ((event.ctrlKey || event.metaKey) && (key === "y" || (key === "z" && event.shiftKey))) {
+        event.preventDefault();
+        dispatch(gameActions.redoEdit());
+      } else if ((event.ctrlKey || event.metaKey) && key === "z") {
+        event.preventDefault();
+        dispatch(gameActions.undoEdit());
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [editor.enabled, dispatch]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setSavedId(null);
+    setError(null);
+    try {
+      const { map_id } = await saveCurrentMap(apiClient, store.getState(), { name: saveName, mapRadius, savedMapId });
+      setSavedId(String(map_id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editor.enabled) {
+    return (
+      <Button
+        variant="outline"
+        className="absolute top-28 right-4 text-white hover:text-black ui-element"
+        onClick={() => dispatch(gameActions.toggleEditor(true))}
+      >
+        Edit map
+      </Button>
+    );
+  }
+
+  return (
+    <div
+      className="absolute left-4 top-1/2 -translate-y-1/2 grid w-72 gap-3 rounded bg-white/75 p-4 text-sm ui-element"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold">Map Editor</h2>
+        <Button size="sm" variant="outline" onClick={() => dispatch(gameActions.toggleEditor(false))}>
+          Done
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {EDITOR_BRUSHES.map(({ brush, label }) => (
+          <Button
+            key={brush}
+            size="sm"
+            className={optionClass(editor.brush === brush)}
+            onClick={() => dispatch(gameActions.setEditorTool({ brush }))}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+      {editor.brush === "radius" && (
+        <label className="flex items-center gap-2">
+          Radius
+          <Input
+            type="number"
+            min={1}
+            max={10}
+            value={editor.radius}
+            onChange={(e) => dispatch(gameActions.setEditorTool({ radius: Math.max(1, Math.min(10, Number(e.target.value) || 1)) }))}
+            onKeyDown={(e) => e.stopPropagation()}
+          />
+        </label>
+      )}
+      {editor.brush === "line" && (
+        <p>{editor.lineStart ? "Click where the line ends, Esc to start over." : "Click where the line starts."}</p>
+      )}
+
+      <div className="grid grid-cols-4 gap-1">
+        {PAINT_TYPES.map(({ type, label }) => (
+          <Button key={type} size="sm" className={optionClass(editor.paint.type === type)} onClick={() => choosePaintType(type)}>
+            {label}
+          </Button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-1">
+        {editor.paint.type === "terrain" &&
+          TERRAIN_TYPES.map((terrain) => (
+            <Button
+              key={terrain}
+              size="sm"
+              className={optionClass(editor.paint.type === "terrain" && editor.paint.terrain === terrain)}
+              onClick={() => setPaint({ type: "terrain", terrain })}
+            >
+              <span className="mr-2 h-3 w-3 rounded-full" style={{ backgroundColor: TERRAINS[terrain].color }} />
+              {TERRAINS[terrain].label}
+            </Button>
+          ))}
+        {editor.paint.type === "owner" && (
+          <>
+            <Button
+              size="sm"
+              className={optionClass(editor.paint.ownerId === null)}
+              onClick={() => setPaint({ type: "owner", ownerId: null })}
+            >
+              No owner
+            </Button>
+            {players.map((player) => (
+              <Button
+                key={player.id}
+                size="sm"
+                className={optionClass(editor.paint.type === "owner" && editor.paint.ownerId === player.id)}
+                onClick={() => setPaint({ type: "owner", ownerId: player.id })}
+              >
+                <span className="mr-2 h-3 w-3 rounded-full" style={{ backgroundColor: player.color }} />
+                {player.name}
+              </Button>
+            ))}
+          </>
+        )}
+        {editor.paint.type === "building" && (
+          <>
+            <Button
+              size="sm"
+              className={optionClass(editor.paint.building === null)}
+              onClick={() => setPaint({ type: "building", building: null })}
+            >
+              No building
+            </Button>
+            {BUILDING_TYPES.map((building) => (
+              <Button
+                key={building}
+                size="sm"
+                className={optionClass(editor.paint.type === "building" && editor.paint.building === building)}
+                onClick={() => setPaint({ type: "building", building })}
+              >
+                {BUILDINGS[building].label}
+              </Button>
+            ))}
+          </>
+        )}
+        {editor.paint.type === "resource" && (
+          <>
+            {RESOURCE_TYPES.map((type) => (
+              <Button
+                key={type}
+                size="sm"
+                className={optionClass(editor.paint.type === "resource" && editor.paint.resource?.type === type)}
+                onClick={() => setPaint({ type: "resource", resource: { type, amount: depositAmount } })}
+              >
+                <span className="mr-2 h-3 w-3 rounded-full" style={{ backgroundColor: RESOURCES[type].color }} />
+                {RESOURCES[type].label}
+              </Button>
+            ))}
+            <Button
+              size="sm"
+              className={optionClass(editor.paint.resource === null)}
+              onClick={() => setPaint({ type: "resource", resource: null })}
+            >
+              Clear deposits
+            </Button>
+            <label className="col-span-2 flex items-center gap-2">
+              Amount
+              <Input
+                type="number"
+                min={1}
+                value={depositAmount}
+                onChange={(e) => {
+                  const amount = Math.max(1, Math.floor(Number(e.target.value) || 1));
+                  setDepositAmount(amount);
+                  if (editor.paint.type === "resource" && editor.paint.resource) {
+                    setPaint({ type: "resource", resource: { ...editor.paint.resource, amount } });
+                  }
+                }}
+                onKeyDown={(e) => e.stopPropagation()}
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        <Button size="sm" variant="outline" disabled={editor.undo.length === 0} onClick={() => dispatch(gameActions.undoEdit())}>
+          Undo
+        </Button>
+        <Button size="sm" variant="outline" disabled={editor.redo.length === 0} onClick={() => dispatch(gameActions.redoEdit())}>
+          Redo
+        </Button>
+      </div>
+
+      <form onSubmit={handleSave} className="flex gap-2">
+        <Input
+          placeholder="Map name"
+          value={saveName}
+          onChange={(e) => setSaveName(e.target.value)}
+          onKeyDown={(e) => e.stopPropagation()}
+        />
+        <Button type="submit" disabled={saving}>
+          Save
+        </Button>
+      </form>
+      {savedId && (
+        <p>
+          Saved. <Link href={`/map/${encodeURIComponent(savedId)}`} className="underline">Open the saved map</Link>
+        </p>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default MapEditor;
@@ -0,0 +1,87 @@
+// app/components/MapFileMenu.tsx
+"use client"
+import React, { useState } from "react";
+import { MapFile, readMapFile, writeMapFileBinary, writeMapFileJson } from "../utils/mapFile";
+import { getMapKey } from "../utils/mapHierarchy";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface MapFileMenuProps {
+  onExport: () => MapFile;
+  // Throws when the file does not fit the map on screen
+  onImport: (file: MapFile) => void;
+}
+
+const download = (data: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Exports the game to a map file, as JSON or as the compact binary format, and imports one
+// back; see utils/mapFile.ts for both formats
+const MapFileMenu: React.FC<MapFileMenuProps> = ({ onExport, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: "json" | "binary") => {
+    const file = onExport();
+    const name = `map-${getMapKey(file.location).replace(/[^\w-]+/g, "_")}`;
+    if (format === "json") {
+      download(writeMapFileJson(file), "application/json", `${name}.json`);
+    } else {
+      download(writeMapFileBinary(file), "application/octet-stream", `${name}.hexmap`);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+
+    setError(null);
+    try {
+      onImport(readMapFile(new Uint8Array(await selected.arrayBuffer())));
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "This file could not be imported.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { setOpen(isOpen); setError(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="absolute top-16 right-4 text-white hover:text-black ui-element">
+          Import / Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px] bg-white/75 ui-element" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>Map File</DialogTitle>
+          <DialogDescription>
+            Save the tiles, players and explored maps to a file, or continue from one.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Button onClick={() => handleExport("json")}>Export JSON</Button>
+            <Button onClick={() => handleExport("binary")} title="Much smaller for large maps">
+              Export binary
+            </Button>
+          </div>
+          <label className="grid gap-2 text-sm">
+            Import a .json or .hexmap file
+            <Input type="file" accept=".json,.hexmap,application/json" onChange={handleImport} />
+          </label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MapFileMenu;
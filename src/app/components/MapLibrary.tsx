@@ -0,0 +1,169 @@
+// app/components/MapLibrary.tsx
+"use client"
+import React, { useCallback, useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { useAuth } from "../auth/AuthContext";
+import { useGameStoreApi } from "../store/GameStoreContext";
+import { SavedMap } from "../types/gameTypes";
+import { useApiClient } from "../utils/api";
+import { saveCurrentMap } from "../utils/mapSave";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface MapLibraryProps {
+  // Radius of the map on screen, saved along with it
+  mapRadius: number;
+  // Saved map on screen, whose world and edits a new save keeps
+  savedMapId?: string;
+}
+
+const getErrorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : "An unexpected error occurred. Please try again.";
+
+// Saves the map on screen and lists every saved map, to open, rename or delete.
+// Maps can only be renamed or deleted by whoever saved them.
+const MapLibrary: React.FC<MapLibraryProps> = ({ mapRadius, savedMapId }) => {
+  const apiClient = useApiClient();
+  const { user } = useAuth();
+  const store = useGameStoreApi();
+  const router = useRouter();
+  const [maps, setMaps] = useState<SavedMap[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saveName, setSaveName] = useState("");
+  // Map being renamed and the name typed so far
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const loadMaps = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setMaps(await apiClient.listMaps());
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [apiClient]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) loadMaps();
+    else setRenaming(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await saveCurrentMap(apiClient, store.getState(), { name: saveName, mapRadius, savedMapId });
+      setSaveName("");
+      await loadMaps();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming) return;
+    setError(null);
+    try {
+      const renamed = await apiClient.renameMap(renaming.id, renaming.name.trim());
+      setMaps((current) => current?.map((map) => (map.id === renamed.id ? renamed : map)) ?? null);
+      setRenaming(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleDelete = async (map: SavedMap) => {
+    if (!window.confirm(`Delete "${map.name}"?`)) return;
+    setError(null);
+    try {
+      await apiClient.deleteMap(map.id);
+      setMaps((current) => current?.filter(({ id }) => id !== map.id) ?? null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="text-white hover:text-black">
+          Maps
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px] bg-white/75" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>Map Library</DialogTitle>
+          <DialogDescription>Save the map you are on, or open one saved before.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="flex gap-2">
+          <Input
+            placeholder="Map name"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            onKeyDown={(e) => e.stopPropagation()}
+          />
+          <Button type="submit">Save current map</Button>
+        </form>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="grid max-h-[60vh] gap-2 overflow-y-auto py-2">
+          {loading && !maps && <p className="text-sm">Loading maps...</p>}
+          {maps?.length === 0 && <p className="text-sm">No saved maps yet.</p>}
+          {maps?.map((map) => {
+            const ownMap = map.ownerName === user?.username;
+            return (
+              <div key={map.id} className="flex items-center gap-3 rounded border bg-white/50 p-2">
+                {map.thumbnail ? (
+                  <Image src={map.thumbnail} alt="" width={64} height={64} unoptimized className="rounded" />
+                ) : (
+                  <div className="h-16 w-16 rounded bg-slate-800" />
+                )}
+                <div className="min-w-0 flex-1 text-sm">
+                  {renaming?.id === map.id ? (
+                    <form onSubmit={handleRename} className="flex gap-2">
+                      <Input
+                        autoFocus
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ id: map.id, name: e.target.value })}
+                        onKeyDown={(e) => e.stopPropagation()}
+                      />
+                      <Button type="submit" size="sm">Save</Button>
+                    </form>
+                  ) : (
+                    <p className="truncate font-semibold">{map.name}</p>
+                  )}
+                  <p>
+                    Level {map.location.level} · radius {map.size} · by {map.ownerName}
+                  </p>
+                  <p className="text-xs">{new Date(map.createdAt).toLocaleString()}</p>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <Button size="sm" onClick={() => router.push(`/map/${encodeURIComponent(map.id)}`)}>
+                    Open
+                  </Button>
+                  {ownMap && (
+                    <Button size="sm" variant="outline" onClick={() => setRenaming({ id: map.id, name: map.name })}>
+                      Rename
+                    </Button>
+                  )}
+                  {ownMap && (
+                    <Button size="sm" variant="destructive" onClick={() => handleDelete(map)}>
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MapLibrary;
@@ -7,32 +7,66 @@ import React, {
   useRef,
 } from "react";
 import * as THREE from "three";
-import { HexagonTile } from "./HexagonTile";
-import { Player } from "./Player";
+import { ChunkedTerrain } from "./ChunkedTerrain";
+import { getTileSurfaceHeight } from "./TerrainInstances";
+import { TileData } from "../types/gameTypes";
+import { BUILDINGS, BUILDING_TYPES, BuildingType, TERRAINS } from "../data/content";
+import { Axial, hexEquals } from "../utils/hex";
+import { BOTTOM_MAP_LEVEL, TOP_MAP_LEVEL } from "../utils/mapHierarchy";
+import {
+  gameActions,
+  selectBuildMode,
+  selectClaimError,
+  selectEditor,
+  selectFocusedTile,
+  selectLocalPlayer,
+  selectLocalPosition,
+  selectMovePlan,
+  selectPlacementError,
+  selectShowMovementRange,
+  selectTurnError,
+  selectVisibility,
+} from "../store/gameStore";
+import { useGameDispatch, useGameStore, useGameStoreApi } from "../store/GameStoreContext";
+import { pickHex } from "../utils/picking";
+import { getPlacementError } from "../utils/buildings";
+import { formatResourceAmounts } from "../utils/resources";
 import gsap from "gsap";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import AccountMenu from "./AccountMenu";
+import BuildMenu from "./BuildMenu";
+import MapBreadcrumb from "./MapBreadcrumb";
+import MapLibrary from "./MapLibrary";
 
 interface MapRendererProps {
-  tiles: HexagonTile[];
+  terrain: ChunkedTerrain | null;
   camera: THREE.PerspectiveCamera | null;
   cameraPosition: MutableRefObject<THREE.Vector3> | null;
   renderer: THREE.WebGLRenderer | null;
+  tileSize: number;
+  tileHeight: number;
+  // Map radius
+  mapRadius: number;
+  // Saved map on screen, if any
+  savedMapId?: string;
   mapLevel: number;
-  player: Player | null;
-  onMovePlayer: (q: number, r: number) => void;
-  onDescend: (newMapData: { q: number; r: number; mapLevel: number; parentTile?: { q: number; r: number } }) => void;
-  onAscend: (newMapData: { mapLevel: number; parentTile?: { q: number; r: number } }) => void;
+  onMovePlayer: (q: number, r: number, path: Axial[]) => void;
+  onDescend: (tile: Axial) => void;
+  onAscend: (level: number) => void;
 }
 
 const MapRenderer: React.FC<MapRendererProps> = ({
-  tiles,
+  terrain,
   camera,
   cameraPosition,
   renderer,
+  tileSize,
+  tileHeight,
+  mapRadius,
+  savedMapId,
   mapLevel,
-  player,
   onMovePlayer,
   onDescend,
   onAscend
@@ -41,8 +75,46 @@ const MapRenderer: React.FC<MapRendererProps> = ({
   const dragStartPosition = useRef(new THREE.Vector2());
   const [infoBarOpen, setInfoBarOpen] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [focusedTile, setFocusedTile] = useState<HexagonTile | null>(null);
+  // Placement waiting for confirmation in build mode
+  const [pendingBuild, setPendingBuild] = useState<{ q: number; r: number; building: BuildingType } | null>(null);
   const [quality, setQuality] = useState<"low" | "medium" | "high">("high");
+  const focusedTile = useGameStore(selectFocusedTile);
+  const playerPosition = useGameStore(selectLocalPosition);
+  const showMovementRange = useGameStore(selectShowMovementRange);
+  const buildMode = useGameStore(selectBuildMode);
+  const editorEnabled = useGameStore((state) => selectEditor(state).enabled);
+  const localPlayer = useGameStore(selectLocalPlayer);
+  const focusedVisibility = useGameStore((state) => (focusedTile ? selectVisibility(state)(focusedTile.q, focusedTile.r) : null));
+  const focusedOwner = useGameStore((state) => (focusedTile?.ownerId ? state.players[focusedTile.ownerId] : undefined));
+  const buildTurnError = useGameStore((state) => selectTurnError(state, "build"));
+  const claimError = useGameStore((state) => (focusedTile ? selectClaimError(state, focusedTile) : undefined));
+  const store = useGameStoreApi();
+  const dispatch = useGameDispatch();
+
+  const pickTile = useCallback(
+    (event: MouseEvent): TileData | null => {
+      if (!camera || !renderer || !terrain) return null;
+
+      const hex = pickHex(
+        event.clientX,
+        event.clientY,
+        camera,
+        renderer.domElement,
+        getTileSurfaceHeight(tileSize, tileHeight),
+        tileSize
+      );
+      return hex ? terrain.getTile(hex.q, hex.r) : null;
+    },
+    [camera, renderer, tileSize, tileHeight, terrain]
+  );
+
+  const setHoveredTile = useCallback((tile: TileData | null) => {
+    dispatch(gameActions.hoverTile(tile));
+  }, [dispatch]);
+
+  const setFocusedTile = useCallback((tile: TileData | null) => {
+    dispatch(gameActions.focusTile(tile));
+  }, [dispatch]);
 
 
   const handleMouseDown = useCallback((event: MouseEvent) => {
@@ -51,27 +123,31 @@ const MapRenderer: React.FC<MapRendererProps> = ({
   }, []);
 
   const handleMouseMove = useCallback((event: MouseEvent) => {
+    // No button held: the pointer is just hovering over the map
+    if (event.buttons === 0) {
+      const overUI = (event.target as HTMLElement).closest('.ui-element');
+      setHoveredTile(overUI ? null : pickTile(event));
+      return;
+    }
+
     if (
       Math.abs(event.clientX - dragStartPosition.current.x) > 5 ||
       Math.abs(event.clientY - dragStartPosition.current.y) > 5
     ) {
       setIsDragging(true);
+      setHoveredTile(null);
     }
-  }, []);
+  }, [pickTile, setHoveredTile]);
 
   const focusOnTile = useCallback(
-    (tile: HexagonTile) => {
-      if (focusedTile) {
-        focusedTile.removeFocusBorder();
-      }
-  
-      tile.addFocusBorder();
+    (tile: TileData) => {
+      if (!terrain) return;
+
       setFocusedTile(tile);
       setInfoBarOpen(true);
   
       if (camera && cameraPosition) {
-        const targetPosition = new THREE.Vector3();
-        tile.getWorldPosition(targetPosition);
+        const targetPosition = terrain.getTileWorldPosition(tile.q, tile.r);
         gsap.to(cameraPosition.current, {
           duration: 1,
           x: targetPosition.x,
@@ -85,125 +161,98 @@ const MapRenderer: React.FC<MapRendererProps> = ({
               cameraPosition.current.z - camera.position.y // Changed from + to -
             );
           },
+          onComplete: () => {
+            dispatch(gameActions.cameraMoved({ ...cameraPosition.current }));
+          },
         });
       }
     },
-    [focusedTile, setInfoBarOpen, camera, cameraPosition]
+    [terrain, setFocusedTile, setInfoBarOpen, camera, cameraPosition, dispatch]
   );
 
-  const moveToTile = useCallback((tile: HexagonTile) => {
-    
-    if (player) {
-      const playerCoords = player.getCoordinates();
-      const distance = Math.max(
-        Math.abs(tile.q - playerCoords.q),
-        Math.abs(tile.r - playerCoords.r),
-        Math.abs(tile.q + tile.r - playerCoords.q - playerCoords.r)
-      );
+  const moveToTile = useCallback((tile: TileData) => {
+    const state = store.getState();
+    const turnError = selectTurnError(state, "move");
+    const plan = selectMovePlan(state, tile);
 
-      if (distance < 4) {
-        onMovePlayer(tile.q, tile.r);
-      } else {
-        console.log("Can't move there - too far!");
-      }
+    if (turnError) {
+      console.log(`Can't move - ${turnError}`);
+    } else if (!plan) {
+      console.log("Can't move there - no path!");
+    } else if (!plan.withinBudget) {
+      console.log("Can't move there - too far!");
+    } else if (plan.path.length > 1) {
+      onMovePlayer(tile.q, tile.r, plan.path);
     }
-  }, [player, onMovePlayer]);
-
-  const findNearestTile = (point: THREE.Vector3, tiles?: HexagonTile[]): HexagonTile | null => {
-    if (!tiles || tiles.length === 0) return null;
-  
-    let nearestTile: HexagonTile | null = null;
-    let minDistance = Infinity;
-  
-    tiles.forEach(tile => {
-      const distance = point.distanceTo(tile.position);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearestTile = tile;
-      }
-    });
-  
-    return nearestTile;
-  };
+  }, [store, onMovePlayer]);
 
   const handleClick = useCallback(
     (event: MouseEvent) => {
 
       if ((event.target as HTMLElement).closest('.ui-element')) return;
-      if (isDragging || !camera || !tiles || tiles.length === 0) return;
-  
-      const mouse = new THREE.Vector2();
-      mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
-      mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
-  
-      const raycaster = new THREE.Raycaster();
-      raycaster.setFromCamera(mouse, camera);
+      if (isDragging || !camera || !terrain) return;
   
-      const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
-      const intersectionPoint = new THREE.Vector3();
-      raycaster.ray.intersectPlane(plane, intersectionPoint);
-  
-      const clickedTile = findNearestTile(intersectionPoint, tiles);
+      const clickedTile = pickTile(event);
+
+      // In the editor a click paints, whatever the game rules say
+      if (editorEnabled) {
+        if (clickedTile) dispatch(gameActions.paintTiles(clickedTile));
+        return;
+      }
+
+      // In build mode a click only picks where to build
+      if (buildMode) {
+        if (!clickedTile) return;
+        const placementError = selectPlacementError(store.getState(), clickedTile, buildMode);
+        if (placementError) {
+          console.log(`Can't build there - ${placementError}`);
+        } else {
+          setPendingBuild({ q: clickedTile.q, r: clickedTile.r, building: buildMode });
+        }
+        return;
+      }
   
       if (clickedTile) {
         moveToTile(clickedTile);
         focusOnTile(clickedTile);        
-        if(clickedTile == focusedTile){
+        if(focusedTile && hexEquals(clickedTile, focusedTile)){
           setDialogOpen(true);
         }
       } else {
         if (focusedTile) {
-          focusedTile.reset();
           setFocusedTile(null);
           setInfoBarOpen(false);
           setDialogOpen(false);
         }
       }
     },
-    [tiles, camera, isDragging, focusOnTile, focusedTile, setFocusedTile, setInfoBarOpen, setDialogOpen, moveToTile]
+    [terrain, camera, isDragging, pickTile, focusOnTile, focusedTile, setFocusedTile, setInfoBarOpen, setDialogOpen, moveToTile, buildMode, store, editorEnabled, dispatch]
   );
 
   const handleDescend = useCallback(() => {
     console.log("Descend Pressed");
     
-    if (focusedTile && mapLevel > 1) {
-      const selectedTile = tiles.find(tile => tile.q === focusedTile.q && tile.r === focusedTile.r);
+    if (focusedTile && mapLevel > BOTTOM_MAP_LEVEL) {
+      const selectedTile = terrain?.getTile(focusedTile.q, focusedTile.r);
       
       if (selectedTile) {
         console.log("Selected Tile Recognized");
-        const newMapLevel = Math.max(selectedTile.mapLevel - 1, 1);
-        const newMapData = {
-          q: 0,
-          r: 0,
-          mapLevel: newMapLevel,
-          parentTile: { q: selectedTile.q, r: selectedTile.r }
-        };
-        onDescend(newMapData);
-        //setCurrentMapLevel(newMapLevel);
+        onDescend(selectedTile);
       }
     }
     setFocusedTile(null);
     setInfoBarOpen(false);
-  }, [focusedTile, tiles, onDescend, mapLevel]);
+  }, [focusedTile, terrain, onDescend, mapLevel, setFocusedTile]);
 
+  // Always back to the map this one was entered from, whichever tile is focused
   const handleAscend = useCallback(() => {
     console.log("Ascend Pressed");
     
-    if (focusedTile && mapLevel < 4) {  // Check if we're not at the maximum level
-      const selectedTile = tiles.find(tile => tile.q === focusedTile.q && tile.r === focusedTile.r);
-      
-      if (selectedTile) {
-        console.log("Selected Tile Recognized");
-        const newMapLevel = Math.min(mapLevel + 1, 4);  // Increase level, but cap at 4
-        const newMapData = {
-          mapLevel: newMapLevel,
-          parentTile: { q: selectedTile.q, r: selectedTile.r }
-        };
-        onAscend(newMapData);
-      }
+    if (mapLevel < TOP_MAP_LEVEL) {
+      onAscend(mapLevel + 1);
     }
     setInfoBarOpen(false);
-  }, [focusedTile, tiles, onAscend, mapLevel]);
+  }, [onAscend, mapLevel]);
 
   const setGraphicsQuality = (newQuality: "low" | "medium" | "high") => {
     if (!renderer) return;
@@ -229,7 +278,7 @@ const MapRenderer: React.FC<MapRendererProps> = ({
   };
 
   useEffect(() => {
-    if (!tiles || tiles.length === 0) return;
+    if (!terrain) return;
   
     window.addEventListener('mousedown', handleMouseDown);
     window.addEventListener('mousemove', handleMouseMove);
@@ -239,11 +288,16 @@ const MapRenderer: React.FC<MapRendererProps> = ({
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('click', handleClick);
     };
-  }, [handleMouseDown, handleMouseMove, handleClick, tiles]);
+  }, [handleMouseDown, handleMouseMove, handleClick, terrain]);
+
+  useEffect(() => {
+    // Terrain is replaced wholesale on level changes; drop a stale hover
+    return () => setHoveredTile(null);
+  }, [terrain, setHoveredTile]);
 
   return <>
   <div className="absolute top-4 right-4 ui-element" onClick={(e) => e.stopPropagation()}>  
-  <p>Player position: Q:{player?.getCoordinates().q}, R:{player?.getCoordinates().r}</p>     
+  <p>Player position: Q:{playerPosition.q}, R:{playerPosition.r}</p>     
         <Dialog>
           <DialogTrigger asChild>
             <Button variant="outline" className="text-white hover:text-black">
@@ -282,6 +336,15 @@ const MapRenderer: React.FC<MapRendererProps> = ({
             </div>
           </DialogContent>
         </Dialog>
+        <Button
+          variant="outline"
+          className="text-white hover:text-black"
+          onClick={() => dispatch(gameActions.toggleMovementRange(!showMovementRange))}
+        >
+          {showMovementRange ? "Hide range" : "Show range"}
+        </Button>
+        <MapLibrary mapRadius={mapRadius} savedMapId={savedMapId} />
+        <AccountMenu />
       </div>
       <div className="ui-element">
       <Sheet open={infoBarOpen} onOpenChange={setInfoBarOpen}>
@@ -294,16 +357,25 @@ const MapRenderer: React.FC<MapRendererProps> = ({
                 <>
                   <p>
                     Position: ({focusedTile?.q}, {focusedTile?.r})
-                    Level: {focusedTile?.mapLevel}
+                    Level: {mapLevel}
                   </p>
+                  {focusedVisibility === "unexplored" ? (
+                    <p>Unexplored</p>
+                  ) : (
+                    <>
+                      <p>Terrain: {TERRAINS[focusedTile.terrain].label}</p>
+                      {focusedTile.building && <p>Building: {BUILDINGS[focusedTile.building].label}</p>}
+                      {focusedTile.ownerId && <p>Owner: {focusedOwner?.name ?? "Unknown"}</p>}
+                    </>
+                  )}
 
                   {/* Add more tile information here */}
                 </>
               )}
 
               
-              {mapLevel < 4 && <Button className="bg-blue-400" onClick={handleAscend}>Ascend</Button>}
-              {mapLevel > 1 && <Button className="bg-red-400" onClick={handleDescend}>Descend</Button>}
+              {mapLevel < TOP_MAP_LEVEL && <Button className="bg-blue-400" onClick={handleAscend}>Ascend</Button>}
+              {mapLevel > BOTTOM_MAP_LEVEL && <Button className="bg-red-400" onClick={handleDescend}>Descend</Button>}
             </SheetDescription>
           </SheetHeader>
         </SheetContent>
@@ -317,13 +389,71 @@ const MapRenderer: React.FC<MapRendererProps> = ({
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
-            <Button onClick={() => console.log("Action 1")}>Action 1</Button>
-            <Button onClick={() => console.log("Action 2")}>Action 2</Button>
-            <Button onClick={() => console.log("Action 3")}>Action 3</Button>
+            {focusedTile && (
+              <Button
+                className="h-auto flex-col items-start"
+                disabled={!!claimError}
+                title={claimError}
+                onClick={() => {
+                  dispatch(gameActions.claimTile(focusedTile.q, focusedTile.r));
+                  setDialogOpen(false);
+                }}
+              >
+                <span>Claim tile</span>
+                <span className="text-xs">{formatResourceAmounts(TERRAINS[focusedTile.terrain].claimCost ?? {})}</span>
+              </Button>
+            )}
+            {focusedTile && BUILDING_TYPES.map((building) => {
+              const placementError = buildTurnError ?? getPlacementError(focusedTile, building, localPlayer);
+              return (
+                <Button
+                  key={building}
+                  className="h-auto flex-col items-start"
+                  disabled={!!placementError}
+                  title={placementError}
+                  onClick={() => {
+                    dispatch(gameActions.placeBuilding(focusedTile.q, focusedTile.r, building));
+                    setDialogOpen(false);
+                  }}
+                >
+                  <span>Build {BUILDINGS[building].label}</span>
+                  <span className="text-xs">{formatResourceAmounts(BUILDINGS[building].cost)}</span>
+                </Button>
+              );
+            })}
           </div>
         </DialogContent>
       </Dialog>
+      <Dialog open={!!pendingBuild} onOpenChange={(open) => !open && setPendingBuild(null)}>
+        <DialogContent className="bg-white/75 ui-element">
+          {pendingBuild && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Build {BUILDINGS[pendingBuild.building].label}?</DialogTitle>
+                <DialogDescription>
+                  At ({pendingBuild.q}, {pendingBuild.r}) for {formatResourceAmounts(BUILDINGS[pendingBuild.building].cost)}.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid grid-cols-2 gap-4 py-4">
+                <Button variant="outline" onClick={() => setPendingBuild(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => {
+                    dispatch(gameActions.placeBuilding(pendingBuild.q, pendingBuild.r, pendingBuild.building));
+                    setPendingBuild(null);
+                  }}
+                >
+                  Build
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
       </div>
+      <BuildMenu />
+      <MapBreadcrumb onAscend={onAscend} />
   </>;
 };
 
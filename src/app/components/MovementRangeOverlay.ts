@@ -0,0 +1,111 @@
+// app/components/MovementRangeOverlay.ts
+import * as THREE from 'three';
+import { Axial, axialToWorld, hexCorners, hexSharedEdge } from '../utils/hex';
+import { MovementRange } from '../utils/pathfinding';
+
+export interface MovementRangeOverlayProps {
+  size: number;
+  // Height the overlay floats at, just above the tile surface
+  height: number;
+}
+
+const REACHABLE_COLOR = 0x40c0ff;
+const UNREACHABLE_COLOR = 0x202020;
+const BLOCKED_COLOR = 0xff4040;
+const BOUNDARY_COLOR = 0x40c0ff;
+
+/**
+ * Tints the tiles around the player by whether a move can reach them and outlines the edge
+ * of the reachable area. The whole overlay is rebuilt on every setRange call, which only
+ * happens when the player moves or the loaded tiles change.
+ */
+export class MovementRangeOverlay extends THREE.Group {
+  private size: number;
+  private height: number;
+  private geometry: THREE.ShapeGeometry;
+  private reachableMaterial: THREE.MeshBasicMaterial;
+  private unreachableMaterial: THREE.MeshBasicMaterial;
+  private blockedMaterial: THREE.MeshBasicMaterial;
+  private boundaryMaterial: THREE.LineBasicMaterial;
+  private meshes: THREE.InstancedMesh[] = [];
+  private boundary: THREE.LineSegments | null = null;
+
+  constructor({ size, height }: MovementRangeOverlayProps) {
+    super();
+    this.size = size;
+    this.height = height;
+
+    // A little smaller than the tile so neighboring fills don't merge into one blob
+    const shape = new THREE.Shape();
+    hexCorners(size * 0.92).forEach(({ x, z }, i) => {
+      if (i === 0) shape.moveTo(x, z);
+      else shape.lineTo(x, z);
+    });
+    shape.closePath();
+    this.geometry = new THREE.ShapeGeometry(shape);
+    this.geometry.rotateX(-Math.PI / 2);
+
+    const fill = (color: THREE.ColorRepresentation, opacity: number) =>
+      new THREE.MeshBasicMaterial({ color, transparent: true, opacity, depthWrite: false, side: THREE.DoubleSide });
+    this.reachableMaterial = fill(REACHABLE_COLOR, 0.3);
+    this.unreachableMaterial = fill(UNREACHABLE_COLOR, 0.35);
+    this.blockedMaterial = fill(BLOCKED_COLOR, 0.3);
+    this.boundaryMaterial = new THREE.LineBasicMaterial({ color: BOUNDARY_COLOR });
+  }
+
+  setRange(range: MovementRange) {
+    this.clearRange();
+
+    this.addTiles(range.reachable, this.reachableMaterial);
+    this.addTiles(range.unreachable, this.unreachableMaterial);
+    this.addTiles(range.blocked, this.blockedMaterial);
+
+    const points: THREE.Vector3[] = [];
+    range.boundary.forEach(({ inside, outside }) => {
+      hexSharedEdge(inside, outside, this.size).forEach(({ x, z }) => points.push(new THREE.Vector3(x, this.height, z)));
+    });
+    if (points.length > 0) {
+      this.boundary = new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(points), this.boundaryMaterial);
+      this.add(this.boundary);
+    }
+  }
+
+  clearRange() {
+    this.meshes.forEach((mesh) => {
+      this.remove(mesh);
+      mesh.dispose();
+    });
+    this.meshes = [];
+
+    if (this.boundary) {
+      this.remove(this.boundary);
+      this.boundary.geometry.dispose();
+      this.boundary = null;
+    }
+  }
+
+  dispose() {
+    this.clearRange();
+    this.geometry.dispose();
+    this.reachableMaterial.dispose();
+    this.unreachableMaterial.dispose();
+    this.blockedMaterial.dispose();
+    this.boundaryMaterial.dispose();
+  }
+
+  private addTiles(tiles: Axial[], material: THREE.Material) {
+    if (tiles.length === 0) return;
+
+    const mesh = new THREE.InstancedMesh(this.geometry, material, tiles.length);
+    const matrix = new THREE.Matrix4();
+    tiles.forEach(({ q, r }, i) => {
+      const { x, z } = axialToWorld(q, r, this.size);
+      mesh.setMatrixAt(i, matrix.makeTranslation(x, this.height, z));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    // Instances spread well beyond the shared geometry's bounds
+    mesh.computeBoundingSphere();
+    this.meshes.push(mesh);
+    this.add(mesh);
+  }
+}
@@ -0,0 +1,78 @@
+// app/components/PathPreview.ts
+import * as THREE from 'three';
+import { Axial, axialToWorld, hexCorners } from '../utils/hex';
+
+export interface PathPreviewProps {
+  size: number;
+  // Height the markers float at, just above the tile surface
+  height: number;
+}
+
+// Small filled hexes marking each step of a planned move. Markers are pooled and share one geometry.
+export class PathPreview extends THREE.Group {
+  private size: number;
+  private height: number;
+  private geometry: THREE.ShapeGeometry;
+  private reachableMaterial: THREE.MeshBasicMaterial;
+  private tooFarMaterial: THREE.MeshBasicMaterial;
+  private markers: THREE.Mesh[] = [];
+
+  constructor({ size, height }: PathPreviewProps) {
+    super();
+    this.size = size;
+    this.height = height;
+
+    const shape = new THREE.Shape();
+    hexCorners(size * 0.35).forEach(({ x, z }, i) => {
+      if (i === 0) shape.moveTo(x, z);
+      else shape.lineTo(x, z);
+    });
+    shape.closePath();
+
+    this.geometry = new THREE.ShapeGeometry(shape);
+    this.reachableMaterial = new THREE.MeshBasicMaterial({
+      color: 0xffffff,
+      transparent: true,
+      opacity: 0.8,
+      side: THREE.DoubleSide,
+    });
+    this.tooFarMaterial = new THREE.MeshBasicMaterial({
+      color: 0xff4040,
+      transparent: true,
+      opacity: 0.8,
+      side: THREE.DoubleSide,
+    });
+    this.visible = false;
+  }
+
+  // `steps` are the tiles entered, in order; the player's own tile is left out
+  show(steps: Axial[], withinBudget: boolean) {
+    while (this.markers.length < steps.length) {
+      const marker = new THREE.Mesh(this.geometry, this.reachableMaterial);
+      marker.rotation.x = -Math.PI / 2;
+      this.markers.push(marker);
+      this.add(marker);
+    }
+
+    const material = withinBudget ? this.reachableMaterial : this.tooFarMaterial;
+    this.markers.forEach((marker, i) => {
+      const step = steps[i];
+      marker.visible = !!step;
+      if (!step) return;
+      const { x, z } = axialToWorld(step.q, step.r, this.size);
+      marker.position.set(x, this.height, z);
+      marker.material = material;
+    });
+    this.visible = steps.length > 0;
+  }
+
+  hide() {
+    this.visible = false;
+  }
+
+  dispose() {
+    this.geometry.dispose();
+    this.reachableMaterial.dispose();
+    this.tooFarMaterial.dispose();
+  }
+}
@@ -1,13 +1,13 @@
 // app/components/Player.ts
 import * as THREE from 'three';
 
-export class Player extends THREE.Mesh {
+export class Player extends THREE.Mesh<THREE.CylinderGeometry, THREE.MeshPhongMaterial> {
   private q: number;
   private r: number;
 
-  constructor(q: number, r: number, size: number) {
+  constructor(q: number, r: number, size: number, color: THREE.ColorRepresentation = 0xff0000) {
     const geometry = new THREE.CylinderGeometry(size * 0.3, size * 0.3, size * 0.8, 32);
-    const material = new THREE.MeshPhongMaterial({ color: 0xff0000 });
+    const material = new THREE.MeshPhongMaterial({ color });
     super(geometry, material);
 
     this.q = q;
@@ -26,4 +26,13 @@ export class Player extends THREE.Mesh {
   getCoordinates() {
     return { q: this.q, r: this.r };
   }
-}
\ No newline at end of file
+
+  setColor(color: THREE.ColorRepresentation) {
+    this.material.color.set(color);
+  }
+
+  dispose() {
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+}
@@ -0,0 +1,144 @@
+// components/Register.tsx
+
+"use client"
+import { useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '../auth/AuthContext';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getFieldErrors } from '../utils/apiClient';
+import {
+  FieldErrors,
+  collectErrors,
+  validateEmail,
+  validatePassword,
+  validatePasswordConfirmation,
+  validateUsername,
+} from '../auth/validation';
+import AuthFormField from './AuthFormField';
+
+type RegisterField = 'username' | 'email' | 'password' | 'confirmPassword';
+
+const Register = () => {
+  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<RegisterField>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { register } = useAuth();
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const errors = collectErrors<RegisterField>({
+      username: validateUsername(username),
+      email: validateEmail(email),
+      password: validatePassword(password),
+      confirmPassword: validatePasswordConfirmation(password, confirmPassword),
+    });
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await register(username, email, password);
+      router.replace('/');
+    } catch (err) {
+      // Field errors from the server go next to their inputs, anything else on top
+      const serverErrors = getFieldErrors(err);
+      const mapped = collectErrors<RegisterField>({
+        username: serverErrors.username,
+        email: serverErrors.email,
+        password: serverErrors.password,
+        confirmPassword: undefined,
+      });
+      setFieldErrors(mapped);
+      if (Object.keys(mapped).length === 0) {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-100 p-4 sm:p-6 md:p-8">
+      <div className="w-full max-w-md">
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold text-center">
+              Create account
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+              <AuthFormField
+                id="username"
+                label="Username"
+                value={username}
+                onChange={setUsername}
+                placeholder="Choose a username"
+                autoComplete="username"
+                error={fieldErrors.username}
+              />
+              <AuthFormField
+                id="email"
+                label="Email"
+                type="email"
+                value={email}
+                onChange={setEmail}
+                placeholder="Enter your email"
+                autoComplete="email"
+                error={fieldErrors.email}
+              />
+              <AuthFormField
+                id="password"
+                label="Password"
+                type="password"
+                value={password}
+                onChange={setPassword}
+                placeholder="Choose a password"
+                autoComplete="new-password"
+                error={fieldErrors.password}
+              />
+              <AuthFormField
+                id="confirmPassword"
+                label="Confirm password"
+                type="password"
+                value={confirmPassword}
+                onChange={setConfirmPassword}
+                placeholder="Repeat your password"
+                autoComplete="new-password"
+                error={fieldErrors.confirmPassword}
+              />
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? 'Creating account...' : 'Create account'}
+              </Button>
+              <p className="text-center text-sm text-gray-600">
+                Already have an account?{' '}
+                <Link href="/login" className="font-medium text-blue-600 hover:underline">
+                  Log in
+                </Link>
+              </p>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Register;
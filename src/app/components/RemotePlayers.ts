@@ -0,0 +1,77 @@
+// app/components/RemotePlayers.ts
+import * as THREE from 'three';
+import gsap from 'gsap';
+import { PlayerData } from '../types/gameTypes';
+import { hexKey } from '../utils/hex';
+import { ChunkedTerrain } from './ChunkedTerrain';
+import { Player } from './Player';
+
+interface RemotePlayer {
+  mesh: Player;
+  // Where the mesh is heading; its coordinates only change once the tween completes
+  targetKey: string;
+}
+
+/**
+ * One Player mesh per other player standing on the level being shown, in their own
+ * color. Call sync() whenever the realtime player list or the terrain changes.
+ */
+export class RemotePlayers extends THREE.Group {
+  private size: number;
+  private players = new Map<string, RemotePlayer>();
+
+  constructor(size: number) {
+    super();
+    this.size = size;
+  }
+
+  sync(players: PlayerData[], localPlayerId: string | null, terrain: ChunkedTerrain | null) {
+    const present = new Set<string>();
+
+    players.forEach((player) => {
+      const position = player.position;
+      if (!terrain || player.id === localPlayerId || !position || position.level !== terrain.map.level) return;
+
+      present.add(player.id);
+      const target = terrain.getTileWorldPosition(position.q, position.r);
+      const targetKey = hexKey(position.q, position.r);
+      const existing = this.players.get(player.id);
+
+      if (!existing) {
+        const mesh = new Player(position.q, position.r, this.size, player.color);
+        mesh.name = player.name;
+        mesh.moveTo(position.q, position.r, target);
+        this.add(mesh);
+        this.players.set(player.id, { mesh, targetKey });
+        return;
+      }
+
+      existing.mesh.setColor(player.color);
+      if (existing.targetKey === targetKey) return;
+
+      existing.targetKey = targetKey;
+      gsap.killTweensOf(existing.mesh.position);
+      gsap.to(existing.mesh.position, {
+        duration: 0.5,
+        x: target.x,
+        z: target.z,
+        onComplete: () => existing.mesh.moveTo(position.q, position.r, target),
+      });
+    });
+
+    this.players.forEach((remote, id) => {
+      if (!present.has(id)) this.removePlayer(id, remote);
+    });
+  }
+
+  dispose() {
+    this.players.forEach((remote, id) => this.removePlayer(id, remote));
+  }
+
+  private removePlayer(id: string, { mesh }: RemotePlayer) {
+    gsap.killTweensOf(mesh.position);
+    this.remove(mesh);
+    mesh.dispose();
+    this.players.delete(id);
+  }
+}
@@ -0,0 +1,143 @@
+// components/ResetPassword.tsx
+
+"use client"
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useAuth } from '../auth/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, Info } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getFieldErrors } from '../utils/apiClient';
+import { FieldErrors, collectErrors, validatePassword, validatePasswordConfirmation } from '../auth/validation';
+import AuthFormField from './AuthFormField';
+
+type ResetPasswordField = 'password' | 'confirmPassword';
+
+const ResetPassword = () => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<ResetPasswordField>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const { resetPassword } = useAuth();
+  // The reset link from the email carries the token
+  const token = useSearchParams().get('token');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    setError(null);
+
+    const errors = collectErrors<ResetPasswordField>({
+      password: validatePassword(password),
+      confirmPassword: validatePasswordConfirmation(password, confirmPassword),
+    });
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await resetPassword(token, password);
+      setIsDone(true);
+    } catch (err) {
+      const serverErrors = getFieldErrors(err);
+      setFieldErrors(collectErrors<ResetPasswordField>({ password: serverErrors.password, confirmPassword: undefined }));
+      if (serverErrors.token) {
+        setError(`${serverErrors.token} Request a new reset link.`);
+      } else if (!serverErrors.password) {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (!token) {
+      return (
+        <div className="space-y-4">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>This reset link is invalid. Request a new one.</AlertDescription>
+          </Alert>
+          <Button asChild className="w-full">
+            <Link href="/forgot-password">Request a new link</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    if (isDone) {
+      return (
+        <div className="space-y-4">
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>Your password has been reset. You can now log in with it.</AlertDescription>
+          </Alert>
+          <Button asChild className="w-full">
+            <Link href="/login">Go to login</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+        <AuthFormField
+          id="password"
+          label="New password"
+          type="password"
+          value={password}
+          onChange={setPassword}
+          placeholder="Choose a new password"
+          autoComplete="new-password"
+          error={fieldErrors.password}
+        />
+        <AuthFormField
+          id="confirmPassword"
+          label="Confirm new password"
+          type="password"
+          value={confirmPassword}
+          onChange={setConfirmPassword}
+          placeholder="Repeat your new password"
+          autoComplete="new-password"
+          error={fieldErrors.confirmPassword}
+        />
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {error}{' '}
+              <Link href="/forgot-password" className="font-medium underline">
+                Forgot password
+              </Link>
+            </AlertDescription>
+          </Alert>
+        )}
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Reset password'}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-100 p-4 sm:p-6 md:p-8">
+      <div className="w-full max-w-md">
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold text-center">
+              Reset password
+            </CardTitle>
+          </CardHeader>
+          <CardContent>{renderContent()}</CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,49 @@
+// app/components/ResourceBar.tsx
+"use client"
+import React from "react";
+import { RESOURCES, RESOURCE_TYPES } from "../data/content";
+import { selectIncome, selectLocalPlayer } from "../store/gameStore";
+import { useGameStore } from "../store/GameStoreContext";
+import { ResourceType } from "../types/gameTypes";
+import { IncomeReport } from "../utils/economy";
+import { getResourceAmount } from "../utils/resources";
+
+const formatDelta = (amount: number) => (amount > 0 ? `+${amount}` : `${amount}`);
+
+// Tooltip text, one line per income source
+const describeIncome = (type: ResourceType, income: IncomeReport | null) => {
+  const lines = income?.breakdown[type] ?? [];
+  if (lines.length === 0) return `${RESOURCES[type].label}: no income`;
+  return [
+    `${RESOURCES[type].label} per turn: ${formatDelta(income?.total[type] ?? 0)}`,
+    ...lines.map(({ label, amount }) => `${label}: ${formatDelta(amount)}`),
+  ].join("\n");
+};
+
+// Stockpile and per-turn income of every resource, hover one for the breakdown
+const ResourceBar: React.FC = () => {
+  const player = useGameStore(selectLocalPlayer);
+  const income = useGameStore(selectIncome);
+
+  if (!player) return null;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 flex gap-4 rounded bg-white/75 px-4 py-2 text-sm ui-element">
+      {RESOURCE_TYPES.map((type) => {
+        const delta = income?.total[type] ?? 0;
+        return (
+          <div key={type} className="flex items-center gap-1 cursor-default" title={describeIncome(type, income)}>
+            <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: RESOURCES[type].color }} />
+            <span>{RESOURCES[type].label}</span>
+            <span className="font-semibold">{getResourceAmount(player.resources, type)}</span>
+            {delta !== 0 && (
+              <span className={delta > 0 ? "text-green-700" : "text-red-700"}>({formatDelta(delta)})</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ResourceBar;
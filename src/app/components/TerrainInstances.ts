@@ -0,0 +1,144 @@
+// app/components/TerrainInstances.ts
+import * as THREE from 'three';
+import { TileData, TileUpdate } from '../types/gameTypes';
+import { axialToWorld, hexKey } from '../utils/hex';
+import { getModelMeshes, loadGLTFModel } from '../utils/gltfModels';
+import { getModelNameForTerrain } from '../utils/terrain';
+import { applyTileUpdate } from '../utils/tileUpdates';
+
+export interface TerrainInstancesProps {
+  tiles: TileData[];
+  size: number;
+  height: number;
+}
+
+interface TileEntry {
+  tile: TileData;
+  modelName: string;
+  instanceId: number;
+  // Kept so tiles tinted before their model loaded get the tint too
+  tint: THREE.Color | null;
+}
+
+// Height of the walkable top face of a tile, used for overlays and picking
+export const getTileSurfaceHeight = (size: number, height: number) => height + size / 8;
+
+/**
+ * Renders a set of tiles (one map chunk) with one InstancedMesh per mesh of each
+ * terrain model, so draw calls stay constant no matter how many tiles there are.
+ * Tiles are addressed by axial coordinates; nothing here allocates per-tile objects
+ * beyond the lookup entry.
+ */
+export class TerrainInstances extends THREE.Group {
+  public readonly size: number;
+  public readonly height: number;
+  public readonly ready: Promise<void>;
+  private entries = new Map<string, TileEntry>();
+  private tilesByModel = new Map<string, TileData[]>();
+  private meshesByModel = new Map<string, THREE.InstancedMesh[]>();
+  private disposed = false;
+
+  constructor({ tiles, size, height }: TerrainInstancesProps) {
+    super();
+
+    this.size = size;
+    this.height = height;
+
+    tiles.forEach((tile) => {
+      const modelName = getModelNameForTerrain(tile.terrain);
+      const modelTiles = this.tilesByModel.get(modelName) ?? [];
+      this.entries.set(hexKey(tile.q, tile.r), { tile, modelName, instanceId: modelTiles.length, tint: null });
+      modelTiles.push(tile);
+      this.tilesByModel.set(modelName, modelTiles);
+    });
+
+    this.ready = this.buildInstances();
+  }
+
+  get tileCount() {
+    return this.entries.size;
+  }
+
+  getTile(q: number, r: number): TileData | null {
+    return this.entries.get(hexKey(q, r))?.tile ?? null;
+  }
+
+  getTiles(): TileData[] {
+    return Array.from(this.entries.values(), (entry) => entry.tile);
+  }
+
+  // Multiplies the tile's colors; `color` is kept, so it must not be changed afterwards
+  setTileTint(q: number, r: number, color: THREE.Color) {
+    const entry = this.entries.get(hexKey(q, r));
+    if (!entry || entry.tint === color) return;
+    entry.tint = color;
+
+    this.meshesByModel.get(entry.modelName)?.forEach((mesh) => {
+      mesh.setColorAt(entry.instanceId, color);
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
+  }
+
+  // Ownership and buildings can change in place; the terrain (and so the model) cannot.
+  // Neither changes how the tile itself looks, see TerritoryBorders and BuildingModels.
+  updateTile(update: TileUpdate) {
+    const entry = this.entries.get(hexKey(update.q, update.r));
+    if (!entry) return;
+
+    entry.tile = applyTileUpdate(entry.tile, update);
+  }
+
+  dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    // Geometry and materials belong to the shared GLTF cache, only the instance buffers are ours
+    this.meshesByModel.forEach((meshes) => meshes.forEach((mesh) => {
+      this.remove(mesh);
+      mesh.dispose();
+    }));
+    this.meshesByModel.clear();
+  }
+
+  private async buildInstances() {
+    await Promise.all(
+      Array.from(this.tilesByModel.entries(), async ([modelName, tiles]) => {
+        try {
+          const model = await loadGLTFModel(modelName);
+          if (this.disposed) return;
+          this.meshesByModel.set(modelName, this.createModelInstances(model, tiles));
+        } catch (error) {
+          console.error(`Failed to add model ${modelName}:`, error);
+        }
+      })
+    );
+  }
+
+  private createModelInstances(model: THREE.Group, tiles: TileData[]) {
+    const tileMatrix = new THREE.Matrix4();
+    const instanceMatrix = new THREE.Matrix4();
+    const scale = new THREE.Vector3(this.size, this.size / 2, this.size);
+    const position = new THREE.Vector3();
+    const rotation = new THREE.Quaternion();
+
+    return getModelMeshes(model).map(({ mesh, matrix }) => {
+      const instanced = new THREE.InstancedMesh(mesh.geometry, mesh.material, tiles.length);
+      instanced.name = `${mesh.name || 'terrain'}-instances`;
+
+      tiles.forEach((tile, i) => {
+        const { x, z } = axialToWorld(tile.q, tile.r, this.size);
+        position.set(x, this.height, z);
+        tileMatrix.compose(position, rotation, scale);
+        instanceMatrix.multiplyMatrices(tileMatrix, matrix);
+        instanced.setMatrixAt(i, instanceMatrix);
+        const tint = this.entries.get(hexKey(tile.q, tile.r))?.tint;
+        if (tint) instanced.setColorAt(i, tint);
+      });
+
+      instanced.instanceMatrix.needsUpdate = true;
+      instanced.computeBoundingSphere();
+      this.add(instanced);
+      return instanced;
+    });
+  }
+}
@@ -0,0 +1,74 @@
+// app/components/TerritoryBorders.ts
+import * as THREE from 'three';
+import { TerritoryBorder } from '../store/gameStore';
+import { axialToWorld, hexSharedEdge } from '../utils/hex';
+
+export interface TerritoryBordersProps {
+  size: number;
+  // Height the borders float at, just above the tile surface
+  height: number;
+}
+
+// Share of the tile radius the band reaches in from the edge
+const BAND_WIDTH = 0.12;
+
+/**
+ * Draws every territory edge as a colored band along the inside of the owned tile, so two
+ * neighboring territories show side by side instead of on top of each other. All bands go
+ * into one mesh with vertex colors, rebuilt whenever ownership changes.
+ */
+export class TerritoryBorders extends THREE.Group {
+  private size: number;
+  private height: number;
+  private material: THREE.MeshBasicMaterial;
+  private mesh: THREE.Mesh | null = null;
+
+  constructor({ size, height }: TerritoryBordersProps) {
+    super();
+    this.size = size;
+    this.height = height;
+    this.material = new THREE.MeshBasicMaterial({ vertexColors: true, side: THREE.DoubleSide });
+  }
+
+  setBorders(borders: TerritoryBorder[]) {
+    this.clearBorders();
+    if (borders.length === 0) return;
+
+    const positions: number[] = [];
+    const colors: number[] = [];
+    const color = new THREE.Color();
+    borders.forEach(({ inside, outside, color: ownerColor }) => {
+      const center = axialToWorld(inside.q, inside.r, this.size);
+      const [a, b] = hexSharedEdge(inside, outside, this.size);
+      // The same corners pulled toward the center of the owned tile
+      const inset = (corner: { x: number; z: number }) => ({
+        x: corner.x + (center.x - corner.x) * BAND_WIDTH,
+        z: corner.z + (center.z - corner.z) * BAND_WIDTH,
+      });
+      const c = inset(b);
+      const d = inset(a);
+      [a, b, c, a, c, d].forEach(({ x, z }) => positions.push(x, this.height, z));
+
+      color.set(ownerColor);
+      for (let i = 0; i < 6; i++) colors.push(color.r, color.g, color.b);
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    this.mesh = new THREE.Mesh(geometry, this.material);
+    this.add(this.mesh);
+  }
+
+  clearBorders() {
+    if (!this.mesh) return;
+    this.remove(this.mesh);
+    this.mesh.geometry.dispose();
+    this.mesh = null;
+  }
+
+  dispose() {
+    this.clearBorders();
+    this.material.dispose();
+  }
+}
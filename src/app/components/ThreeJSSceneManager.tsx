@@ -1,41 +1,55 @@
-import React, { useRef, useEffect, useState, useCallback } from "react";
+import React, { useRef, useEffect, useState, useCallback, useMemo } from "react";
 import * as THREE from "three";
-import { HexagonTile } from "./HexagonTile";
+import { ChunkedTerrain } from "./ChunkedTerrain";
 import MapRenderer from "./MapRenderer";
 import { gsap } from "gsap";
+import { zoomBetweenLevels } from "./LevelTransition";
 import { Player } from "./Player";
+import { RemotePlayers } from "./RemotePlayers";
+import { bindLocalPlayer } from "./sceneBindings";
+import {
+  gameActions,
+  selectLocalPlayerId,
+  selectMap,
+  selectVisiblePlayers,
+} from "../store/gameStore";
+import { useGameStore, useGameStoreApi } from "../store/GameStoreContext";
+import { Axial, axialToWorld } from "../utils/hex";
+import { getAncestorMap } from "../utils/mapHierarchy";
 
 
 interface ThreeJSSceneManagerProps {
   mountRef: React.RefObject<HTMLDivElement>;
   scene: THREE.Scene;
   size: number;
-  tiles: HexagonTile[];
+  terrain: ChunkedTerrain | null;
+  // The terrain of the map just left, kept in the scene until onTerrainReleased
+  previousTerrain: ChunkedTerrain | null;
+  onTerrainReleased: (terrain: ChunkedTerrain) => void;
   tileSize: number;
   tileHeight: number;
   mapLevel: number;
-  onDescend: (newMapData: {
-    q: number;
-    r: number;
-    mapLevel: number;
-    parentTile?: { q: number; r: number };
-  }) => void;
-  onAscend: (newMapData: {
-    mapLevel: number;
-    parentTile?: { q: number; r: number };
-  }) => void;
+  // Enter the map of `tile` on the level below
+  onDescend: (tile: Axial) => void;
+  // Return to the map of `level` above
+  onAscend: (level: number) => void;
+  // Saved map on screen, if any
+  savedMapId?: string;
 }
 
 const ThreeJSSceneManager: React.FC<ThreeJSSceneManagerProps> = ({
   mountRef,
   scene,
   size,
-  tiles,
+  terrain,
+  previousTerrain,
+  onTerrainReleased,
   tileSize,
   tileHeight,
   mapLevel,
   onDescend,
   onAscend,
+  savedMapId,
 }) => {
   //Variables
 
@@ -44,16 +58,19 @@ const ThreeJSSceneManager: React.FC<ThreeJSSceneManagerProps> = ({
   /************************************************************************************************************************************************** */
 
   const [camera, setCamera] = useState<THREE.PerspectiveCamera | null>(null);
-  const [currentTiles, setCurrentTiles] = useState<HexagonTile[]>(tiles);
-  const [overlayColor, setOverlayColor] = useState("#000000");
+  const [currentTerrain, setCurrentTerrain] = useState<ChunkedTerrain | null>(terrain);
+  const currentTerrainRef = useRef<ChunkedTerrain | null>(terrain);
   const [player, setPlayer] = useState<Player | null>(null);
-  const fadeOverlayRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const cameraPositionRef = useRef(
     new THREE.Vector3(0, size * tileSize, -size * tileSize)
   );
   const isDraggingRef = useRef(false);
   const lastMousePositionRef = useRef(new THREE.Vector2());
+  const remotePlayers = useMemo(() => new RemotePlayers(tileSize), [tileSize]);
+  const store = useGameStoreApi();
+  const players = useGameStore(selectVisiblePlayers);
+  const localPlayerId = useGameStore(selectLocalPlayerId);
   
   // const config = {
   //   isDevelopment: process.env.NODE_ENV !== "production",
@@ -64,212 +81,147 @@ const ThreeJSSceneManager: React.FC<ThreeJSSceneManagerProps> = ({
   /************************************************************************************************************************************************** */
   /************************************************************************************************************************************************** */
 
-  const clearScene = useCallback(() => {
-    scene.children = scene.children.filter(
-      (child) => !(child instanceof HexagonTile)
-    );
-  }, [scene]);
-
-  const updateScene = useCallback(
-    (newTiles: HexagonTile[]) => {
-      clearScene();
-      newTiles.forEach((tile) => scene.add(tile));
-      setCurrentTiles(newTiles);
-    },
-    [clearScene, scene]
-  );
-
   useEffect(() => {
-    updateScene(tiles);
-  }, [tiles, updateScene]);
+    setCurrentTerrain(terrain);
+  }, [terrain]);
 
   //Ascend and Descend Logic
   /************************************************************************************************************************************************** */
   /************************************************************************************************************************************************** */
   /************************************************************************************************************************************************** */
 
-  const disposeTiles = useCallback(() => {
-    currentTiles.forEach((tile) => {
-      tile.dispose();
-      scene.remove(tile);
-    });
-    setCurrentTiles([]);
-  }, [currentTiles, scene]);
+  // Set when a level change is asked for, played once the terrain of the new map arrives
+  const pendingTransitionRef = useRef<Pick<
+    Parameters<typeof zoomBetweenLevels>[0],
+    "direction" | "tiles" | "cameraTo"
+  > | null>(null);
+  const transitionRef = useRef<gsap.core.Tween | null>(null);
 
   const handleDescend = useCallback(
-    (newMapData: {
-      q: number;
-      r: number;
-      mapLevel: number;
-      parentTile?: { q: number; r: number };
-    }) => {
-      if (fadeOverlayRef.current && camera) {
-        const focusedTile = currentTiles.find(
-          (tile) =>
-            tile.q === newMapData.parentTile?.q &&
-            tile.r === newMapData.parentTile?.r
-        );
-  
-        if (focusedTile) {
-          const tilePosition = new THREE.Vector3();
-          focusedTile.getWorldPosition(tilePosition);
-  
-          const tileColor = focusedTile.color || "#000000";
-          setOverlayColor(tileColor);
-  
-          gsap
-            .timeline()
-            .to(
-              camera.position,
-              {
-                duration: 1,
-                x: tilePosition.x,
-                y: tilePosition.y + tileSize * 2,
-                z: tilePosition.z,
-                onUpdate: () => {
-                  camera.lookAt(tilePosition);
-                },
-              },
-              0
-            )
-            .to(
-              fadeOverlayRef.current,
-              {
-                duration: 1,
-                opacity: 1,
-              },
-              0
-            )
-            .call(() => {
-              disposeTiles();
-              onDescend(newMapData);
-  
-              const newPosition = new THREE.Vector3(
-                0,
-                size * tileSize,
-                -size * tileSize
-              );
-              camera.position.copy(newPosition);
-              cameraPositionRef.current = newPosition;
-              camera.lookAt(new THREE.Vector3(0, 0, 0));
-  
-              if (player) {
-                player.moveTo(0, 0, new THREE.Vector3(0, player.position.y, 0));
-              }
-            })
-            .call(() => {
-              // Wait for the next frame to ensure new tiles are rendered
-              requestAnimationFrame(() => {
-                gsap.to(fadeOverlayRef.current, {
-                  duration: 1,
-                  opacity: 0,
-                });
-              });
-            });
-        } else {
-          console.error("Focused tile not found");
-        }
-      } else {
-        console.error("Fade overlay or camera is not available");
+    (parentTile: Axial) => {
+      if (!camera || !currentTerrain?.getTile(parentTile.q, parentTile.r)) {
+        console.error("Camera or focused tile is not available for Descend");
+        return;
       }
+
+      pendingTransitionRef.current = {
+        direction: "descend",
+        tiles: [parentTile],
+        cameraTo: {
+          position: new THREE.Vector3(0, size * tileSize, -size * tileSize),
+          target: new THREE.Vector3(0, 0, 0),
+        },
+      };
+      onDescend(parentTile);
     },
-    [camera, size, tileSize, onDescend, currentTiles, player, disposeTiles]
+    [camera, size, tileSize, onDescend, currentTerrain]
   );
-  
+
+  // The camera ends up over the tile that was descended into, where the player stands again
   const handleAscend = useCallback(
-    (newMapData: {
-      mapLevel: number;
-      parentTile?: { q: number; r: number };
-    }) => {
-      if (fadeOverlayRef.current && camera) {
-        const parentTilePosition = new THREE.Vector3(
-          (newMapData.parentTile?.q || 0) * tileSize * 1.5,
-          0,
-          (newMapData.parentTile?.r || 0) * tileSize * Math.sqrt(3)
-        );
-  
-        const cameraDirection = new THREE.Vector3();
-        camera.getWorldDirection(cameraDirection);
-  
-        const newCameraPosition = new THREE.Vector3().addVectors(
-          parentTilePosition,
-          cameraDirection.multiplyScalar(-size * tileSize)
-        );
-        newCameraPosition.y = size * tileSize;
-  
-        const tileColor = "#000000";
-        setOverlayColor(tileColor);
-  
-        gsap
-          .timeline()
-          .to(fadeOverlayRef.current, {
-            duration: 1,
-            opacity: 1,
-          })
-          .call(() => {
-            disposeTiles();
-            console.log("dispose call Ascend");
-            onAscend(newMapData);
-  
-            camera.position.copy(newCameraPosition);
-            cameraPositionRef.current = newCameraPosition;
-            camera.lookAt(parentTilePosition);
-  
-            if (player && newMapData.parentTile) {
-              player.moveTo(
-                newMapData.parentTile.q,
-                newMapData.parentTile.r,
-                parentTilePosition
-              );
-            }
-          })
-          .call(() => {
-            // Wait for the next frame to ensure new tiles are rendered
-            requestAnimationFrame(() => {
-              gsap.to(fadeOverlayRef.current, {
-                duration: 1,
-                opacity: 0,
-              });
-            });
-          });
-      } else {
-        console.error("Fade overlay or camera is not available for Ascend");
+    (level: number) => {
+      const map = selectMap(store.getState());
+      const ancestor = getAncestorMap(map, level);
+      if (!ancestor) return;
+
+      if (!camera) {
+        console.error("Camera is not available for Ascend");
+        return;
       }
+
+      const parentWorld = axialToWorld(ancestor.tile.q, ancestor.tile.r, tileSize);
+      const parentTilePosition = new THREE.Vector3(parentWorld.x, 0, parentWorld.z);
+
+      const cameraDirection = new THREE.Vector3();
+      camera.getWorldDirection(cameraDirection);
+
+      const newCameraPosition = new THREE.Vector3().addVectors(
+        parentTilePosition,
+        cameraDirection.multiplyScalar(-size * tileSize)
+      );
+      newCameraPosition.y = size * tileSize;
+
+      pendingTransitionRef.current = {
+        direction: "ascend",
+        tiles: map.path.filter((parent) => parent.level <= level),
+        cameraTo: { position: newCameraPosition, target: parentTilePosition },
+      };
+      onAscend(level);
     },
-    [camera, size, tileSize, onAscend, player, disposeTiles]
+    [camera, size, tileSize, onAscend, store]
   );
 
+  // Zoom from the map just left into the new one, then let go of the old terrain. Players
+  // are hidden meanwhile as they already stand on the new map.
+  useEffect(() => {
+    if (!previousTerrain) return;
+    transitionRef.current?.progress(1);
+
+    const pending = pendingTransitionRef.current;
+    pendingTransitionRef.current = null;
+    if (!pending || !terrain || !camera) {
+      onTerrainReleased(previousTerrain);
+      return;
+    }
+
+    const hidden = scene.children.filter((object) => object instanceof Player || object === remotePlayers);
+    hidden.forEach((object) => (object.visible = false));
+
+    transitionRef.current = zoomBetweenLevels({
+      ...pending,
+      parent: pending.direction === "descend" ? previousTerrain : terrain,
+      child: pending.direction === "descend" ? terrain : previousTerrain,
+      mapRadius: size,
+      camera,
+      onComplete: () => {
+        transitionRef.current = null;
+        hidden.forEach((object) => (object.visible = true));
+        onTerrainReleased(previousTerrain);
+
+        cameraPositionRef.current = pending.cameraTo.position.clone();
+        store.dispatch(gameActions.cameraMoved({ ...cameraPositionRef.current }));
+      },
+    });
+  }, [terrain, previousTerrain, onTerrainReleased, camera, scene, remotePlayers, size, store]);
+
   // Function to move the player
   /************************************************************************************************************************************************** */
   /************************************************************************************************************************************************** */
   /************************************************************************************************************************************************** */
 
+  // The mesh follows the store, see bindLocalPlayer
   const movePlayer = useCallback(
-    (targetQ: number, targetR: number) => {
-      if (player) {
-        const targetTile = currentTiles.find(
-          (tile) => tile.q === targetQ && tile.r === targetR
-        );
-        if (targetTile) {
-          const newPosition = new THREE.Vector3(
-            targetTile.position.x,
-            player.position.y,
-            targetTile.position.z
-          );
-          gsap.to(player.position, {
-            duration: 0.5,
-            x: newPosition.x,
-            z: newPosition.z,
-            onComplete: () => {
-              player.moveTo(targetQ, targetR, newPosition);
-            },
-          });
-        }
+    (targetQ: number, targetR: number, path: Axial[]) => {
+      if (currentTerrain?.getTile(targetQ, targetR)) {
+        store.dispatch(gameActions.localPlayerMoved(targetQ, targetR, path));
       }
     },
-    [player, currentTiles]
+    [currentTerrain, store]
   );
 
+  useEffect(() => {
+    if (!player) return;
+    return bindLocalPlayer(store, player, tileSize);
+  }, [player, store, tileSize]);
+
+  // Other players
+  /************************************************************************************************************************************************** */
+  /************************************************************************************************************************************************** */
+  /************************************************************************************************************************************************** */
+
+  useEffect(() => {
+    // The scene loop clears the scene on teardown, so re-add when needed
+    if (!scene.children.includes(remotePlayers)) scene.add(remotePlayers);
+    remotePlayers.sync(players, localPlayerId, currentTerrain);
+  }, [scene, remotePlayers, players, localPlayerId, currentTerrain]);
+
+  useEffect(() => {
+    return () => {
+      scene.remove(remotePlayers);
+      remotePlayers.dispose();
+    };
+  }, [scene, remotePlayers]);
+
   //Scene Loop
   /************************************************************************************************************************************************** */
   /************************************************************************************************************************************************** */
@@ -390,7 +342,8 @@ const ThreeJSSceneManager: React.FC<ThreeJSSceneManagerProps> = ({
     // Create and add player
     /************************************************************************************************************************************************** */
 
-    const newPlayer = new Player(0, 0, tileSize);
+    const { q: playerQ, r: playerR } = store.getState().localPosition;
+    const newPlayer = new Player(playerQ, playerR, tileSize);
     scene.add(newPlayer);
     setPlayer(newPlayer);
 
@@ -419,6 +372,7 @@ const ThreeJSSceneManager: React.FC<ThreeJSSceneManagerProps> = ({
       );
   
       newCamera.lookAt(lookAtPoint);
+      store.dispatch(gameActions.cameraMoved({ ...cameraPositionRef.current }));
     };
   
     cameraPositionRef.current.set(0, size * tileSize, size * tileSize);
@@ -502,11 +456,7 @@ const ThreeJSSceneManager: React.FC<ThreeJSSceneManagerProps> = ({
 
     const animate = () => {
       animationFrameId = requestAnimationFrame(animate);
-      currentTiles.forEach((tile) => {
-        if (tile.update) {
-          tile.update();
-        }
-      });
+      currentTerrainRef.current?.update(newCamera);
       if(rendererRef.current){
       rendererRef.current.render(scene, newCamera);
       }
@@ -575,40 +525,28 @@ const ThreeJSSceneManager: React.FC<ThreeJSSceneManagerProps> = ({
     size,
     tileSize,
     tileHeight,
-    currentTiles,
+    store,
   ]);
 
   useEffect(() => {
-    currentTiles.forEach((tile) => {
-      if (!scene.children.includes(tile)) {
-        scene.add(tile);
-      }
-    });
-  }, [currentTiles, scene]);
+    currentTerrainRef.current = currentTerrain;
+    if (currentTerrain && !scene.children.includes(currentTerrain)) {
+      scene.add(currentTerrain);
+    }
+  }, [currentTerrain, scene]);
 
   return (
     <>
-      <div
-        ref={fadeOverlayRef}
-        style={{
-          position: "fixed",
-          top: 0,
-          left: 0,
-          width: "100%",
-          height: "100%",
-          backgroundColor: overlayColor,
-          opacity: 0,
-          pointerEvents: "none",
-          zIndex: 1000,
-        }}
-      />
       <MapRenderer
-        tiles={currentTiles}
+        terrain={currentTerrain}
         camera={camera}
         cameraPosition={cameraPositionRef}
         renderer={rendererRef.current}
+        tileSize={tileSize}
+        tileHeight={tileHeight}
+        mapRadius={size}
+        savedMapId={savedMapId}
         mapLevel={mapLevel}
-        player={player}
         onDescend={handleDescend}
         onAscend={handleAscend}
         onMovePlayer={movePlayer}
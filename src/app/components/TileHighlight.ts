@@ -0,0 +1,68 @@
+// app/components/TileHighlight.ts
+import * as THREE from 'three';
+import { hexCorners } from '../utils/hex';
+
+export interface TileHighlightProps {
+  size: number;
+  color: THREE.ColorRepresentation;
+  opacity?: number;
+  // Fake a wider line by drawing several slightly offset loops (WebGL ignores linewidth)
+  thick?: boolean;
+}
+
+// A hex outline that floats above one tile at a time. Used for focus and hover overlays.
+export class TileHighlight extends THREE.Group {
+  private geometry: THREE.BufferGeometry;
+  private material: THREE.LineBasicMaterial;
+
+  constructor({ size, color, opacity = 1, thick = false }: TileHighlightProps) {
+    super();
+
+    const shape = new THREE.Shape();
+    hexCorners(size).forEach(({ x, z }, i) => {
+      if (i === 0) shape.moveTo(x, z);
+      else shape.lineTo(x, z);
+    });
+    shape.lineTo(size, 0);
+
+    this.geometry = new THREE.BufferGeometry().setFromPoints(shape.getPoints());
+    this.material = new THREE.LineBasicMaterial({ color, transparent: opacity < 1, opacity });
+
+    const offsets = thick
+      ? [
+          [0, 0],
+          [0.005, 0],
+          [-0.005, 0],
+          [0.01, 0],
+          [-0.01, 0],
+          [0, 0.005],
+          [0, -0.005],
+          [0, 0.01],
+          [0, -0.01],
+        ]
+      : [[0, 0]];
+
+    offsets.forEach(([x, y]) => {
+      const line = new THREE.LineLoop(this.geometry, this.material);
+      line.position.set(x, y, 0);
+      this.add(line);
+    });
+
+    this.rotation.x = -Math.PI / 2;
+    this.visible = false;
+  }
+
+  showAt(position: THREE.Vector3) {
+    this.position.copy(position);
+    this.visible = true;
+  }
+
+  hide() {
+    this.visible = false;
+  }
+
+  dispose() {
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+}
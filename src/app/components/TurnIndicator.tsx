@@ -0,0 +1,74 @@
+// app/components/TurnIndicator.tsx
+"use client"
+import React, { useEffect } from "react";
+import {
+  gameActions,
+  selectActionPoints,
+  selectIsLocalTurn,
+  selectMovementPoints,
+  selectPlayers,
+  selectTurn,
+} from "../store/gameStore";
+import { useGameDispatch, useGameStore } from "../store/GameStoreContext";
+import { TurnPhase } from "../utils/turns";
+import { Button } from "@/components/ui/button";
+
+const phaseLabels: { [P in TurnPhase]: string } = {
+  move: "Move",
+  build: "Build",
+  end: "Turn ended",
+};
+
+// Whose turn it is and what the local player has left, with the buttons to move through the turn
+const TurnIndicator: React.FC = () => {
+  const turn = useGameStore(selectTurn);
+  const isLocalTurn = useGameStore(selectIsLocalTurn);
+  const movementPoints = useGameStore(selectMovementPoints);
+  const actionPoints = useGameStore(selectActionPoints);
+  const players = useGameStore(selectPlayers);
+  const dispatch = useGameDispatch();
+
+  const canAct = isLocalTurn && turn.phase !== "end";
+
+  useEffect(() => {
+    if (!canAct) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Enter" && !(event.target as HTMLElement).closest("input, textarea, button")) {
+        dispatch(gameActions.endTurn());
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [canAct, dispatch]);
+
+  const activePlayer = players.find((player) => player.id === turn.activePlayerId);
+
+  return (
+    <div className="absolute bottom-4 right-4 flex flex-col items-end gap-2 rounded bg-white/75 px-4 py-2 text-sm ui-element">
+      <p className="font-semibold">Turn {turn.number}</p>
+      {isLocalTurn ? (
+        <>
+          <p>Your turn: {phaseLabels[turn.phase]}</p>
+          <p>Movement: {movementPoints} · Actions: {actionPoints}</p>
+        </>
+      ) : (
+        <p>Waiting for {activePlayer?.name ?? "another player"}...</p>
+      )}
+      {canAct && (
+        <div className="flex gap-2">
+          {turn.phase === "move" && (
+            <Button variant="outline" onClick={() => dispatch(gameActions.advancePhase())}>
+              Start building
+            </Button>
+          )}
+          <Button title="Enter" onClick={() => dispatch(gameActions.endTurn())}>
+            End Turn
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TurnIndicator;
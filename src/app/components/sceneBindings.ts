@@ -0,0 +1,106 @@
+// app/components/sceneBindings.ts
+// Keep Three.js objects in step with the game store. The scene never owns game state;
+// it only mirrors it. Every bind function returns an unsubscribe.
+import * as THREE from 'three';
+import gsap from 'gsap';
+import {
+  GameStore,
+  selectBuildPreview,
+  selectBuildings,
+  selectFogOfWar,
+  selectFocusedCoords,
+  selectHoveredCoords,
+  selectLocalPosition,
+  selectMapKey,
+  selectMovementRange,
+  selectPathPreview,
+  selectTerritoryBorders,
+  selectTileUpdates,
+  selectTileEdits,
+} from '../store/gameStore';
+import { axialToWorld, hexEquals } from '../utils/hex';
+import { ChunkedTerrain } from './ChunkedTerrain';
+import { Player } from './Player';
+
+export const bindTerrain = (store: GameStore, terrain: ChunkedTerrain) => {
+  const unsubscribers = [
+    store.watch(selectTileUpdates, (updates) => {
+      // The terrain of the previous map can outlive a map change by a frame
+      if (terrain.mapKey !== selectMapKey(store.getState())) return;
+      terrain.applyTileUpdates(Object.values(updates));
+    }),
+    store.watch(selectTileEdits, (edits) => {
+      if (terrain.mapKey !== selectMapKey(store.getState())) return;
+      terrain.setTileEdits(edits);
+    }),
+    store.watch(selectFocusedCoords, (tile) => (tile ? terrain.setFocus(tile.q, tile.r) : terrain.clearFocus())),
+    store.watch(selectHoveredCoords, (tile) => (tile ? terrain.setHover(tile.q, tile.r) : terrain.clearHover())),
+    store.watch(selectMovementRange, (range) =>
+      range ? terrain.setMovementRange(range) : terrain.clearMovementRange()
+    ),
+    store.watch(selectFogOfWar, (fogOfWar) => terrain.setVisibility(fogOfWar)),
+    store.watch(selectTerritoryBorders, (borders) => terrain.setTerritoryBorders(borders)),
+    store.watch(selectBuildings, (buildings) => terrain.setBuildings(buildings)),
+    store.watch(selectBuildPreview, (preview) =>
+      preview ? terrain.setBuildPreview(preview) : terrain.clearBuildPreview()
+    ),
+    store.watch(selectPathPreview, (plan) =>
+      plan ? terrain.setPathPreview(plan.path.slice(1), plan.withinBudget) : terrain.clearPathPreview()
+    ),
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+};
+
+const HOP_DURATION = 0.25;
+const HOP_HEIGHT = 0.15;
+
+// Moves within a level hop tile by tile along the route taken, level changes jump straight to the new position
+export const bindLocalPlayer = (store: GameStore, player: Player, tileSize: number) => {
+  // Taken before any hop so an interrupted hop never leaves the player in the air
+  const groundY = player.position.y;
+  let timeline: gsap.core.Timeline | null = null;
+
+  return store.watch(selectLocalPosition, (position, previous) => {
+    const { x, z } = axialToWorld(position.q, position.r, tileSize);
+    const target = new THREE.Vector3(x, groundY, z);
+    timeline?.kill();
+    gsap.killTweensOf(player.position);
+    player.position.y = groundY;
+
+    if (!previous || previous.level !== position.level) {
+      player.moveTo(position.q, position.r, target);
+      return;
+    }
+
+    // Without a matching route (e.g. a teleport) the player glides straight there
+    const path = store.getState().lastMove?.path;
+    const steps =
+      path && path.length > 1 && hexEquals(path[0], previous) && hexEquals(path[path.length - 1], position)
+        ? path.slice(1)
+        : [position];
+
+    const hops = gsap.timeline({
+      onComplete: () => {
+        player.moveTo(position.q, position.r, target);
+      },
+    });
+    steps.forEach((step) => {
+      const stepPosition = axialToWorld(step.q, step.r, tileSize);
+      const hop = steps.length > 1;
+      hops.to(player.position, {
+        duration: hop ? HOP_DURATION : 0.5,
+        x: stepPosition.x,
+        z: stepPosition.z,
+        ease: hop ? 'none' : 'power1.inOut',
+      });
+      if (hop) {
+        hops.to(
+          player.position,
+          { duration: HOP_DURATION / 2, y: groundY + HOP_HEIGHT, yoyo: true, repeat: 1, ease: 'sine.out' },
+          '<'
+        );
+      }
+    });
+    timeline = hops;
+  });
+};
@@ -0,0 +1,215 @@
+// app/data/content.ts
+// Game content: what every resource, terrain and building is and does. The rest of the app
+// reads these tables instead of switching on names, so adding a terrain or a building is a
+// change to this file only.
+import { ResourceType } from '../types/gameTypes';
+
+// Amount per resource, missing resources count as zero
+export type ResourceAmounts = { [R in ResourceType]?: number };
+
+export interface ResourceDefinition {
+  label: string;
+  color: string;
+}
+
+export interface TerrainDefinition {
+  label: string;
+  // Fallback color wherever the model is not drawn, e.g. the 2D map view
+  color: string;
+  // Name of the GLTF under public/data
+  model: string;
+  // Cost to enter a tile of this terrain; null means it cannot be entered at all
+  movementCost: number | null;
+  // Produced every turn for the owner of the tile
+  yields: ResourceAmounts;
+  // Price of claiming an unowned tile; null means it cannot be claimed
+  claimCost: ResourceAmounts | null;
+  // Whether the tile hides what lies behind it
+  blocksSight: boolean;
+  // Deposits the map generator may put on a tile of this terrain, each with its chance per tile
+  deposits: { type: ResourceType; chance: number }[];
+}
+
+export type BuildingEffect =
+  // Adds to the owner's income every turn
+  | { type: 'produce'; resource: ResourceType; amount: number }
+  // Claims the unowned tiles within `radius` for the owner
+  | { type: 'claim'; radius: number }
+  // Reveals the tiles within `radius` to the owner
+  | { type: 'vision'; radius: number };
+
+export interface BuildingDefinition {
+  label: string;
+  description: string;
+  // Name of the GLTF under public/data
+  model: string;
+  cost: ResourceAmounts;
+  // Paid by the owner every turn
+  upkeep: ResourceAmounts;
+  // Terrains the building can be placed on
+  terrains: TerrainType[];
+  effects: BuildingEffect[];
+}
+
+// Resources
+/************************************************************************************************************************************************** */
+
+export const RESOURCES: { [R in ResourceType]: ResourceDefinition } = {
+  wood: { label: 'Wood', color: '#8D6E63' },
+  stone: { label: 'Stone', color: '#9E9E9E' },
+  iron: { label: 'Iron', color: '#607D8B' },
+  gold: { label: 'Gold', color: '#FFC107' },
+  food: { label: 'Food', color: '#8BC34A' },
+};
+
+export const RESOURCE_TYPES = Object.keys(RESOURCES) as ResourceType[];
+
+// Terrains
+/************************************************************************************************************************************************** */
+
+const terrains = {
+  grass: {
+    label: 'Grassland',
+    color: '#4CAF50',
+    model: 'simple_tile_grass',
+    movementCost: 1,
+    yields: { food: 1 },
+    claimCost: { food: 5 },
+    blocksSight: false,
+    deposits: [{ type: 'food', chance: 0.04 }],
+  },
+  forest: {
+    label: 'Forest',
+    color: '#2E7D32',
+    model: 'simple_tile_forest',
+    movementCost: 2,
+    yields: { wood: 1 },
+    claimCost: { food: 5, wood: 5 },
+    blocksSight: false,
+    deposits: [{ type: 'wood', chance: 0.08 }],
+  },
+  mountain: {
+    label: 'Mountain',
+    color: '#795548',
+    model: 'simple_tile_mountain',
+    movementCost: 3,
+    yields: { stone: 1 },
+    claimCost: { food: 10 },
+    blocksSight: true,
+    deposits: [
+      { type: 'stone', chance: 0.12 },
+      { type: 'iron', chance: 0.08 },
+      { type: 'gold', chance: 0.03 },
+    ],
+  },
+  water: {
+    label: 'Water',
+    color: '#2196F3',
+    model: 'simple_tile_water',
+    movementCost: null,
+    yields: { food: 1 },
+    claimCost: null,
+    blocksSight: false,
+    deposits: [{ type: 'food', chance: 0.05 }],
+  },
+} satisfies { [terrain: string]: TerrainDefinition };
+
+export type TerrainType = keyof typeof terrains;
+
+export const TERRAINS: { [T in TerrainType]: TerrainDefinition } = terrains;
+
+export const TERRAIN_TYPES = Object.keys(TERRAINS) as TerrainType[];
+
+// Shown for terrain the client does not know yet, e.g. one added on the backend since
+export const FALLBACK_TERRAIN: TerrainType = 'grass';
+
+// Buildings
+/************************************************************************************************************************************************** */
+
+const buildings = {
+  outpost: {
+    label: 'Outpost',
+    description: 'Claims the surrounding land and watches over it.',
+    model: 'building_outpost',
+    cost: { wood: 20, stone: 10 },
+    upkeep: { food: 1 },
+    terrains: ['grass', 'forest', 'mountain'],
+    effects: [
+      { type: 'claim', radius: 1 },
+      { type: 'vision', radius: 2 },
+    ],
+  },
+  farm: {
+    label: 'Farm',
+    description: 'Grows food on open grassland.',
+    model: 'building_farm',
+    cost: { wood: 30 },
+    upkeep: {},
+    terrains: ['grass'],
+    effects: [{ type: 'produce', resource: 'food', amount: 3 }],
+  },
+  lumber_mill: {
+    label: 'Lumber Mill',
+    description: 'Cuts wood from the forest.',
+    model: 'building_lumber_mill',
+    cost: { wood: 20, stone: 10 },
+    upkeep: { food: 1 },
+    terrains: ['forest'],
+    effects: [{ type: 'produce', resource: 'wood', amount: 3 }],
+  },
+  quarry: {
+    label: 'Quarry',
+    description: 'Breaks stone out of the mountainside.',
+    model: 'building_quarry',
+    cost: { wood: 30 },
+    upkeep: { food: 1 },
+    terrains: ['mountain'],
+    effects: [{ type: 'produce', resource: 'stone', amount: 2 }],
+  },
+  mine: {
+    label: 'Mine',
+    description: 'Digs iron and gold from deep under the mountain.',
+    model: 'building_mine',
+    cost: { wood: 40, stone: 20 },
+    upkeep: { food: 2 },
+    terrains: ['mountain'],
+    effects: [
+      { type: 'produce', resource: 'iron', amount: 1 },
+      { type: 'produce', resource: 'gold', amount: 1 },
+    ],
+  },
+  watchtower: {
+    label: 'Watchtower',
+    description: 'Sees far across the map.',
+    model: 'building_watchtower',
+    cost: { wood: 20, stone: 30 },
+    upkeep: { food: 1 },
+    terrains: ['grass', 'mountain'],
+    effects: [{ type: 'vision', radius: 4 }],
+  },
+} satisfies { [building: string]: BuildingDefinition };
+
+export type BuildingType = keyof typeof buildings;
+
+export const BUILDINGS: { [B in BuildingType]: BuildingDefinition } = buildings;
+
+export const BUILDING_TYPES = Object.keys(BUILDINGS) as BuildingType[];
+
+// Lookups
+/************************************************************************************************************************************************** */
+
+export const isTerrainType = (value: string): value is TerrainType =>
+  Object.prototype.hasOwnProperty.call(TERRAINS, value);
+
+export const isBuildingType = (value: string): value is BuildingType =>
+  Object.prototype.hasOwnProperty.call(BUILDINGS, value);
+
+// Effects of one kind a building has, narrowed to that kind
+export const getBuildingEffects = <K extends BuildingEffect['type']>(
+  building: BuildingType,
+  type: K
+): Extract<BuildingEffect, { type: K }>[] =>
+  BUILDINGS[building].effects.filter((effect): effect is Extract<BuildingEffect, { type: K }> => effect.type === type);
+
+export const canBuildOn = (building: BuildingType, terrain: TerrainType) =>
+  BUILDINGS[building].terrains.includes(terrain);
@@ -1,30 +1,8 @@
 // app/data/dummyGameData.ts
 
-import { GameState, TileData, PlayerData } from '../types/gameTypes';
-
-const generateTiles = (size: number): TileData[] => {
-  const tiles: TileData[] = [];
-  const terrainTypes = ['grass', 'forest', 'mountain', 'water'];
-
-  for (let q = -size; q <= size; q++) {
-    for (let r = Math.max(-size, -q - size); r <= Math.min(size, -q + size); r++) {
-      tiles.push({
-        q,
-        r,
-        terrain: terrainTypes[Math.floor(Math.random() * terrainTypes.length)],
-        ownerId: null,
-        resources: [
-          { type: 'wood', amount: Math.floor(Math.random() * 100) },
-          { type: 'stone', amount: Math.floor(Math.random() * 50) },
-        ],
-        building: null,
-        canInteract: true,
-      });
-    }
-  }
-
-  return tiles;
-};
+import { GameState, PlayerData } from '../types/gameTypes';
+import { getDefaultMapPath } from '../utils/mapHierarchy';
+import { DEFAULT_MAP_SEED, createMapGenerator } from '../utils/mapGenerator';
 
 const dummyPlayers: PlayerData[] = [
   {
@@ -49,9 +27,10 @@ const dummyPlayers: PlayerData[] = [
   },
 ];
 
-export const generateDummyGameState = (mapSize: number): GameState => {
+// The same seed and level always give the same tiles
+export const generateDummyGameState = (mapSize: number, level = 1, seed = DEFAULT_MAP_SEED): GameState => {
   return {
-    tiles: generateTiles(mapSize),
+    tiles: createMapGenerator({ mapRadius: mapSize, seed }).getTiles({ level, path: getDefaultMapPath(level) }),
     players: dummyPlayers,
   };
 };
\ No newline at end of file
@@ -0,0 +1,125 @@
+// app/data/mockBackend.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { TileData } from '../types/gameTypes';
+import { ApiError, SaveMapDetails, apiUrl, createApiClient } from '../utils/apiClient';
+import { getDefaultMapPath } from '../utils/mapHierarchy';
+import { createMockBackend } from './mockBackend';
+
+// Without IndexedDB the mock keeps everything in memory, shared by every backend in this file,
+// so each test signs up its own users
+const backend = createMockBackend({ seed: 3 });
+const PASSWORD = 'password123';
+const MAP = { level: 2, path: getDefaultMapPath(2) };
+const CHUNK = { q: 0, r: 0 };
+
+let userCount = 0;
+const nextUsername = () => `player_${++userCount}`;
+
+const post = (path: string, body: object) => backend(apiUrl(path), { method: 'POST', body: JSON.stringify(body) });
+
+const register = (username: string) =>
+  post('/auth/register', { username, email: `${username}@example.com`, password: PASSWORD });
+
+// A client for a new user, attaching its access token like AuthContext does
+const signUp = async () => {
+  const { access_token: accessToken } = await (await register(nextUsername())).json();
+  return createApiClient((url, options = {}) => {
+    const headers = new Headers(options.headers);
+    headers.set('Authorization', `Bearer ${accessToken}`);
+    return backend(url, { ...options, headers });
+  });
+};
+
+type Client = Awaited<ReturnType<typeof signUp>>;
+
+// The id of the new map, a string like the app keeps it
+const saveMap = async (client: Client, name: string, details: Partial<SaveMapDetails> = {}) =>
+  String((await client.saveProceduralMap({ name, size: 8, location: MAP, thumbnail: null, ...details })).map_id);
+
+describe('auth', () => {
+  it('signs up, logs in and refreshes', async () => {
+    const username = nextUsername();
+    expect((await register(username)).status).toBe(200);
+    expect((await post('/auth/login', { username, password: 'wrong password1' })).status).toBe(401);
+
+    const login = await post('/auth/login', { username, password: PASSWORD });
+    expect(login.status).toBe(200);
+    const { refresh_token: refreshToken } = await login.json();
+    const refreshed = await post('/auth/refresh', { refresh_token: refreshToken });
+    expect(await refreshed.json()).toHaveProperty('access_token');
+
+    await post('/auth/logout', { refresh_token: refreshToken });
+    expect((await post('/auth/refresh', { refresh_token: refreshToken })).status).toBe(401);
+  });
+
+  it('refuses invalid and duplicate registrations', async () => {
+    const username = nextUsername();
+    expect((await post('/auth/register', { username, email: 'nope', password: PASSWORD })).status).toBe(422);
+    await register(username);
+    expect((await register(username)).status).toBe(409);
+  });
+
+  it('answers map requests without a token with 401', async () => {
+    await expect(createApiClient(backend).listMaps()).rejects.toMatchObject({ status: 401 });
+  });
+});
+
+describe('saved maps', () => {
+  it('are saved, listed newest first, renamed and deleted', async () => {
+    const client = await signUp();
+    // A millisecond apart, so the order does not depend on how fast the test runs
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now());
+    const first = await saveMap(client, 'First');
+    vi.setSystemTime(Date.now() + 1);
+    const second = await saveMap(client, ' Second ');
+    vi.useRealTimers();
+
+    const listed = await client.listMaps();
+    const ids = listed.map((map) => map.id);
+    expect(ids.indexOf(second)).toBeLessThan(ids.indexOf(first));
+    expect(listed.find((map) => map.id === second)).toMatchObject({ name: 'Second', size: 8, location: MAP });
+
+    expect((await client.renameMap(first, 'Renamed')).name).toBe('Renamed');
+    await client.deleteMap(first);
+    await expect(client.getSavedMap(first)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('can only be renamed and deleted by their owner', async () => {
+    const owner = await signUp();
+    const other = await signUp();
+    const id = await saveMap(owner, 'Mine');
+
+    await expect(other.renameMap(id, 'Theirs')).rejects.toMatchObject({ status: 403 });
+    await expect(other.deleteMap(id)).rejects.toBeInstanceOf(ApiError);
+    expect((await other.getSavedMap(id)).name).toBe('Mine');
+  });
+
+  it('serve the procedural world with the edits on top', async () => {
+    const client = await signUp();
+    const procedural = await client.getMapChunk(8, CHUNK, MAP, 4);
+    const edited: TileData = {
+      ...procedural[2],
+      terrain: 'water',
+      ownerId: 'p1',
+      resources: [{ type: 'food', amount: 2 }],
+    };
+    const id = await saveMap(client, 'Edited', { edits: [{ map: MAP, tiles: [edited] }] });
+
+    const chunk = await client.getSavedMapChunk(id, CHUNK, MAP, 4);
+    expect(chunk[2]).toEqual(edited);
+    expect(chunk.filter((_, index) => index !== 2)).toEqual(procedural.filter((_, index) => index !== 2));
+  });
+
+  it('keep the edits of the map they are based on', async () => {
+    const client = await signUp();
+    const procedural = await client.getMapChunk(8, CHUNK, MAP, 4);
+    const first: TileData = { ...procedural[0], building: 'farm' };
+    const second: TileData = { ...procedural[1], terrain: 'mountain' };
+    const base = await saveMap(client, 'Base', { edits: [{ map: MAP, tiles: [first] }] });
+    const id = await saveMap(client, 'Copy', { edits: [{ map: MAP, tiles: [second] }], basedOn: base });
+
+    const chunk = await client.getSavedMapChunk(id, CHUNK, MAP, 4);
+    expect(chunk.slice(0, 2)).toEqual([first, second]);
+  });
+});
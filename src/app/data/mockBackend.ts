@@ -0,0 +1,366 @@
+// app/data/mockBackend.ts
+// In-browser stand-in for the REST API, used when NEXT_PUBLIC_DATA_SOURCE=mock (see
+// utils/dataSource.ts). It answers the same paths with the same bodies as the backend, so
+// everything above the transport runs unchanged. Tokens are unsigned JWTs, which is all the
+// client reads; accounts, sessions and saved maps persist through data/mockStorage.ts.
+import { RequestFn, apiTileSchema } from '../utils/apiClient';
+import { decodeJwt } from '../auth/jwt';
+import { collectErrors, validateEmail, validatePassword, validateUsername } from '../auth/validation';
+import { getChunkHexes } from '../utils/chunks';
+import { hexKey } from '../utils/hex';
+import { MapGenerator, createMapGenerator } from '../utils/mapGenerator';
+import { MapParent, formatMapParents, getDefaultMapPath, getMapKey, parseMapParents } from '../utils/mapHierarchy';
+import { SchemaError, array, number, object, optional, string } from '../utils/schema';
+import { generateDummyGameState } from './dummyGameData';
+import { MOCK_MAP_SEED } from './mockChunkSource';
+import { MockSavedMap, MockUser, getMockStorage } from './mockStorage';
+
+const ACCESS_TOKEN_LIFETIME_S = 15 * 60;
+
+const mapEditsSchema = optional(array(object({ level: number(), parents: string(), tiles: array(apiTileSchema) })));
+
+interface MockBackendOptions {
+  seed?: number;
+  // Simulated network delay in milliseconds
+  latency?: number;
+}
+
+interface MockRequest {
+  params: string[];
+  query: URLSearchParams;
+  // Parsed JSON body, {} without one
+  body: { [field: string]: unknown };
+}
+
+// Requests to routes that need an access token carry the id of its user
+interface AuthenticatedRequest extends MockRequest {
+  userId: string;
+}
+
+// The procedural map a user looked at last, which /maps/procedural/save saves without a body
+interface ViewedMap {
+  size: number;
+  level: number;
+  path: MapParent[];
+}
+
+type Route = { method: string; path: RegExp } & (
+  | { authenticated: false; handle: (request: MockRequest) => Promise<Response> }
+  | { authenticated: true; handle: (request: AuthenticatedRequest) => Promise<Response> }
+);
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const encodeBase64Url = (value: object) =>
+  btoa(String.fromCharCode(...Array.from(new TextEncoder().encode(JSON.stringify(value)))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const createAccessToken = (user: MockUser) => {
+  const now = Math.floor(Date.now() / 1000);
+  const claims = { sub: user.id, username: user.username, iat: now, exp: now + ACCESS_TOKEN_LIFETIME_S };
+  return `${encodeBase64Url({ alg: 'none', typ: 'JWT' })}.${encodeBase64Url(claims)}.mock`;
+};
+
+const hashPassword = async (password: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const getString = (body: MockRequest['body'], field: string) =>
+  typeof body[field] === 'string' ? (body[field] as string) : '';
+
+export const createMockBackend = ({ seed = MOCK_MAP_SEED, latency = 0 }: MockBackendOptions = {}): RequestFn => {
+  const storage = getMockStorage();
+  // By map radius and seed
+  const generators = new Map<string, MapGenerator>();
+  const viewedMaps = new Map<string, ViewedMap>();
+
+  const getGenerator = (size: number, mapSeed = seed) => {
+    const key = `${size}:${mapSeed}`;
+    let generator = generators.get(key);
+    if (!generator) {
+      generator = createMapGenerator({ mapRadius: size, seed: mapSeed });
+      generators.set(key, generator);
+    }
+    return generator;
+  };
+
+  const createSession = async (user: MockUser) => {
+    const refreshToken = crypto.randomUUID();
+    await storage.sessions.put(refreshToken, user.id);
+    return json(200, { access_token: createAccessToken(user), refresh_token: refreshToken });
+  };
+
+  const findUser = async (predicate: (user: MockUser) => boolean) =>
+    (await storage.users.getAll()).find(predicate);
+
+  // Auth
+  /************************************************************************************************************************************************** */
+
+  const login = async ({ body }: MockRequest) => {
+    const user = await storage.users.get(getString(body, 'username'));
+    if (!user || user.passwordHash !== (await hashPassword(getString(body, 'password')))) {
+      return json(401, { detail: 'Incorrect username or password.' });
+    }
+    return createSession(user);
+  };
+
+  const register = async ({ body }: MockRequest) => {
+    const username = getString(body, 'username');
+    const email = getString(body, 'email');
+    const password = getString(body, 'password');
+
+    const errors = collectErrors({
+      username: validateUsername(username),
+      email: validateEmail(email),
+      password: validatePassword(password),
+    });
+    if (Object.keys(errors).length > 0) return json(422, { detail: 'Invalid registration.', errors });
+    if (await storage.users.get(username)) {
+      return json(409, { detail: 'Username is already taken.', errors: { username: 'Username is already taken.' } });
+    }
+    if (await findUser((user) => user.email === email)) {
+      return json(409, { detail: 'Email is already registered.', errors: { email: 'Email is already registered.' } });
+    }
+
+    const user: MockUser = { id: crypto.randomUUID(), username, email, passwordHash: await hashPassword(password) };
+    await storage.users.put(username, user);
+    return createSession(user);
+  };
+
+  const refresh = async ({ body }: MockRequest) => {
+    const userId = await storage.sessions.get(getString(body, 'refresh_token'));
+    const user = userId ? await findUser(({ id }) => id === userId) : undefined;
+    if (!user) return json(401, { detail: 'Session expired.' });
+    return json(200, { access_token: createAccessToken(user) });
+  };
+
+  const logout = async ({ body }: MockRequest) => {
+    await storage.sessions.delete(getString(body, 'refresh_token'));
+    return json(200, { message: 'Logged out.' });
+  };
+
+  // There is no mail to send, so the reset link goes to the console
+  const forgotPassword = async ({ body }: MockRequest) => {
+    const user = await findUser(({ email }) => email === getString(body, 'email'));
+    if (user) {
+      const token = crypto.randomUUID();
+      await storage.resetTokens.put(token, user.id);
+      console.info(`Mock password reset link: /reset-password?token=${token}`);
+    }
+    return json(200, { message: 'If that email is registered, a reset link is on its way.' });
+  };
+
+  const resetPassword = async ({ body }: MockRequest) => {
+    const token = getString(body, 'token');
+    const userId = await storage.resetTokens.get(token);
+    const user = userId ? await findUser(({ id }) => id === userId) : undefined;
+    if (!user) return json(400, { detail: 'This reset link is invalid or has already been used.' });
+
+    const password = getString(body, 'password');
+    const passwordError = validatePassword(password);
+    if (passwordError) return json(422, { detail: passwordError, errors: { password: passwordError } });
+
+    await storage.users.put(user.username, { ...user, passwordHash: await hashPassword(password) });
+    await storage.resetTokens.delete(token);
+    return json(200, { message: 'Password updated.' });
+  };
+
+  // Maps
+  /************************************************************************************************************************************************** */
+
+  // The default map of the level, see getDefaultMapPath
+  const getProceduralMap = async ({ params, query, userId }: AuthenticatedRequest) => {
+    const size = Number(params[0]);
+    const level = Number(query.get('level') ?? 1);
+    const { tiles } = generateDummyGameState(size, level, seed);
+    viewedMaps.set(userId, { size, level, path: getDefaultMapPath(level) });
+    return json(200, { tiles: tiles.map(({ q, r, terrain }) => ({ q, r, terrain })) });
+  };
+
+  const getMapChunk = async ({ params, query, userId }: AuthenticatedRequest) => {
+    const [size, chunkQ, chunkR] = params.map(Number);
+    const level = Number(query.get('level') ?? 1);
+    const path = parseMapParents(query.get('parents') ?? '', level);
+    const chunkSize = Number(query.get('chunk_size'));
+    const generator = getGenerator(size);
+
+    viewedMaps.set(userId, { size, level, path });
+    const tiles = getChunkHexes({ q: chunkQ, r: chunkR }, chunkSize, size).map(({ q, r }) => ({
+      q,
+      r,
+      terrain: generator.getTerrain(q, r, { level, path }),
+    }));
+    return json(200, { tiles });
+  };
+
+  const toApiSavedMap = (map: MockSavedMap) => ({
+    id: map.id,
+    name: map.name,
+    size: map.size,
+    level: map.level,
+    parents: formatMapParents(map.path),
+    owner_name: map.ownerName,
+    created_at: map.createdAt,
+    thumbnail: map.thumbnail,
+  });
+
+  // Saves what the body describes, or else the procedural map the user looked at last. A map
+  // saved `based_on` another one keeps its world and edits, with the new edits on top.
+  const saveProceduralMap = async ({ body, userId }: AuthenticatedRequest) => {
+    const viewed: ViewedMap | undefined =
+      typeof body.size === 'number' && typeof body.level === 'number'
+        ? { size: body.size, level: body.level, path: parseMapParents(getString(body, 'parents'), body.level) }
+        : viewedMaps.get(userId);
+    if (!viewed) return json(400, { detail: 'Load a map before saving it.' });
+
+    const basedOnId = getString(body, 'based_on');
+    const basedOn = basedOnId ? await storage.maps.get(basedOnId) : undefined;
+    if (basedOnId && !basedOn) return json(404, { detail: 'Map not found.' });
+
+    let newEdits;
+    try {
+      newEdits = mapEditsSchema.parse(body.edits, 'edits') ?? [];
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      return json(422, { detail: error.message });
+    }
+    const edits: NonNullable<MockSavedMap['edits']> = { ...basedOn?.edits };
+    newEdits.forEach(({ level, parents, tiles }) => {
+      const mapKey = getMapKey({ level, path: parseMapParents(parents, level) });
+      edits[mapKey] = { ...edits[mapKey] };
+      tiles.forEach((tile) => (edits[mapKey][hexKey(tile.q, tile.r)] = tile));
+    });
+
+    const owner = await findUser(({ id }) => id === userId);
+    const id = crypto.randomUUID();
+    await storage.maps.put(id, {
+      id,
+      name: getString(body, 'name').trim() || `Level ${viewed.level} map`,
+      ownerId: userId,
+      ownerName: owner?.username ?? 'unknown',
+      seed: basedOn?.seed ?? seed,
+      createdAt: new Date().toISOString(),
+      thumbnail: typeof body.thumbnail === 'string' ? body.thumbnail : null,
+      edits,
+      ...viewed,
+    });
+    return json(200, { map_id: id });
+  };
+
+  const listMaps = async () => {
+    const maps = await storage.maps.getAll();
+    maps.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return json(200, { maps: maps.map(toApiSavedMap) });
+  };
+
+  const getSavedMap = async ({ params }: AuthenticatedRequest) => {
+    const map = await storage.maps.get(params[0]);
+    if (!map) return json(404, { detail: 'Map not found.' });
+    return json(200, toApiSavedMap(map));
+  };
+
+  const renameMap = async ({ params, body, userId }: AuthenticatedRequest) => {
+    const map = await storage.maps.get(params[0]);
+    if (!map) return json(404, { detail: 'Map not found.' });
+    if (map.ownerId !== userId) return json(403, { detail: 'Only the owner can rename this map.' });
+
+    const name = getString(body, 'name').trim();
+    if (!name) return json(422, { detail: 'Name is required.', errors: { name: 'Name is required.' } });
+    const renamed = { ...map, name };
+    await storage.maps.put(map.id, renamed);
+    return json(200, toApiSavedMap(renamed));
+  };
+
+  const deleteMap = async ({ params, userId }: AuthenticatedRequest) => {
+    const map = await storage.maps.get(params[0]);
+    if (!map) return json(404, { detail: 'Map not found.' });
+    if (map.ownerId !== userId) return json(403, { detail: 'Only the owner can delete this map.' });
+
+    await storage.maps.delete(map.id);
+    return json(200, { message: 'Map deleted.' });
+  };
+
+  // Saved maps keep the seed they were saved with, so they show the same world later on,
+  // and serve the tiles changed in the editor over it
+  const getSavedMapChunk = async ({ params, query }: AuthenticatedRequest) => {
+    const map = await storage.maps.get(params[0]);
+    if (!map) return json(404, { detail: 'Map not found.' });
+
+    const [chunkQ, chunkR] = params.slice(1).map(Number);
+    const level = Number(query.get('level') ?? map.level);
+    const path = parseMapParents(query.get('parents') ?? '', level);
+    const chunkSize = Number(query.get('chunk_size'));
+    const generator = getGenerator(map.size, map.seed);
+    const edits = map.edits?.[getMapKey({ level, path })];
+    const tiles = getChunkHexes({ q: chunkQ, r: chunkR }, chunkSize, map.size).map(
+      ({ q, r }) => edits?.[hexKey(q, r)] ?? { q, r, terrain: generator.getTerrain(q, r, { level, path }) }
+    );
+    return json(200, { tiles });
+  };
+
+  // Routing
+  /************************************************************************************************************************************************** */
+
+  const routes: Route[] = [
+    { method: 'POST', path: /^\/auth\/login$/, authenticated: false, handle: login },
+    { method: 'POST', path: /^\/auth\/register$/, authenticated: false, handle: register },
+    { method: 'POST', path: /^\/auth\/refresh$/, authenticated: false, handle: refresh },
+    { method: 'POST', path: /^\/auth\/logout$/, authenticated: false, handle: logout },
+    { method: 'POST', path: /^\/auth\/forgot-password$/, authenticated: false, handle: forgotPassword },
+    { method: 'POST', path: /^\/auth\/reset-password$/, authenticated: false, handle: resetPassword },
+    { method: 'POST', path: /^\/maps\/procedural\/save$/, authenticated: true, handle: saveProceduralMap },
+    { method: 'GET', path: /^\/maps\/procedural\/(\d+)$/, authenticated: true, handle: getProceduralMap },
+    {
+      method: 'GET',
+      path: /^\/maps\/procedural\/(\d+)\/chunks\/(-?\d+)\/(-?\d+)$/,
+      authenticated: true,
+      handle: getMapChunk,
+    },
+    { method: 'GET', path: /^\/maps$/, authenticated: true, handle: listMaps },
+    { method: 'GET', path: /^\/maps\/([\w-]+)$/, authenticated: true, handle: getSavedMap },
+    { method: 'PATCH', path: /^\/maps\/([\w-]+)$/, authenticated: true, handle: renameMap },
+    { method: 'DELETE', path: /^\/maps\/([\w-]+)$/, authenticated: true, handle: deleteMap },
+    {
+      method: 'GET',
+      path: /^\/maps\/([\w-]+)\/chunks\/(-?\d+)\/(-?\d+)$/,
+      authenticated: true,
+      handle: getSavedMapChunk,
+    },
+  ];
+
+  // Expired or missing tokens get a 401 like the backend gives, so the client refreshes
+  const getUserId = (authorization: string | null) => {
+    const claims = decodeJwt(authorization?.replace(/^Bearer /, '') ?? null);
+    if (!claims || typeof claims.sub !== 'string') return null;
+    return typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now() ? null : claims.sub;
+  };
+
+  return async (url, options = {}) => {
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+
+    const { pathname, searchParams } = new URL(url, 'http://mock');
+    const path = pathname.replace(/^.*\/api\/v1/, '');
+    const method = (options.method ?? 'GET').toUpperCase();
+    const route = routes.find((candidate) => candidate.method === method && candidate.path.test(path));
+    if (!route) return json(404, { detail: `No mock for ${method} ${path}` });
+
+    let body: MockRequest['body'] = {};
+    try {
+      body = typeof options.body === 'string' ? JSON.parse(options.body) : {};
+    } catch {
+      return json(400, { detail: 'Body is not valid JSON.' });
+    }
+    const request: MockRequest = { params: route.path.exec(path)?.slice(1) ?? [], query: searchParams, body };
+
+    if (!route.authenticated) return route.handle(request);
+    const userId = getUserId(new Headers(options.headers).get('Authorization'));
+    if (!userId) return json(401, { detail: 'Not authenticated.' });
+    return route.handle({ ...request, userId });
+  };
+};
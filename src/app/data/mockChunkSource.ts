@@ -0,0 +1,32 @@
+// app/data/mockChunkSource.ts
+
+import { ChunkSource } from '../utils/chunkSource';
+import { getChunkHexes } from '../utils/chunks';
+import { DEFAULT_MAP_SEED, createMapGenerator } from '../utils/mapGenerator';
+
+// Shared with the mock realtime server, which has to see the same maps to enforce rules
+export const MOCK_MAP_SEED = Number(process.env.NEXT_PUBLIC_MAP_SEED) || DEFAULT_MAP_SEED;
+
+interface MockChunkSourceOptions {
+  mapRadius: number;
+  seed?: number;
+  // Simulated network delay in milliseconds
+  latency?: number;
+}
+
+// Stand-in for the chunk endpoint, serving generated maps without a backend
+export const createMockChunkSource = ({ mapRadius, seed = MOCK_MAP_SEED, latency = 0 }: MockChunkSourceOptions): ChunkSource => {
+  const generator = createMapGenerator({ mapRadius, seed });
+
+  return {
+    fetchChunk: async (chunk, map, chunkSize) => {
+      if (latency > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latency));
+      }
+
+      const tiles = getChunkHexes(chunk, chunkSize, mapRadius).map(({ q, r }) => generator.getTile(q, r, map));
+
+      return { q: chunk.q, r: chunk.r, level: map.level, tiles };
+    },
+  };
+};
@@ -0,0 +1,459 @@
+// app/data/mockRealtimeServer.ts
+
+import { PlayerData, PlayerPosition, Resource, TileData } from '../types/gameTypes';
+import { BUILDINGS, BuildingType, TERRAINS, getBuildingEffects } from './content';
+import { MOCK_MAP_SEED } from './mockChunkSource';
+import { getUserFromToken } from '../auth/jwt';
+import { getPlacementError } from '../utils/buildings';
+import { collectIncome, computeIncome } from '../utils/economy';
+import { Axial, hexDistance, hexKey, hexNeighbors, hexRange, hexRing, parseHexKey } from '../utils/hex';
+import { MapLocation, getDefaultMapPath, getMapKey } from '../utils/mapHierarchy';
+import { createMapGenerator } from '../utils/mapGenerator';
+import { spendResources } from '../utils/resources';
+import { getClaimError } from '../utils/territory';
+import {
+  ClientMessage,
+  RealtimeSocket,
+  SocketFactory,
+  SocketHandlers,
+  UNAUTHORIZED_CLOSE_CODE,
+  WirePlayer,
+  WireTileUpdate,
+} from '../utils/realtime';
+
+const botColors = ['#E91E63', '#9C27B0', '#FF9800', '#00BCD4', '#CDDC39'];
+const localColor = '#FF0000';
+// What a newly connected player starts with, enough for a few buildings
+const startingResources: Resource[] = [
+  { type: 'wood', amount: 100 },
+  { type: 'stone', amount: 50 },
+  { type: 'food', amount: 20 },
+];
+
+interface MockRealtimeServerOptions {
+  mapRadius: number;
+  // Has to match the chunk source the clients load their maps from
+  seed?: number;
+  // Wandering players that claim tiles, spawned on every map someone subscribes to
+  botsPerMap?: number;
+  // How long a bot takes over its turn
+  tickInterval?: number;
+  // Simulated network delay in milliseconds
+  latency?: number;
+  // Keeps the game across page loads
+  storage?: MockServerStorage;
+}
+
+interface MockTile {
+  ownerId: string | null;
+  building: BuildingType | null;
+}
+
+// What is kept of the game between page loads. Bots are not, they are spawned again.
+export interface MockServerState {
+  turnNumber: number;
+  players: PlayerData[];
+  maps: { location: MapLocation; tiles: (Axial & MockTile)[] }[];
+}
+
+export interface MockServerStorage {
+  load: () => Promise<MockServerState | undefined>;
+  save: (state: MockServerState) => Promise<void>;
+}
+
+interface MockMap {
+  key: string;
+  location: MapLocation;
+  tiles: Map<string, MockTile>;
+}
+
+interface MockClient {
+  handlers: SocketHandlers;
+  playerId: string | null;
+  map: MockMap | null;
+}
+
+/**
+ * In-memory stand-in for the realtime endpoint, speaking the protocol in utils/realtime.ts.
+ * Several connections can share one server to simulate multiple players, and
+ * dropConnections() simulates an outage to exercise reconnecting. Players, bots included,
+ * take turns in the order they joined.
+ */
+export const createMockRealtimeServer = ({
+  mapRadius,
+  seed = MOCK_MAP_SEED,
+  botsPerMap = 3,
+  tickInterval = 1500,
+  latency = 0,
+  storage,
+}: MockRealtimeServerOptions) => {
+  const generator = createMapGenerator({ mapRadius, seed });
+  const clients = new Set<MockClient>();
+  const players = new Map<string, PlayerData>();
+  // Players who left, taken up again when they come back
+  const offlinePlayers = new Map<string, PlayerData>();
+  const maps = new Map<string, MockMap>();
+  const botIds: string[] = [];
+  // The map every bot wanders on
+  const botMaps = new Map<string, MockMap>();
+  let ticker: ReturnType<typeof setInterval> | null = null;
+  let turnNumber = 1;
+  let activePlayerId: string | null = null;
+
+  const toWirePlayer = (player: PlayerData): WirePlayer => ({
+    id: player.id,
+    name: player.name,
+    color: player.color,
+    resources: player.resources,
+    position: player.position ?? null,
+  });
+
+  const getMap = (location: MapLocation) => {
+    const key = getMapKey(location);
+    let map = maps.get(key);
+    if (!map) {
+      map = { key, location, tiles: new Map() };
+      maps.set(key, map);
+    }
+    return map;
+  };
+
+  const restore = (state: MockServerState) => {
+    turnNumber = state.turnNumber;
+    state.players.forEach((player) => offlinePlayers.set(player.id, player));
+    state.maps.forEach(({ location, tiles }) => {
+      const map = getMap(location);
+      tiles.forEach(({ q, r, ownerId, building }) => map.tiles.set(hexKey(q, r), { ownerId, building }));
+    });
+  };
+
+  // Connections open once the stored game is back
+  const restored = storage
+    ? storage
+        .load()
+        .then((state) => state && restore(state))
+        .catch((error) => console.error('Could not load the stored game:', error))
+    : Promise.resolve();
+
+  const persist = () => {
+    if (!storage) return;
+    const state: MockServerState = {
+      turnNumber,
+      players: [...Array.from(players.values()), ...Array.from(offlinePlayers.values())].filter(
+        (player) => !botIds.includes(player.id)
+      ),
+      maps: Array.from(maps.values(), ({ location, tiles }) => ({
+        location,
+        tiles: Array.from(tiles, ([key, tile]) => ({ ...parseHexKey(key), ...tile })),
+      })),
+    };
+    storage.save(state).catch((error) => console.error('Could not store the game:', error));
+  };
+
+  const deliver = (client: MockClient, message: object) => {
+    const data = JSON.stringify(message);
+    setTimeout(() => {
+      if (clients.has(client)) client.handlers.onMessage(data);
+    }, latency);
+  };
+
+  // To the clients on one map, or to everyone for a null map
+  const broadcast = (message: object, map: MockMap | null, except?: MockClient) => {
+    clients.forEach((client) => {
+      if (client === except || client.playerId === null) return;
+      if (map === null || client.map === map) deliver(client, message);
+    });
+  };
+
+  const sendSnapshot = (client: MockClient, map: MockMap) => {
+    const tiles: WireTileUpdate[] = [];
+    map.tiles.forEach(({ ownerId, building }, key) => {
+      const { q, r } = parseHexKey(key);
+      tiles.push({ q, r, owner_id: ownerId, building });
+    });
+    deliver(client, {
+      type: 'snapshot',
+      player_id: client.playerId,
+      level: map.location.level,
+      players: Array.from(players.values(), toWirePlayer),
+      tiles,
+    });
+  };
+
+  const spawnBots = (map: MockMap) => {
+    if (botIds.some((id) => botMaps.get(id) === map)) return;
+
+    // Spread out evenly on a ring halfway to the map edge
+    const spawns = hexRing({ q: 0, r: 0 }, Math.floor(mapRadius / 2));
+    const { level } = map.location;
+    for (let i = 0; i < botsPerMap; i++) {
+      const id = `bot-${map.key}-${i}`;
+      const spawn = spawns[Math.floor((i * spawns.length) / botsPerMap)];
+      const player: PlayerData = {
+        id,
+        name: `Bot ${i + 1}`,
+        color: botColors[botIds.length % botColors.length],
+        resources: [],
+        position: { ...spawn, level },
+      };
+      players.set(id, player);
+      botIds.push(id);
+      botMaps.set(id, map);
+      broadcast({ type: 'player_joined', player: toWirePlayer(player) }, null);
+    }
+  };
+
+  const moveBot = (bot: PlayerData) => {
+    const position = bot.position;
+    const map = botMaps.get(bot.id);
+    if (!position || !map) return;
+
+    const options = hexNeighbors(position).filter(
+      (hex) => hexDistance(hex, { q: 0, r: 0 }) <= mapRadius
+    );
+    const next = options[Math.floor(Math.random() * options.length)];
+    if (!next) return;
+
+    bot.position = { ...next, level: position.level };
+    broadcast({ type: 'player_moved', player_id: bot.id, position: bot.position }, null);
+
+    // Bots claim most tiles they walk onto and sometimes build on them
+    if (Math.random() < 0.6) {
+      const tile = map.tiles.get(hexKey(next.q, next.r)) ?? { ownerId: null, building: null };
+      const building = tile.building ?? (Math.random() < 0.15 ? 'outpost' : null);
+      updateTiles(map, [{ q: next.q, r: next.r, ownerId: bot.id, building }]);
+    }
+  };
+
+  const turnMessage = () => ({ type: 'turn', number: turnNumber, player_id: activePlayerId });
+
+  // Hands the turn to the next player in joining order; a new round starts after the last one
+  const advanceTurn = () => {
+    const order = Array.from(players.keys());
+    const index = activePlayerId ? order.indexOf(activePlayerId) : -1;
+    if (order.length === 0) {
+      activePlayerId = null;
+      return;
+    }
+    const next = (index + 1) % order.length;
+    if (index >= 0 && next <= index) turnNumber++;
+    activePlayerId = order[next];
+    broadcast(turnMessage(), null);
+  };
+
+  // Bots make one move on their turn and pass it on
+  const tick = () => {
+    const bot = activePlayerId && botIds.includes(activePlayerId) ? players.get(activePlayerId) : undefined;
+    if (!bot) return;
+    moveBot(bot);
+    advanceTurn();
+    persist();
+  };
+
+  const updateTicker = () => {
+    if (clients.size > 0 && !ticker) ticker = setInterval(tick, tickInterval);
+    if (clients.size === 0 && ticker) {
+      clearInterval(ticker);
+      ticker = null;
+    }
+  };
+
+  const removeClient = (client: MockClient, code: number, reason: string) => {
+    if (!clients.delete(client)) return;
+    updateTicker();
+
+    const { playerId } = client;
+    const stillConnected = Array.from(clients).some((other) => other.playerId === playerId);
+    if (playerId && !stillConnected) {
+      if (playerId === activePlayerId) advanceTurn();
+      const player = players.get(playerId);
+      if (player) offlinePlayers.set(playerId, player);
+      players.delete(playerId);
+      broadcast({ type: 'player_left', player_id: playerId }, null);
+    }
+    setTimeout(() => client.handlers.onClose(code, reason), latency);
+  };
+
+  // The tile as a client sees it, so the server can apply the same rules as the client
+  const getTileData = (map: MockMap, q: number, r: number): TileData | null => {
+    if (hexDistance({ q, r }, { q: 0, r: 0 }) > mapRadius) return null;
+    const tile = map.tiles.get(hexKey(q, r));
+    return {
+      ...generator.getTile(q, r, map.location),
+      ownerId: tile?.ownerId ?? null,
+      building: tile?.building ?? null,
+    };
+  };
+
+  // Changes tiles of one map and tells every client on it
+  const updateTiles = (map: MockMap, updates: (Axial & MockTile)[]) => {
+    updates.forEach(({ q, r, ownerId, building }) => map.tiles.set(hexKey(q, r), { ownerId, building }));
+    broadcast(
+      {
+        type: 'tile_update',
+        level: map.location.level,
+        tiles: updates.map(({ q, r, ownerId, building }) => ({ q, r, owner_id: ownerId, building })),
+      },
+      map
+    );
+  };
+
+  // Owned tiles on every map pay out; the fresh snapshot tells the client its new stockpile
+  const handleEndTurn = (client: MockClient, player: PlayerData) => {
+    const owned: TileData[] = [];
+    maps.forEach((map) => {
+      map.tiles.forEach(({ ownerId }, key) => {
+        const { q, r } = parseHexKey(key);
+        const tile = ownerId === player.id ? getTileData(map, q, r) : null;
+        if (tile) owned.push(tile);
+      });
+    });
+    player.resources = collectIncome(player.resources, computeIncome(player.id, owned));
+    if (client.map) sendSnapshot(client, client.map);
+    advanceTurn();
+  };
+
+  const handleBuild = (client: MockClient, map: MockMap, player: PlayerData, message: Extract<ClientMessage, { type: 'build' }>) => {
+    const { q, r, building } = message;
+    const tile = getTileData(map, q, r);
+    const error = getPlacementError(tile, building, player);
+    if (!tile || error) {
+      deliver(client, { type: 'error', message: error ?? 'There is no tile here.' });
+      return;
+    }
+
+    player.resources = spendResources(player.resources, BUILDINGS[building].cost);
+    const radius = Math.max(0, ...getBuildingEffects(building, 'claim').map((effect) => effect.radius));
+    const claimed = hexRange(tile, radius)
+      .map((hex) => getTileData(map, hex.q, hex.r))
+      .filter((other): other is TileData => !!other && !other.ownerId && !!TERRAINS[other.terrain].claimCost)
+      .map((other) => ({ q: other.q, r: other.r, ownerId: player.id, building: other.building }));
+    updateTiles(map, [...claimed.filter((other) => other.q !== q || other.r !== r), { q, r, ownerId: player.id, building }]);
+  };
+
+  const handleClaim = (client: MockClient, map: MockMap, player: PlayerData, message: Extract<ClientMessage, { type: 'claim' }>) => {
+    const { q, r, level } = message;
+    const tile = getTileData(map, q, r);
+    const position = player.position?.level === level ? player.position : { q, r };
+    const error = getClaimError(tile, player, position, (tq, tr) => getTileData(map, tq, tr));
+    if (!tile || error) {
+      deliver(client, { type: 'error', message: error ?? 'There is no tile here.' });
+      return;
+    }
+
+    player.resources = spendResources(player.resources, TERRAINS[tile.terrain].claimCost ?? {});
+    updateTiles(map, [{ q, r, ownerId: player.id, building: tile.building }]);
+  };
+
+  const handleMessage = (client: MockClient, message: ClientMessage) => {
+    if (message.type === 'auth') {
+      if (!message.token) {
+        removeClient(client, UNAUTHORIZED_CLOSE_CODE, 'Unauthorized');
+        return;
+      }
+      const user = getUserFromToken(message.token);
+      const id = user?.id ?? 'local';
+      client.playerId = id;
+      if (!players.has(id)) {
+        const player: PlayerData = offlinePlayers.get(id) ?? {
+          id,
+          name: user?.username ?? 'You',
+          color: localColor,
+          resources: startingResources,
+          position: null,
+        };
+        offlinePlayers.delete(id);
+        players.set(id, player);
+        broadcast({ type: 'player_joined', player: toWirePlayer(player) }, null, client);
+      }
+      if (activePlayerId === null) activePlayerId = id;
+      deliver(client, turnMessage());
+      return;
+    }
+
+    if (client.playerId === null) {
+      removeClient(client, UNAUTHORIZED_CLOSE_CODE, 'Not authenticated');
+      return;
+    }
+
+    const player = players.get(client.playerId);
+    if (message.type === 'subscribe') {
+      // Clients that predate map paths get the default map of the level
+      client.map = getMap({ level: message.level, path: message.path ?? getDefaultMapPath(message.level) });
+      spawnBots(client.map);
+      sendSnapshot(client, client.map);
+      return;
+    }
+
+    if (!player) return;
+    // Changing levels is not a move, so it is allowed at any time
+    const changesLevel = message.type === 'move' && message.level !== player.position?.level;
+    if (player.id !== activePlayerId && !changesLevel) {
+      deliver(client, { type: 'error', message: 'It is not your turn.' });
+      return;
+    }
+
+    if (message.type === 'move') {
+      const position: PlayerPosition = { q: message.q, r: message.r, level: message.level };
+      player.position = position;
+      broadcast({ type: 'player_moved', player_id: player.id, position }, null, client);
+    } else if (message.type === 'build' || message.type === 'claim') {
+      // Only the map the client is subscribed to can be changed
+      const map = client.map;
+      if (!map || map.location.level !== message.level) {
+        deliver(client, { type: 'error', message: `Not subscribed to a level ${message.level} map` });
+      } else if (message.type === 'build') {
+        handleBuild(client, map, player, message);
+      } else {
+        handleClaim(client, map, player, message);
+      }
+    } else if (message.type === 'end_turn') {
+      handleEndTurn(client, player);
+    }
+  };
+
+  const connect: SocketFactory = (_url, handlers) => {
+    const client: MockClient = { handlers, playerId: null, map: null };
+    let closed = false;
+
+    restored.then(() =>
+      setTimeout(() => {
+        if (closed) return;
+        clients.add(client);
+        updateTicker();
+        handlers.onOpen();
+      }, latency)
+    );
+
+    const socket: RealtimeSocket = {
+      send: (data) => {
+        let message: ClientMessage;
+        try {
+          message = JSON.parse(data);
+        } catch {
+          deliver(client, { type: 'error', message: 'Invalid JSON' });
+          return;
+        }
+        setTimeout(() => {
+          if (!clients.has(client)) return;
+          handleMessage(client, message);
+          persist();
+        }, latency);
+      },
+      close: (code = 1000, reason = '') => {
+        closed = true;
+        removeClient(client, code, reason);
+      },
+    };
+    return socket;
+  };
+
+  // Closes every socket as if the server went away, e.g. to watch clients reconnect
+  const dropConnections = (code = 1006) => {
+    Array.from(clients).forEach((client) => removeClient(client, code, 'Connection lost'));
+  };
+
+  return { connect, dropConnections };
+};
+
+export type MockRealtimeServer = ReturnType<typeof createMockRealtimeServer>;
@@ -0,0 +1,75 @@
+// app/data/mockStorage.ts
+// Everything the in-browser mock backend keeps between page loads: accounts, sessions, saved
+// maps and the realtime game. Lives in IndexedDB, or in memory where there is none.
+import {
+  KeyValueStore,
+  createIndexedDbStore,
+  createMemoryStore,
+  isIndexedDbAvailable,
+  openDatabase,
+} from '../utils/indexedDb';
+import type { APITileData } from '../utils/apiClient';
+import { MapParent } from '../utils/mapHierarchy';
+import { MockServerState, MockServerStorage } from './mockRealtimeServer';
+
+const DATABASE_NAME = 'hexagon-game-mock';
+const DATABASE_VERSION = 1;
+
+export interface MockUser {
+  id: string;
+  username: string;
+  email: string;
+  // SHA-256 of the password, hex encoded
+  passwordHash: string;
+}
+
+export interface MockSavedMap {
+  id: string;
+  name: string;
+  ownerId: string;
+  ownerName: string;
+  // Map radius
+  size: number;
+  seed: number;
+  level: number;
+  path: MapParent[];
+  // ISO 8601
+  createdAt: string;
+  // Image data URL
+  thumbnail: string | null;
+  // Tiles changed in the map editor, by map key (see getMapKey) and then hexKey
+  edits?: { [mapKey: string]: { [key: string]: APITileData } };
+}
+
+const createMockStorage = () => {
+  const database = isIndexedDbAvailable()
+    ? openDatabase(DATABASE_NAME, DATABASE_VERSION, ['users', 'sessions', 'resetTokens', 'maps', 'game'])
+    : null;
+  const store = <T>(name: string): KeyValueStore<T> =>
+    database ? createIndexedDbStore<T>(database, name) : createMemoryStore<T>();
+
+  const game = store<MockServerState>('game');
+  const realtime: MockServerStorage = {
+    load: () => game.get('realtime'),
+    save: (state) => game.put('realtime', state),
+  };
+
+  return {
+    // By username
+    users: store<MockUser>('users'),
+    // User ids by refresh token
+    sessions: store<string>('sessions'),
+    // User ids by password reset token
+    resetTokens: store<string>('resetTokens'),
+    // By map id
+    maps: store<MockSavedMap>('maps'),
+    realtime,
+  };
+};
+
+export type MockStorage = ReturnType<typeof createMockStorage>;
+
+let mockStorage: MockStorage | null = null;
+
+// Opened on first use, so nothing touches IndexedDB unless the mock is in use
+export const getMockStorage = () => (mockStorage ??= createMockStorage());
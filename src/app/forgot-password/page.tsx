@@ -0,0 +1,10 @@
+import ForgotPassword from "../components/ForgotPassword";
+
+
+export default function ForgotPasswordPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-between">
+      <ForgotPassword/>
+    </main>
+  );
+}
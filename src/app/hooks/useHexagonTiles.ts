@@ -1,150 +1,123 @@
 // app/hooks/useHexagonTiles.ts
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import * as THREE from 'three';
-import { HexagonTile, HexagonTileProps } from '../components/HexagonTile';
-import { GameState, TileData } from '../types/gameTypes';
-import { useAuthenticatedRequest } from '../utils/api';
-import { InstancedMesh } from 'three';
-
-
-interface APITileData {
-  q: number;
-  r: number;
-  terrain: string;
-}
-
-export const useHexagonTiles = (size: number, tileSize: number, tileHeight: number, mapLevel: number) => {
-  const [tiles, setTiles] = useState<HexagonTile[]>([]);
+import { ChunkedTerrain } from '../components/ChunkedTerrain';
+import { bindTerrain } from '../components/sceneBindings';
+import { gameActions, selectMap } from '../store/gameStore';
+import { useGameStore, useGameStoreApi } from '../store/GameStoreContext';
+import { useApiClient } from '../utils/api';
+import { ChunkSource, createApiChunkSource, createMapFileChunkSource } from '../utils/chunkSource';
+import { createMockChunkSource } from '../data/mockChunkSource';
+import { MapFile, MapFileError, createMapFile, getImportedGame } from '../utils/mapFile';
+import { getMapKey } from '../utils/mapHierarchy';
+import { useMultiplayer } from './useMultiplayer';
+
+const useMockChunks = process.env.NEXT_PUBLIC_MOCK_CHUNKS === 'true';
+
+// Streams the terrain of the store's current map; loaded tiles are published to the store.
+// With a `savedMapId` the terrain comes from that saved map.
+export const useHexagonTiles = (size: number, tileSize: number, tileHeight: number, savedMapId?: string) => {
+  const store = useGameStoreApi();
+  const map = useGameStore(selectMap);
+  const [terrain, setTerrain] = useState<ChunkedTerrain | null>(null);
+  // The terrain of the map just left stays in the scene until releaseTerrain, so the level
+  // transition can show both maps at once
+  const [previousTerrain, setPreviousTerrain] = useState<ChunkedTerrain | null>(null);
+  const leftTerrainRef = useRef<ChunkedTerrain | null>(null);
   const [scene] = useState(() => new THREE.Scene());
-  const [gameState, setGameState] = useState<GameState | null>(null);
-  const authenticatedRequest = useAuthenticatedRequest();
-  const prevMapLevelRef = useRef(mapLevel);
-  const isFetchingRef = useRef(false);
-  const isInitialMountRef = useRef(true);
-  const instancedMeshesRef = useRef<{ [key: string]: InstancedMesh }>({});
-
-
-  const fetchTileData = useCallback(async () => {
-    if (isFetchingRef.current) return;
-    isFetchingRef.current = true;
-
-    try {
-      console.log(`Fetching data for level: ${mapLevel}`);
-      const response = await authenticatedRequest(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/v1/maps/procedural/${size}?level=${mapLevel}`);
-      if (!response.ok) {
-        throw new Error(`Network response was not ok: ${response.status} ${response.statusText}`);
-      }
-      const data = await response.json();
-      console.log('API Response:', data);
-
-      let apiTileData: APITileData[];
-
-      if (Array.isArray(data)) {
-        apiTileData = data;
-      } else if (typeof data === 'object' && data !== null) {
-        if (Array.isArray(data.tiles)) {
-          apiTileData = data.tiles;
-        } else if (Array.isArray(data.data)) {
-          apiTileData = data.data;
-        } else {
-          console.error('Unexpected data structure. Object keys:', Object.keys(data));
-          throw new Error('Unable to find tile data in the API response');
-        }
-      } else {
-        throw new Error(`Unexpected data type: ${typeof data}`);
-      }
-
-      const newGameState: GameState = {
-        tiles: apiTileData.map(tile => ({
-          ...tile,
-          ownerId: null,
-          resources: [],
-          building: null,
-          canInteract: true
-        } as TileData)),
-        players: []
-      };
-      
-      setGameState(newGameState);
-    } catch (error) {
-      console.error('Failed to fetch tile data:', error);
-      // Handle error (e.g., show error message to user)
-    } finally {
-      isFetchingRef.current = false;
-    }
-  }, [size, mapLevel, authenticatedRequest]);
+  const [error, setError] = useState<Error | null>(null);
+  const apiClient = useApiClient();
+  const apiClientRef = useRef(apiClient);
+  apiClientRef.current = apiClient;
+
+  // Stable for the lifetime of the map so token refreshes don't restart streaming. Saved maps
+  // always come from the API, where they were loaded from, as mock chunks only know the
+  // procedural map.
+  const [baseChunkSource] = useState<ChunkSource>(() =>
+    useMockChunks && !savedMapId
+      ? createMockChunkSource({ mapRadius: size, latency: 50 })
+      : createApiChunkSource(() => apiClientRef.current, size, savedMapId)
+  );
+  // Once a map file is imported its tiles win over the streamed ones
+  const [mapFile, setMapFile] = useState<MapFile | null>(null);
+  const chunkSource = useMemo(
+    () => (mapFile ? createMapFileChunkSource(mapFile, baseChunkSource) : baseChunkSource),
+    [mapFile, baseChunkSource]
+  );
+
+  useMultiplayer(size);
+
+  const releaseTerrain = useCallback((released: ChunkedTerrain) => {
+    scene.remove(released);
+    released.dispose();
+    setPreviousTerrain((current) => (current === released ? null : current));
+  }, [scene]);
 
   useEffect(() => {
-    if (isInitialMountRef.current) {
-      console.log('Initial mount, fetching data');
-      fetchTileData();
-      isInitialMountRef.current = false;
-    } else if (prevMapLevelRef.current !== mapLevel) {
-      console.log(`Map level changed from ${prevMapLevelRef.current} to ${mapLevel}`);
-      fetchTileData();
-    }
-    prevMapLevelRef.current = mapLevel;
-  }, [mapLevel, fetchTileData]);
-
-  useEffect(() => {
-    if (!gameState) return;
-
-    const newTiles: HexagonTile[] = [];
-
-    gameState.tiles.forEach((tileData: TileData) => {
-      const { q, r, terrain, ownerId } = tileData;
-      
-      const tileProps: HexagonTileProps = {
-        q,
-        r,
-        size: tileSize,
-        height: tileHeight,
-        color: getColorForTerrain(terrain, ownerId, gameState.players),
-        modelName: getModelNameForTerrain(terrain),
-        mapLevel,
-      };
-      
-      const tile = new HexagonTile(tileProps);
-      scene.add(tile);
-      newTiles.push(tile);
+    console.log(`Streaming map chunks for map: ${getMapKey(map)}`);
+
+    // Cleared once the terrain is replaced, so late chunks of the map left behind touch
+    // neither the store nor the error banner of the new map
+    let current = true;
+    const newTerrain = new ChunkedTerrain({
+      source: chunkSource,
+      size: tileSize,
+      height: tileHeight,
+      map,
+      mapRadius: size,
+      onTilesAdded: (tiles) => {
+        if (!current) return;
+        store.dispatch(gameActions.tilesAdded(tiles));
+        setError(null);
+      },
+      onTilesRemoved: (tiles) => {
+        if (current) store.dispatch(gameActions.tilesRemoved(tiles));
+      },
+      onChunkError: (chunkError) => {
+        if (current) setError(chunkError);
+      },
     });
+    const unbind = bindTerrain(store, newTerrain);
+    scene.add(newTerrain);
+    setTerrain(newTerrain);
+    setPreviousTerrain(leftTerrainRef.current);
+    setError(null);
 
-    setTiles(newTiles);
+    return () => {
+      current = false;
+      unbind();
+      newTerrain.stopLoading();
+      // Only one transition at a time, an older terrain still around goes now
+      if (leftTerrainRef.current) releaseTerrain(leftTerrainRef.current);
+      leftTerrainRef.current = newTerrain;
+    };
+  }, [chunkSource, size, tileSize, tileHeight, scene, map, store, releaseTerrain]);
 
+  useEffect(() => {
+    const leftTerrain = leftTerrainRef;
     return () => {
-      newTiles.forEach(tile => scene.remove(tile));
+      if (leftTerrain.current) releaseTerrain(leftTerrain.current);
     };
-  }, [gameState, tileSize, tileHeight, scene, mapLevel]);
+  }, [releaseTerrain]);
 
   const refreshTiles = useCallback(() => {
-    fetchTileData();
-  }, [fetchTileData]);
+    terrain?.reload();
+  }, [terrain]);
 
-  return { tiles, scene, gameState, refreshTiles };
-};
-
-
-function getColorForTerrain(terrain: string, ownerId: string | null, players: GameState['players']): string {
-  if (ownerId) {
-    const owner = players.find(player => player.id === ownerId);
-    if (owner) return owner.color;
-  }
+  // Throws a MapFileError for files of another map size
+  const importMapFile = useCallback((file: MapFile) => {
+    if (file.size !== size) {
+      throw new MapFileError(`This map file is for a map of radius ${file.size}, not ${size}.`);
+    }
+    setMapFile(file);
+    store.dispatch(gameActions.gameImported(getImportedGame(file)));
+  }, [size, store]);
 
-  switch (terrain) {
-    case 'grass': return '#4CAF50';
-    case 'forest': return '#2E7D32';
-    case 'mountain': return '#795548';
-    case 'water': return '#2196F3';
-    default: return '#9E9E9E';
-  }
-}
+  // The maps of an imported file are kept, with the current map as loaded now
+  const exportMapFile = useCallback(
+    () => createMapFile(store.getState(), size, mapFile?.maps),
+    [store, size, mapFile]
+  );
 
-function getModelNameForTerrain(terrain: string): string {
-  switch (terrain) {
-    case 'grass': return 'simple_tile_grass';
-    case 'forest': return 'simple_tile_forest';
-    case 'mountain': return 'simple_tile_mountain';
-    case 'water': return 'simple_tile_water';
-    default: return 'simple_tile_grass';
-  }
-}
\ No newline at end of file
+  return { terrain, previousTerrain, releaseTerrain, scene, error, refreshTiles, importMapFile, exportMapFile };
+};
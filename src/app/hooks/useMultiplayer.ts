@@ -0,0 +1,119 @@
+// app/hooks/useMultiplayer.ts
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../auth/AuthContext';
+import {
+  gameActions,
+  selectLastBuild,
+  selectLastClaim,
+  selectLastEndedTurn,
+  selectLocalPosition,
+  selectMap,
+} from '../store/gameStore';
+import { useGameStore, useGameStoreApi } from '../store/GameStoreContext';
+import {
+  RealtimeConnection,
+  ServerMessage,
+  SocketFactory,
+  createBrowserSocket,
+} from '../utils/realtime';
+import { DATA_SOURCE } from '../utils/dataSource';
+import { createMockRealtimeServer } from '../data/mockRealtimeServer';
+import { getMockStorage } from '../data/mockStorage';
+
+const useMockRealtime = process.env.NEXT_PUBLIC_MOCK_REALTIME === 'true';
+
+// Bridges the realtime channel and the game store: server messages become store actions,
+// and local player moves, buildings, claims and ended turns in the store are sent to the server
+export const useMultiplayer = (mapRadius: number) => {
+  const { isAuthenticated, getValidAccessToken, refreshAccessToken } = useAuth();
+  const store = useGameStoreApi();
+  const map = useGameStore(selectMap);
+  const [connection, setConnection] = useState<RealtimeConnection | null>(null);
+
+  // The mock data source keeps its game in IndexedDB, a mock realtime server on its own starts afresh
+  const [createSocket] = useState<SocketFactory>(() => {
+    if (DATA_SOURCE === 'mock') {
+      return createMockRealtimeServer({ mapRadius, latency: 30, storage: getMockStorage().realtime }).connect;
+    }
+    return useMockRealtime ? createMockRealtimeServer({ mapRadius, latency: 30 }).connect : createBrowserSocket;
+  });
+
+  const handleMessage = useCallback((message: ServerMessage) => {
+    switch (message.type) {
+      case 'snapshot':
+        store.dispatch(gameActions.playersSynced(message.players, message.playerId));
+        store.dispatch(gameActions.tilesUpdated(message.level, message.tiles, true));
+        break;
+      case 'tile_update':
+        store.dispatch(gameActions.tilesUpdated(message.level, message.tiles));
+        break;
+      case 'player_joined':
+        store.dispatch(gameActions.playerJoined(message.player));
+        break;
+      case 'player_left':
+        store.dispatch(gameActions.playerLeft(message.playerId));
+        break;
+      case 'player_moved':
+        store.dispatch(gameActions.playerMoved(message.playerId, message.position));
+        break;
+      case 'turn':
+        store.dispatch(gameActions.turnStarted(message.number, message.playerId));
+        break;
+      case 'error':
+        console.error('Realtime server error:', message.message);
+        break;
+    }
+  }, [store]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const newConnection = new RealtimeConnection({
+      createSocket,
+      getAccessToken: getValidAccessToken,
+      refreshAccessToken,
+      onMessage: handleMessage,
+      onStatusChange: (status) => store.dispatch(gameActions.connectionStatusChanged(status)),
+    });
+    newConnection.connect();
+    setConnection(newConnection);
+
+    return () => {
+      newConnection.disconnect();
+      setConnection(null);
+      store.dispatch(gameActions.playersCleared());
+    };
+  }, [isAuthenticated, getValidAccessToken, refreshAccessToken, createSocket, handleMessage, store]);
+
+  useEffect(() => {
+    connection?.subscribe(map);
+  }, [connection, map]);
+
+  useEffect(() => {
+    if (!connection) return;
+    return store.watch(selectLocalPosition, (position, previous) => {
+      if (previous) connection.move(position.q, position.r, position.level);
+    });
+  }, [connection, store]);
+
+  useEffect(() => {
+    if (!connection) return;
+    return store.watch(selectLastBuild, (order, previous) => {
+      if (order && previous !== undefined) connection.build(order.q, order.r, order.level, order.building);
+    });
+  }, [connection, store]);
+
+  useEffect(() => {
+    if (!connection) return;
+    return store.watch(selectLastClaim, (order, previous) => {
+      if (order && previous !== undefined) connection.claim(order.q, order.r, order.level);
+    });
+  }, [connection, store]);
+
+  useEffect(() => {
+    if (!connection) return;
+    return store.watch(selectLastEndedTurn, (turn, previous) => {
+      if (turn !== null && previous !== undefined) connection.endTurn();
+    });
+  }, [connection, store]);
+};
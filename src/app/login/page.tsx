@@ -1,10 +1,14 @@
+import { Suspense } from "react";
 import Login from "../components/Login";
 
 
 export default function Home() {
   return (
     <main className="flex min-h-screen flex-col items-center justify-between">
-      <Login/>
+      {/* Login reads returnTo from the query string */}
+      <Suspense>
+        <Login/>
+      </Suspense>
     </main>
   );
-}
\ No newline at end of file
+}
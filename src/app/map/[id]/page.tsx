@@ -0,0 +1,75 @@
+// app/map/[id]/page.tsx
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import HexagonalMap from "@/app/components/HexagonalMap";
+import RequireAuth from "@/app/auth/RequireAuth";
+import { SavedMap } from "@/app/types/gameTypes";
+import { useApiClient } from "@/app/utils/api";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle } from "lucide-react";
+
+// A saved map, opened at the level and map it was saved on
+function SavedMapView({ id }: { id: string }) {
+  const apiClient = useApiClient();
+  // Read through a ref so the map is loaded once per id, not again whenever the token refreshes
+  const apiClientRef = useRef(apiClient);
+  apiClientRef.current = apiClient;
+  const [map, setMap] = useState<SavedMap | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMap(null);
+    setError(null);
+    apiClientRef.current
+      .getSavedMap(id)
+      .then((savedMap) => !cancelled && setMap(savedMap))
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 p-4">
+        <Alert variant="destructive" className="w-auto max-w-md">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Failed to load map: {error}</AlertDescription>
+        </Alert>
+        <Link href="/" className="underline">
+          Back to the game
+        </Link>
+      </div>
+    );
+  }
+
+  if (!map) {
+    return <p className="flex min-h-screen items-center justify-center">Loading map...</p>;
+  }
+
+  // Keyed by id so opening another saved map starts a fresh game store and terrain
+  return (
+    <HexagonalMap
+      key={map.id}
+      size={map.size}
+      tileSize={1}
+      tileHeight={0.1}
+      initialMapLevel={map.location.level}
+      initialMapPath={map.location.path}
+      savedMapId={map.id}
+    />
+  );
+}
+
+export default function SavedMapPage({ params }: { params: { id: string } }) {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-between">
+      <RequireAuth>
+        <SavedMapView id={decodeURIComponent(params.id)} />
+      </RequireAuth>
+    </main>
+  );
+}
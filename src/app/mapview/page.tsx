@@ -4,61 +4,58 @@ import React, {
   useEffect,
   useRef,
   useState,
-  useCallback
+  useCallback,
+  useMemo
 } from "react";
 import { useAuth } from "@/app/auth/AuthContext"; // Adjust the import path if needed
+import { axialToWorld, hexCorners, hexKey } from "@/app/utils/hex";
+import { CHUNK_SIZE, getChunkWorldBounds, getMapChunks } from "@/app/utils/chunks";
+import { ChunkSource, createApiChunkSource } from "@/app/utils/chunkSource";
+import { getDefaultMapPath } from "@/app/utils/mapHierarchy";
+import { useApiClient } from "@/app/utils/api";
+import { TileData } from "@/app/types/gameTypes";
+import { TERRAINS, TerrainType } from "@/app/data/content";
+import RequireAuth from "@/app/auth/RequireAuth";
 
 /**
  * Example Next.js "page" component that:
- * 1. Fetches large hex map data from /procedural/512 using the access token from AuthContext.
+ * 1. Streams large hex map data from /maps/procedural/512 chunk by chunk, only for the part
+ *    of the map scrolled into view, through the authenticated API client.
  * 2. Draws the map on a scrollable HTML canvas in a flat-topped orientation.
- * 3. Provides a "Save Map" button to call /procedural/save.
+ * 3. Provides a "Save Map" button to call /maps/procedural/save.
  */
 
-type TileData = {
-  q: number;
-  r: number;
-  terrain: string;
-};
+// Radius of the procedural map served by the backend
+const mapRadius = 512;
 
-export default function LargeHexCanvas() {
+function LargeHexCanvas() {
   const { accessToken } = useAuth(); // from your AuthContext
-  const [tiles, setTiles] = useState<TileData[]>([]);
+  const apiClient = useApiClient();
+  const apiClientRef = useRef(apiClient);
+  apiClientRef.current = apiClient;
+  const [loadedTileCount, setLoadedTileCount] = useState(0);
+  const [streaming, setStreaming] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
+  const [chunkError, setChunkError] = useState<string | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chunkSourceRef = useRef<ChunkSource | null>(null);
+  const requestedChunksRef = useRef(new Set<string>());
 
   // Base tile radius for drawing
   const tileSize = 5;
   // Additional scale factor to compress the map
   const scaleFactor = 0.5;
-  // Use your environment variable for the backend URL
-  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:8080";
+  const hexRadius = tileSize * scaleFactor;
+
+  // Canvas offset so the map center (0,0) lands in the middle of the canvas
+  const offsetX = hexRadius * 1.5 * mapRadius + tileSize;
+  const offsetY = hexRadius * Math.sqrt(3) * mapRadius + tileSize;
 
   // Convert axial (q,r) to pixel coords for a flat-topped hex layout
-  // Reference: https://www.redblobgames.com/grids/hexagons/
   const axialToPixelFlat = (q: number, r: number) => {
-    const x = (3 / 2) * q;
-    const y = Math.sqrt(3) * (r + q / 2);
-    return {
-      x: x * tileSize * scaleFactor,
-      y: y * tileSize * scaleFactor,
-    };
-  };
-
-  // Assign colors by terrain type
-  const getColorForTerrain = (terrain: string): string => {
-    switch (terrain) {
-      case "water":
-        return "#2196F3";
-      case "grass":
-        return "#4CAF50";
-      case "forest":
-        return "#2E7D32";
-      case "mountain":
-        return "#795548";
-      default:
-        return "#9E9E9E";
-    }
+    const { x, z } = axialToWorld(q, r, hexRadius);
+    return { x, y: z };
   };
 
   // Draw a single hex
@@ -66,131 +63,116 @@ export default function LargeHexCanvas() {
     ctx: CanvasRenderingContext2D,
     cx: number,
     cy: number,
-    terrain: string
+    terrain: TerrainType
   ) => {
-    const fillColor = getColorForTerrain(terrain);
-    const r = tileSize * scaleFactor;
+    const fillColor = TERRAINS[terrain].color;
 
-    // For flat-top, each vertex is 60° from the next
     ctx.beginPath();
-    for (let i = 0; i < 6; i++) {
-      const angle = (Math.PI / 180) * 60 * i;
-      const vx = cx + r * Math.cos(angle);
-      const vy = cy + r * Math.sin(angle);
+    hexCorners(hexRadius).forEach(({ x, z }, i) => {
       if (i === 0) {
-        ctx.moveTo(vx, vy);
+        ctx.moveTo(cx + x, cy + z);
       } else {
-        ctx.lineTo(vx, vy);
+        ctx.lineTo(cx + x, cy + z);
       }
-    }
+    });
     ctx.closePath();
 
     ctx.fillStyle = fillColor;
     ctx.fill();
   };
 
-  // Compute bounding box
-  const computeBoundingBox = useCallback(
-    (tilesData: TileData[]) => {
-      if (tilesData.length === 0) {
-        return { minX: 0, maxX: 0, minY: 0, maxY: 0 };
-      }
-      let minX = Number.POSITIVE_INFINITY;
-      let maxX = Number.NEGATIVE_INFINITY;
-      let minY = Number.POSITIVE_INFINITY;
-      let maxY = Number.NEGATIVE_INFINITY;
-
-      for (const { q, r } of tilesData) {
-        const { x, y } = axialToPixelFlat(q, r);
-        if (x < minX) minX = x;
-        if (x > maxX) maxX = x;
-        if (y < minY) minY = y;
-        if (y > maxY) maxY = y;
-      }
-      return { minX, maxX, minY, maxY };
-    },
-    []
-  );
-
-  // Draw entire tile set
-  const drawAllTiles = useCallback(() => {
-    if (!canvasRef.current) return;
-    if (tiles.length === 0) return;
-
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext("2d");
+  // Draw the tiles of one chunk as soon as it arrives
+  const drawTiles = (tilesData: TileData[]) => {
+    const ctx = canvasRef.current?.getContext("2d");
     if (!ctx) return;
 
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    for (const { q, r, terrain } of tilesData) {
+      const { x, y } = axialToPixelFlat(q, r);
+      drawHex(ctx, x + offsetX, y + offsetY, terrain);
+    }
+  };
 
-    const { minX, maxX, minY, maxY } = computeBoundingBox(tiles);
-    const offsetX = -minX + tileSize;
-    const offsetY = -minY + tileSize;
+  const mapChunks = useMemo(
+    () =>
+      getMapChunks(mapRadius, CHUNK_SIZE).map((chunk) => ({
+        chunk,
+        key: hexKey(chunk.q, chunk.r),
+        bounds: getChunkWorldBounds(chunk, hexRadius, CHUNK_SIZE),
+      })),
+    [hexRadius]
+  );
 
-    for (const tile of tiles) {
-      const { q, r, terrain } = tile;
-      const { x, y } = axialToPixelFlat(q, r);
-      const sx = x + offsetX;
-      const sy = y + offsetY;
-      drawHex(ctx, sx, sy, terrain);
+  // Request every chunk overlapping the scrolled-into-view part of the canvas
+  const loadVisibleChunks = useCallback(() => {
+    const container = containerRef.current;
+    const source = chunkSourceRef.current;
+    if (!container || !source) return;
+
+    const viewMinX = container.scrollLeft - offsetX;
+    const viewMaxX = viewMinX + container.clientWidth;
+    const viewMinY = container.scrollTop - offsetY;
+    const viewMaxY = viewMinY + container.clientHeight;
+
+    for (const { chunk, key, bounds } of mapChunks) {
+      if (requestedChunksRef.current.has(key)) continue;
+
+      if (
+        bounds.maxX < viewMinX ||
+        bounds.minX > viewMaxX ||
+        bounds.maxZ < viewMinY ||
+        bounds.minZ > viewMaxY
+      ) {
+        continue;
+      }
+
+      requestedChunksRef.current.add(key);
+      source
+        .fetchChunk(chunk, { level: 1, path: getDefaultMapPath(1) }, CHUNK_SIZE)
+        .then(({ tiles }) => {
+          if (chunkSourceRef.current !== source) return;
+          drawTiles(tiles);
+          setLoadedTileCount((count) => count + tiles.length);
+        })
+        .catch((err) => {
+          setChunkError(err instanceof Error ? err.message : String(err));
+          // Allow a retry on the next scroll
+          requestedChunksRef.current.delete(key);
+        });
     }
-  }, [tiles, computeBoundingBox]);
+  }, [offsetX, offsetY, mapChunks]);
 
-  // Ensure canvas is sized to bounding box + some padding
+  // Size the canvas to the whole map up front; chunks are drawn into it as they stream in
   useEffect(() => {
-    if (tiles.length === 0) return;
-    const { minX, maxX, minY, maxY } = computeBoundingBox(tiles);
-    const width = Math.ceil(maxX - minX + tileSize * 4);
-    const height = Math.ceil(maxY - minY + tileSize * 4);
+    if (!streaming || !canvasRef.current) return;
 
-    if (canvasRef.current) {
-      canvasRef.current.width = Math.max(width, 300);
-      canvasRef.current.height = Math.max(height, 300);
+    canvasRef.current.width = Math.ceil(offsetX * 2);
+    canvasRef.current.height = Math.ceil(offsetY * 2);
+
+    // Start scrolled to the map center
+    if (containerRef.current) {
+      containerRef.current.scrollLeft = offsetX - containerRef.current.clientWidth / 2;
+      containerRef.current.scrollTop = offsetY - containerRef.current.clientHeight / 2;
     }
-    drawAllTiles();
-  }, [tiles, computeBoundingBox, drawAllTiles]);
+    loadVisibleChunks();
+  }, [streaming, offsetX, offsetY, loadVisibleChunks]);
 
-  const handleFetchTiles = async () => {
+  const handleFetchTiles = () => {
     if (!accessToken) {
       alert("No access token found. Please log in first.");
       return;
     }
-    setLoading(true);
-    setTiles([]);
-
-    try {
-      const response = await fetch(`${backendUrl}/procedural/512`, {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch: ${response.status} ${response.statusText}`
-        );
-      }
 
-      const data = await response.json();
-      let tileArray: TileData[] = [];
+    chunkSourceRef.current = createApiChunkSource(() => apiClientRef.current, mapRadius);
+    requestedChunksRef.current = new Set();
+    setLoadedTileCount(0);
+    setChunkError(null);
+    setStreaming(true);
 
-      if (Array.isArray(data)) {
-        tileArray = data;
-      } else if (data && Array.isArray(data.tiles)) {
-        tileArray = data.tiles;
-      } else {
-        console.warn("Unexpected data structure", data);
-        throw new Error("Could not parse tile data from response");
-      }
-
-      setTiles(tileArray);
-    } catch (err) {
-      console.error(err);
-      alert("Failed to fetch tile data. Check console for details.");
-    } finally {
-      setLoading(false);
+    if (canvasRef.current) {
+      canvasRef.current.getContext("2d")?.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
     }
+    // On the first fetch the effect below sizes the canvas and starts loading
+    if (streaming) loadVisibleChunks();
   };
 
   const handleSaveMap = async () => {
@@ -201,22 +183,10 @@ export default function LargeHexCanvas() {
     setLoading(true);
 
     try {
-      const resp = await fetch(`${backendUrl}/procedural/save`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!resp.ok) {
-        throw new Error(`Failed to save map: ${resp.status} ${resp.statusText}`);
-      }
-
-      const data = await resp.json();
+      const data = await apiClient.saveProceduralMap();
       alert(`Map saved successfully! ID: ${data.map_id}`);
     } catch (err) {
-      console.error(err);
-      alert("Failed to save map. Check console for details.");
+      alert(`Failed to save map: ${err instanceof Error ? err.message : String(err)}`);
     } finally {
       setLoading(false);
     }
@@ -226,16 +196,20 @@ export default function LargeHexCanvas() {
     <div style={{ padding: "1rem" }}>
       <h2>Large Hex Canvas (Flat-Topped)</h2>
       <p>Access Token: {accessToken ? "Yes" : "No"}</p>
+      <p>Tiles loaded: {loadedTileCount}</p>
+      {chunkError && <p style={{ color: "#d32f2f" }}>{chunkError}</p>}
 
       <button onClick={handleFetchTiles} disabled={loading}>
-        {loading ? "Fetching..." : "Fetch & Draw"}
+        {streaming ? "Reload" : "Fetch & Draw"}
       </button>
       {" "}
-      <button onClick={handleSaveMap} disabled={loading || !tiles.length}>
+      <button onClick={handleSaveMap} disabled={loading || !loadedTileCount}>
         Save Map
       </button>
 
       <div
+        ref={containerRef}
+        onScroll={loadVisibleChunks}
         style={{
           marginTop: "1rem",
           width: "100%",
@@ -253,4 +227,12 @@ export default function LargeHexCanvas() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+export default function MapViewPage() {
+  return (
+    <RequireAuth>
+      <LargeHexCanvas />
+    </RequireAuth>
+  );
+}
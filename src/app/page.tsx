@@ -1,10 +1,13 @@
 // app/page.tsx
 import HexagonalMap from './components/HexagonalMap';
+import RequireAuth from './auth/RequireAuth';
 
 export default function Home() {
   return (
     <main className="flex min-h-screen flex-col items-center justify-between">
-      <HexagonalMap size={16} tileSize={1} tileHeight={0.1} initialMapLevel={2} />
+      <RequireAuth>
+        <HexagonalMap size={16} tileSize={1} tileHeight={0.1} initialMapLevel={2} />
+      </RequireAuth>
     </main>
   );
-}
\ No newline at end of file
+}
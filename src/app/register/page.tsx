@@ -0,0 +1,10 @@
+import Register from "../components/Register";
+
+
+export default function RegisterPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-between">
+      <Register/>
+    </main>
+  );
+}
@@ -0,0 +1,14 @@
+import { Suspense } from "react";
+import ResetPassword from "../components/ResetPassword";
+
+
+export default function ResetPasswordPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-between">
+      {/* ResetPassword reads the token from the query string */}
+      <Suspense>
+        <ResetPassword/>
+      </Suspense>
+    </main>
+  );
+}
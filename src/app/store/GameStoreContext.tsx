@@ -0,0 +1,32 @@
+// store/GameStoreContext.tsx
+"use client"
+import React, { createContext, useContext, useState, useSyncExternalStore } from 'react';
+import { GameStore, GameStoreState, createGameStore, createInitialGameState } from './gameStore';
+
+const GameStoreContext = createContext<GameStore | undefined>(undefined);
+
+export const GameStoreProvider: React.FC<{ initialState?: Partial<GameStoreState>; children: React.ReactNode }> = ({
+  initialState,
+  children,
+}) => {
+  // Created once; later changes to initialState are ignored
+  const [store] = useState(() => createGameStore(createInitialGameState(initialState)));
+  return <GameStoreContext.Provider value={store}>{children}</GameStoreContext.Provider>;
+};
+
+export const useGameStoreApi = () => {
+  const store = useContext(GameStoreContext);
+  if (store === undefined) {
+    throw new Error('useGameStoreApi must be used within a GameStoreProvider');
+  }
+  return store;
+};
+
+// Re-renders only when the selected value changes; selectors must return stable references
+export const useGameStore = <T,>(selector: (state: GameStoreState) => T): T => {
+  const store = useGameStoreApi();
+  const getSnapshot = () => selector(store.getState());
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+};
+
+export const useGameDispatch = () => useGameStoreApi().dispatch;
@@ -0,0 +1,295 @@
+// app/store/gameStore.test.ts
+import { describe, expect, it } from 'vitest';
+import { TerrainType } from '../data/content';
+import { PlayerData, TileData } from '../types/gameTypes';
+import { Axial, hexDistance, hexKey, hexRange } from '../utils/hex';
+import { getDefaultMapPath } from '../utils/mapHierarchy';
+import { DEFAULT_MOVEMENT_POINTS } from '../utils/pathfinding';
+import {
+  GameStoreState,
+  createGameStore,
+  createInitialGameState,
+  gameActions,
+  selectBuildings,
+  selectIncome,
+  selectMapKey,
+  selectPathPreview,
+  selectTile,
+  selectTerritoryBorders,
+  selectTileEdits,
+  selectVisibleTiles,
+} from './gameStore';
+
+const PLAYER: PlayerData = {
+  id: 'p1',
+  name: 'Player 1',
+  color: '#ff0000',
+  resources: [
+    { type: 'wood', amount: 100 },
+    { type: 'stone', amount: 100 },
+    { type: 'food', amount: 10 },
+  ],
+  position: null,
+};
+
+const createTiles = (radius: number, terrain: { [key: string]: TerrainType } = {}): TileData[] =>
+  hexRange({ q: 0, r: 0 }, radius).map(({ q, r }) => ({
+    q,
+    r,
+    terrain: terrain[hexKey(q, r)] ?? 'grass',
+    ownerId: null,
+    resources: [],
+    building: null,
+    canInteract: true,
+  }));
+
+// The local player alone on a loaded map, on its own turn without a server
+const createTestStore = (overrides: Partial<GameStoreState> = {}, tiles = createTiles(6)) => {
+  const store = createGameStore(
+    createInitialGameState({ players: { [PLAYER.id]: PLAYER }, localPlayerId: PLAYER.id, ...overrides })
+  );
+  store.dispatch(gameActions.tilesAdded(tiles));
+  return store;
+};
+
+// On a map that has maps below it
+const UPPER_MAP = { mapLevel: 2, mapPath: getDefaultMapPath(2) };
+
+describe('tiles', () => {
+  it('keeps realtime updates for tiles that load later', () => {
+    const store = createTestStore({}, []);
+    store.dispatch(gameActions.tilesUpdated(1, [{ q: 1, r: 0, ownerId: 'p2', building: 'farm' }]));
+    store.dispatch(gameActions.tilesAdded(createTiles(2)));
+    expect(selectTile(store.getState(), 1, 0)).toMatchObject({ ownerId: 'p2', building: 'farm' });
+  });
+
+  it('drops the tiles that are removed, along with what was derived from them', () => {
+    const store = createTestStore();
+    store.dispatch(gameActions.placeBuilding(0, 0, 'outpost'));
+    expect(selectBuildings(store.getState())).toEqual([{ q: 0, r: 0, building: 'outpost' }]);
+
+    store.dispatch(gameActions.tilesRemoved(createTiles(1)));
+    expect(selectTile(store.getState(), 0, 0)).toBeNull();
+    expect(selectTile(store.getState(), 2, 0)).not.toBeNull();
+    expect(selectBuildings(store.getState())).toEqual([]);
+  });
+
+  it('ignores updates for another level', () => {
+    const store = createTestStore();
+    const before = store.getState();
+    store.dispatch(gameActions.tilesUpdated(2, [{ q: 1, r: 0, ownerId: 'p2' }]));
+    expect(store.getState()).toBe(before);
+  });
+});
+
+describe('movement', () => {
+  it('spends movement points along the path', () => {
+    const store = createTestStore({}, createTiles(3, { [hexKey(1, 0)]: 'forest' }));
+    store.dispatch(gameActions.localPlayerMoved(1, 0, [{ q: 0, r: 0 }, { q: 1, r: 0 }]));
+    expect(store.getState().localPosition).toEqual({ q: 1, r: 0, level: 1 });
+    expect(store.getState().movementPoints).toBe(DEFAULT_MOVEMENT_POINTS - 2);
+    expect(store.getState().players[PLAYER.id].position).toEqual({ q: 1, r: 0, level: 1 });
+  });
+
+  it('refuses moves over budget or outside the move phase', () => {
+    const store = createTestStore({ movementPoints: 1 });
+    const path = [{ q: 0, r: 0 }, { q: 1, r: 0 }, { q: 2, r: 0 }];
+    store.dispatch(gameActions.localPlayerMoved(2, 0, path));
+    expect(store.getState().localPosition).toEqual({ q: 0, r: 0, level: 1 });
+
+    store.dispatch(gameActions.turnStarted(2, 'p2'));
+    store.dispatch(gameActions.localPlayerMoved(1, 0, path.slice(0, 2)));
+    expect(store.getState().localPosition).toEqual({ q: 0, r: 0, level: 1 });
+  });
+
+  it('refuses paths that cannot be walked', () => {
+    const store = createTestStore({}, createTiles(3, { [hexKey(1, 0)]: 'water' }));
+    const moves: [Axial, Axial[]][] = [
+      // Through water
+      [{ q: 2, r: 0 }, [{ q: 0, r: 0 }, { q: 1, r: 0 }, { q: 2, r: 0 }]],
+      // Jumping a tile
+      [{ q: 2, r: -1 }, [{ q: 0, r: 0 }, { q: 2, r: -1 }]],
+      // Off the loaded tiles
+      [{ q: 0, r: 4 }, [{ q: 0, r: 0 }, { q: 0, r: 1 }, { q: 0, r: 2 }, { q: 0, r: 3 }, { q: 0, r: 4 }]],
+      // Not from where the player stands, or not to the target
+      [{ q: 2, r: -1 }, [{ q: 1, r: -1 }, { q: 2, r: -1 }]],
+      [{ q: 0, r: 1 }, [{ q: 0, r: 0 }, { q: 1, r: -1 }]],
+    ];
+    moves.forEach(([target, path]) => store.dispatch(gameActions.localPlayerMoved(target.q, target.r, path)));
+    expect(store.getState().localPosition).toEqual({ q: 0, r: 0, level: 1 });
+    expect(store.getState().movementPoints).toBe(DEFAULT_MOVEMENT_POINTS);
+  });
+
+  it('previews routes only within a few turns of movement', () => {
+    const store = createTestStore({ movementPoints: 1 });
+    store.dispatch(gameActions.hoverTile({ q: 2, r: 0 }));
+    expect(selectPathPreview(store.getState())).toMatchObject({ cost: 2, withinBudget: false });
+    store.dispatch(gameActions.hoverTile({ q: 5, r: 0 }));
+    expect(selectPathPreview(store.getState())).toBeNull();
+  });
+});
+
+describe('vision', () => {
+  it('only looks again when sight is blocked differently near the player', () => {
+    const store = createTestStore();
+    const visible = selectVisibleTiles(store.getState());
+    expect(visible.has(hexKey(3, 0))).toBe(true);
+
+    store.dispatch(gameActions.tilesAdded([{ ...createTiles(0)[0], q: 20, r: 0, terrain: 'mountain' }]));
+    expect(selectVisibleTiles(store.getState())).toBe(visible);
+    store.dispatch(gameActions.tilesAdded([{ ...createTiles(0)[0], q: 1, r: 0, terrain: 'mountain' }]));
+    expect(selectVisibleTiles(store.getState()).has(hexKey(3, 0))).toBe(false);
+  });
+});
+
+describe('building and claiming', () => {
+  it('places a building, claims the land around it and spends the cost', () => {
+    const store = createTestStore();
+    store.dispatch(gameActions.placeBuilding(0, 0, 'outpost'));
+    const state = store.getState();
+    expect(selectTile(state, 0, 0)).toMatchObject({ ownerId: PLAYER.id, building: 'outpost' });
+    hexRange({ q: 0, r: 0 }, 1).forEach(({ q, r }) => expect(selectTile(state, q, r)?.ownerId).toBe(PLAYER.id));
+    expect(state.players[PLAYER.id].resources).toContainEqual({ type: 'wood', amount: 80 });
+    expect(state.actionPoints).toBe(1);
+    expect(state.turn.phase).toBe('build');
+    expect(state.lastBuild).toEqual({ q: 0, r: 0, level: 1, building: 'outpost' });
+  });
+
+  it('only claims tiles next to the player or its territory', () => {
+    const store = createTestStore();
+    store.dispatch(gameActions.claimTile(3, 0));
+    expect(selectTile(store.getState(), 3, 0)?.ownerId).toBeNull();
+    store.dispatch(gameActions.claimTile(1, 0));
+    store.dispatch(gameActions.claimTile(2, 0));
+    expect(selectTile(store.getState(), 2, 0)?.ownerId).toBe(PLAYER.id);
+  });
+});
+
+describe('territory borders', () => {
+  it('are drawn only against loaded neighbors', () => {
+    const store = createTestStore({}, createTiles(1));
+    store.dispatch(gameActions.placeBuilding(0, 0, 'outpost'));
+    expect(selectTerritoryBorders(store.getState())).toEqual([]);
+
+    store.dispatch(gameActions.tilesAdded(createTiles(2).filter((tile) => hexDistance(tile, { q: 0, r: 0 }) === 2)));
+    const borders = selectTerritoryBorders(store.getState());
+    expect(borders).toHaveLength(18);
+    expect(borders[0]).toMatchObject({ ownerId: PLAYER.id, color: PLAYER.color });
+  });
+});
+
+describe('income', () => {
+  it('counts owned tiles that are no longer loaded or on another map', () => {
+    const store = createTestStore(UPPER_MAP);
+    store.dispatch(gameActions.placeBuilding(0, 0, 'outpost'));
+    const income = selectIncome(store.getState());
+    // Seven grassland tiles, minus the outpost's upkeep
+    expect(income?.total).toEqual({ food: 6 });
+
+    store.dispatch(gameActions.tilesRemoved(createTiles(6)));
+    expect(selectIncome(store.getState())?.total).toEqual({ food: 6 });
+    store.dispatch(gameActions.descend({ q: 3, r: 0 }));
+    expect(store.getState().mapLevel).toBe(1);
+    expect(selectIncome(store.getState())?.total).toEqual({ food: 6 });
+  });
+
+  it('drops tiles the player loses', () => {
+    const store = createTestStore();
+    store.dispatch(gameActions.claimTile(1, 0));
+    store.dispatch(gameActions.tilesUpdated(1, [{ q: 1, r: 0, ownerId: 'p2' }]));
+    expect(selectIncome(store.getState())?.total).toEqual({});
+  });
+
+  it('is paid at the end of the turn without a server', () => {
+    const store = createTestStore();
+    store.dispatch(gameActions.claimTile(1, 0));
+    store.dispatch(gameActions.endTurn());
+    const state = store.getState();
+    // Claiming the grassland cost 5 food, its yield paid 1 back
+    expect(state.players[PLAYER.id].resources).toContainEqual({ type: 'food', amount: 6 });
+    expect(state.turn).toEqual({ number: 2, activePlayerId: null, phase: 'move' });
+    expect(state.movementPoints).toBe(DEFAULT_MOVEMENT_POINTS);
+  });
+
+  it('is left to the server when there is one', () => {
+    const store = createTestStore({ turn: { number: 4, activePlayerId: PLAYER.id, phase: 'move' } });
+    store.dispatch(gameActions.claimTile(1, 0));
+    const resources = store.getState().players[PLAYER.id].resources;
+    store.dispatch(gameActions.endTurn());
+    expect(store.getState().players[PLAYER.id].resources).toBe(resources);
+    expect(store.getState().turn.phase).toBe('end');
+    expect(store.getState().lastEndedTurn).toBe(4);
+  });
+});
+
+describe('editor', () => {
+  const createEditorStore = () => {
+    const store = createTestStore(UPPER_MAP);
+    store.dispatch(gameActions.toggleEditor(true));
+    return store;
+  };
+
+  it('paints only while the editor is on', () => {
+    const store = createTestStore();
+    store.dispatch(gameActions.paintTiles({ q: 0, r: 0 }));
+    expect(selectTileEdits(store.getState())).toEqual({});
+  });
+
+  it('paints with the radius brush and undoes and redoes the stroke', () => {
+    const store = createEditorStore();
+    store.dispatch(
+      gameActions.setEditorTool({ brush: 'radius', radius: 1, paint: { type: 'terrain', terrain: 'water' } })
+    );
+    store.dispatch(gameActions.paintTiles({ q: 0, r: 0 }));
+    expect(Object.keys(selectTileEdits(store.getState()))).toHaveLength(7);
+    expect(selectTile(store.getState(), 1, 0)?.terrain).toBe('water');
+
+    store.dispatch(gameActions.undoEdit());
+    expect(selectTile(store.getState(), 1, 0)?.terrain).toBe('grass');
+    store.dispatch(gameActions.redoEdit());
+    expect(selectTile(store.getState(), 1, 0)?.terrain).toBe('water');
+    expect(store.getState().editor.redo).toEqual([]);
+  });
+
+  it('draws a line between two clicks', () => {
+    const store = createEditorStore();
+    store.dispatch(gameActions.setEditorTool({ brush: 'line', paint: { type: 'owner', ownerId: 'p2' } }));
+    store.dispatch(gameActions.paintTiles({ q: -3, r: 0 }));
+    expect(store.getState().editor.lineStart).toEqual({ q: -3, r: 0 });
+    expect(selectTile(store.getState(), -3, 0)?.ownerId).toBeNull();
+
+    store.dispatch(gameActions.paintTiles({ q: 3, r: 0 }));
+    expect(store.getState().editor.lineStart).toBeNull();
+    expect(selectTile(store.getState(), 0, 0)?.ownerId).toBe('p2');
+    expect(Object.keys(selectTileEdits(store.getState()))).toHaveLength(7);
+  });
+
+  it('keeps edits per map and clears the history on leaving', () => {
+    const store = createEditorStore();
+    store.dispatch(gameActions.paintTiles({ q: 0, r: 0 }));
+    store.dispatch(gameActions.setEditorTool({ paint: { type: 'terrain', terrain: 'forest' } }));
+    store.dispatch(gameActions.paintTiles({ q: 0, r: 0 }));
+    const mapKey = selectMapKey(store.getState());
+
+    store.dispatch(gameActions.descend({ q: 0, r: 0 }));
+    expect(store.getState().editor.undo).toEqual([]);
+    expect(selectTileEdits(store.getState())).toEqual({});
+    expect(store.getState().tileEdits[mapKey].tiles[hexKey(0, 0)].terrain).toBe('forest');
+  });
+});
+
+describe('createGameStore', () => {
+  it('tells watchers the current value and then every change', () => {
+    const store = createTestStore();
+    const seen: (number | undefined)[][] = [];
+    const unwatch = store.watch((state) => state.movementPoints, (value, previous) => seen.push([value, previous]));
+    store.dispatch(gameActions.movementPointsChanged(2));
+    store.dispatch(gameActions.hoverTile({ q: 1, r: 1 }));
+    unwatch();
+    store.dispatch(gameActions.movementPointsChanged(1));
+    expect(seen).toEqual([
+      [DEFAULT_MOVEMENT_POINTS, undefined],
+      [2, DEFAULT_MOVEMENT_POINTS],
+    ]);
+  });
+});
@@ -0,0 +1,1071 @@
+// store/gameStore.ts
+// Single source of truth for game state. Plain TypeScript with no React or Three.js, so
+// game logic can be driven and inspected without a renderer: dispatch actions, read
+// with selectors. React reads it through GameStoreContext, the scene through subscribe().
+import { BUILDINGS, BuildingType, TERRAINS, getBuildingEffects } from '../data/content';
+import { PlayerData, PlayerPosition, TileData, TileUpdate } from '../types/gameTypes';
+import { getPlacementError } from '../utils/buildings';
+import { getChunkCoord } from '../utils/chunks';
+import { IncomeReport, collectIncome, computeIncome } from '../utils/economy';
+import { Axial, hexDistance, hexEquals, hexKey, hexNeighbors, hexRange, parseHexKey } from '../utils/hex';
+import { EditorBrush, EditorPaint, getBrushTiles, paintTile } from '../utils/mapEditor';
+import { MapLocation, MapParent, getAncestorMap, getChildMap, getDefaultMapPath, getMapKey } from '../utils/mapHierarchy';
+import {
+  DEFAULT_MOVEMENT_POINTS,
+  MovementRange,
+  PathResult,
+  TileLookup,
+  findPath,
+  getMovementCost,
+  getMovementRange,
+} from '../utils/pathfinding';
+import { spendResources } from '../utils/resources';
+import { TerritoryEdge, getClaimError, getTileTerritoryEdges } from '../utils/territory';
+import { applyTileUpdate, mergeTileUpdates } from '../utils/tileUpdates';
+import { ACTIONS_PER_TURN, TurnAction, TurnState, getTurnError, isPlayersTurn } from '../utils/turns';
+import {
+  Visibility,
+  VisionSource,
+  blocksSight,
+  computeVisibleTiles,
+  getVisionReach,
+  getVisionSources,
+} from '../utils/vision';
+import type { ConnectionStatus } from '../utils/realtime';
+
+export interface CameraState {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface SelectionState {
+  focused: Axial | null;
+  hovered: Axial | null;
+}
+
+// A building placed from this client, see GameStoreState.lastBuild
+export interface BuildOrder {
+  q: number;
+  r: number;
+  level: number;
+  building: BuildingType;
+}
+
+// A tile claimed from this client, see GameStoreState.lastClaim
+export interface ClaimOrder {
+  q: number;
+  r: number;
+  level: number;
+}
+
+// One use of an editor brush, with the tiles it changed as they were before and after
+export interface EditorStroke {
+  before: TileData[];
+  after: TileData[];
+}
+
+export interface EditorState {
+  enabled: boolean;
+  brush: EditorBrush;
+  // Of the radius brush
+  radius: number;
+  paint: EditorPaint;
+  // The line brush's first click, where the line drawn by its second click starts
+  lineStart: Axial | null;
+  // Strokes on the current map, latest last; the history starts over on every map change
+  undo: EditorStroke[];
+  redo: EditorStroke[];
+}
+
+// Tiles the editor changed on one map, by hexKey
+export interface MapEdits {
+  map: MapLocation;
+  tiles: { [key: string]: TileData };
+}
+
+// A game loaded from a map file, see utils/mapFile.ts
+export interface ImportedGame {
+  map: MapLocation;
+  players: PlayerData[];
+  localPlayerId: string | null;
+  // On `map`
+  localPosition: Axial;
+  turn: TurnState;
+  explored: GameStoreState['explored'];
+  ownedTiles: GameStoreState['ownedTiles'];
+}
+
+export interface GameStoreState {
+  mapLevel: number;
+  // Tiles descended through to reach the current map, see utils/mapHierarchy.ts
+  mapPath: MapParent[];
+  // Tiles of the current level that are loaded, by chunk (see getTileChunkKey) and then hexKey. Chunks
+  // are copied only when their tiles change, so loading a chunk does not copy every loaded tile
+  tiles: { [chunkKey: string]: { [key: string]: TileData } };
+  // Realtime changes for the current level, by hexKey; they also apply to tiles loaded later
+  tileUpdates: { [key: string]: TileUpdate };
+  players: { [id: string]: PlayerData };
+  localPlayerId: string | null;
+  // Tiles the local player has ever seen, by map (see getMapKey) and then hexKey; kept across map changes
+  explored: { [mapKey: string]: { [key: string]: true } };
+  // Tiles the local player owns, by map (see getMapKey) and then hexKey. Kept across map changes
+  // and chunk eviction, so income counts every owned tile and not only the loaded ones
+  ownedTiles: { [mapKey: string]: { [key: string]: TileData } };
+  // The player controlled from this client. Known even when offline, unlike players[localPlayerId]
+  localPosition: PlayerPosition;
+  turn: TurnState;
+  // Movement the local player has left this turn
+  movementPoints: number;
+  // Buildings and claims the local player has left this turn
+  actionPoints: number;
+  // Number of the latest turn the local player ended, so it can be sent to the server
+  lastEndedTurn: number | null;
+  // Whether the reachable area around the local player is drawn
+  showMovementRange: boolean;
+  // Route of the latest local move, so the scene can animate along it
+  lastMove: PathResult | null;
+  // Building being placed in build mode, null outside of it
+  buildMode: BuildingType | null;
+  // Latest placement by the local player, so it can be sent to the server
+  lastBuild: BuildOrder | null;
+  // Latest tile claimed by the local player, so it can be sent to the server
+  lastClaim: ClaimOrder | null;
+  selection: SelectionState;
+  camera: CameraState;
+  connectionStatus: ConnectionStatus;
+  editor: EditorState;
+  // Tiles changed in the editor, by map (see getMapKey); kept across map changes and saved with the map
+  tileEdits: { [mapKey: string]: MapEdits };
+}
+
+// Actions
+/************************************************************************************************************************************************** */
+
+export type EditorTool = Partial<Pick<EditorState, 'brush' | 'radius' | 'paint'>>;
+
+export type GameAction =
+  | { type: 'tiles/added'; tiles: TileData[] }
+  | { type: 'tiles/removed'; tiles: Axial[] }
+  | { type: 'tiles/updated'; level: number; updates: TileUpdate[]; replace: boolean }
+  | { type: 'players/synced'; players: PlayerData[]; localPlayerId: string }
+  | { type: 'players/joined'; player: PlayerData }
+  | { type: 'players/left'; playerId: string }
+  | { type: 'players/moved'; playerId: string; position: PlayerPosition }
+  | { type: 'players/cleared' }
+  | { type: 'localPlayer/moved'; q: number; r: number; path: Axial[] | null }
+  | { type: 'localPlayer/movementPointsChanged'; movementPoints: number }
+  | { type: 'localPlayer/movementRangeToggled'; visible: boolean }
+  | { type: 'build/modeChanged'; building: BuildingType | null }
+  | { type: 'build/placed'; q: number; r: number; building: BuildingType }
+  | { type: 'territory/claimed'; q: number; r: number }
+  | { type: 'turn/started'; number: number; activePlayerId: string | null }
+  | { type: 'turn/phaseAdvanced' }
+  | { type: 'turn/ended' }
+  | { type: 'selection/focused'; tile: Axial | null }
+  | { type: 'selection/hovered'; tile: Axial | null }
+  | { type: 'map/descended'; tile: Axial }
+  | { type: 'map/ascended'; level: number }
+  | { type: 'camera/moved'; camera: CameraState }
+  | { type: 'game/imported'; game: ImportedGame }
+  | { type: 'editor/toggled'; enabled: boolean }
+  | { type: 'editor/toolChanged'; tool: EditorTool }
+  | { type: 'editor/painted'; tile: Axial }
+  | { type: 'editor/undone' }
+  | { type: 'editor/redone' }
+  | { type: 'connection/statusChanged'; status: ConnectionStatus };
+
+export const gameActions = {
+  // Tiles that were loaded, e.g. a chunk streamed in; realtime updates already received apply to them
+  tilesAdded: (tiles: TileData[]): GameAction => ({ type: 'tiles/added', tiles }),
+  // Tiles that are no longer loaded, e.g. an evicted chunk; owned ones still count, see GameStoreState.ownedTiles
+  tilesRemoved: (tiles: Axial[]): GameAction => ({ type: 'tiles/removed', tiles }),
+  // `replace` drops earlier updates first, e.g. for a fresh server snapshot
+  tilesUpdated: (level: number, updates: TileUpdate[], replace = false): GameAction => ({
+    type: 'tiles/updated',
+    level,
+    updates,
+    replace,
+  }),
+  playersSynced: (players: PlayerData[], localPlayerId: string): GameAction => ({
+    type: 'players/synced',
+    players,
+    localPlayerId,
+  }),
+  playerJoined: (player: PlayerData): GameAction => ({ type: 'players/joined', player }),
+  playerLeft: (playerId: string): GameAction => ({ type: 'players/left', playerId }),
+  playerMoved: (playerId: string, position: PlayerPosition): GameAction => ({ type: 'players/moved', playerId, position }),
+  playersCleared: (): GameAction => ({ type: 'players/cleared' }),
+  // `path` is the route taken, start and target included; null for a plain teleport
+  localPlayerMoved: (q: number, r: number, path: Axial[] | null = null): GameAction => ({
+    type: 'localPlayer/moved',
+    q,
+    r,
+    path,
+  }),
+  movementPointsChanged: (movementPoints: number): GameAction => ({
+    type: 'localPlayer/movementPointsChanged',
+    movementPoints,
+  }),
+  toggleMovementRange: (visible: boolean): GameAction => ({ type: 'localPlayer/movementRangeToggled', visible }),
+  // Pass null to leave build mode
+  setBuildMode: (building: BuildingType | null): GameAction => ({ type: 'build/modeChanged', building }),
+  // Ignored unless the local player may place `building` there, see getPlacementError
+  placeBuilding: (q: number, r: number, building: BuildingType): GameAction => ({ type: 'build/placed', q, r, building }),
+  // Ignored unless the local player may claim the tile, see getClaimError
+  claimTile: (q: number, r: number): GameAction => ({ type: 'territory/claimed', q, r }),
+  // Pass a null player when no server runs the turns
+  turnStarted: (number: number, activePlayerId: string | null): GameAction => ({
+    type: 'turn/started',
+    number,
+    activePlayerId,
+  }),
+  // From moving on to building; ignored unless it is the local player's move phase
+  advancePhase: (): GameAction => ({ type: 'turn/phaseAdvanced' }),
+  // Collects the local player's income without a server, see selectIncome; ignored unless it is the local player's turn
+  endTurn: (): GameAction => ({ type: 'turn/ended' }),
+  focusTile: (tile: Axial | null): GameAction => ({ type: 'selection/focused', tile: tile && { q: tile.q, r: tile.r } }),
+  hoverTile: (tile: Axial | null): GameAction => ({ type: 'selection/hovered', tile: tile && { q: tile.q, r: tile.r } }),
+  // Into the map of `tile` on the level below, starting at its center; ignored on the bottom level
+  descend: (tile: Axial): GameAction => ({ type: 'map/descended', tile: { q: tile.q, r: tile.r } }),
+  // Back up to the map of `level` (one level up by default), standing on the tile that was descended into
+  ascend: (level: number): GameAction => ({ type: 'map/ascended', level }),
+  cameraMoved: (camera: CameraState): GameAction => ({ type: 'camera/moved', camera }),
+  // Replaces the game with the one from a map file; its tiles stream in like any other map's
+  gameImported: (game: ImportedGame): GameAction => ({ type: 'game/imported', game }),
+  connectionStatusChanged: (status: ConnectionStatus): GameAction => ({ type: 'connection/statusChanged', status }),
+  toggleEditor: (enabled: boolean): GameAction => ({ type: 'editor/toggled', enabled }),
+  setEditorTool: (tool: EditorTool): GameAction => ({ type: 'editor/toolChanged', tool }),
+  // Uses the current brush on `tile`; ignored outside the editor
+  paintTiles: (tile: Axial): GameAction => ({ type: 'editor/painted', tile: { q: tile.q, r: tile.r } }),
+  undoEdit: (): GameAction => ({ type: 'editor/undone' }),
+  redoEdit: (): GameAction => ({ type: 'editor/redone' }),
+};
+
+// Reducer
+/************************************************************************************************************************************************** */
+
+export const createInitialGameState = (overrides: Partial<GameStoreState> = {}): GameStoreState => ({
+  mapLevel: 1,
+  mapPath: getDefaultMapPath(overrides.mapLevel ?? 1),
+  tiles: {},
+  tileUpdates: {},
+  players: {},
+  localPlayerId: null,
+  explored: {},
+  ownedTiles: {},
+  localPosition: { q: 0, r: 0, level: overrides.mapLevel ?? 1 },
+  turn: { number: 1, activePlayerId: null, phase: 'move' },
+  movementPoints: DEFAULT_MOVEMENT_POINTS,
+  actionPoints: ACTIONS_PER_TURN,
+  lastEndedTurn: null,
+  showMovementRange: true,
+  lastMove: null,
+  buildMode: null,
+  lastBuild: null,
+  lastClaim: null,
+  selection: { focused: null, hovered: null },
+  camera: { x: 0, y: 0, z: 0 },
+  connectionStatus: 'closed',
+  editor: {
+    enabled: false,
+    brush: 'hex',
+    radius: 2,
+    paint: { type: 'terrain', terrain: 'grass' },
+    lineStart: null,
+    undo: [],
+    redo: [],
+  },
+  tileEdits: {},
+  ...overrides,
+});
+
+// Movement points it takes to walk `path` to `target`, or null unless it starts where the local player
+// stands and steps from neighbor to neighbor over passable loaded tiles all the way to `target`
+const getPathCost = (state: GameStoreState, path: Axial[], target: Axial): number | null => {
+  if (path.length === 0 || !hexEquals(path[0], state.localPosition) || !hexEquals(path[path.length - 1], target)) {
+    return null;
+  }
+  let cost = 0;
+  for (let i = 1; i < path.length; i++) {
+    const step = path[i];
+    const stepCost = hexDistance(path[i - 1], step) === 1 ? getMovementCost(selectTile(state, step.q, step.r)) : null;
+    if (stepCost === null) return null;
+    cost += stepCost;
+  }
+  return cost;
+};
+
+type TileChunks = GameStoreState['tiles'];
+
+const NO_TILES: TileChunks[string] = {};
+
+// Key of the chunk of state.tiles holding the tile; these chunks need not match the ones the terrain streams
+const getTileChunkKey = (q: number, r: number) => {
+  const chunk = getChunkCoord(q, r);
+  return hexKey(chunk.q, chunk.r);
+};
+
+const getChunkedTile = (tiles: TileChunks, q: number, r: number): TileData | null =>
+  tiles[getTileChunkKey(q, r)]?.[hexKey(q, r)] ?? null;
+
+// Copies the chunks holding `hexes` (and only those), then lets `edit` change them
+const editTileChunks = <T extends Axial>(
+  tiles: TileChunks,
+  hexes: T[],
+  edit: (chunk: TileChunks[string], key: string, hex: T) => void
+): TileChunks => {
+  if (hexes.length === 0) return tiles;
+  const edited = { ...tiles };
+  const copied = new Set<string>();
+  hexes.forEach((hex) => {
+    const chunkKey = getTileChunkKey(hex.q, hex.r);
+    if (!copied.has(chunkKey)) {
+      copied.add(chunkKey);
+      edited[chunkKey] = { ...tiles[chunkKey] };
+    }
+    edit(edited[chunkKey], hexKey(hex.q, hex.r), hex);
+  });
+  copied.forEach((chunkKey) => {
+    if (Object.keys(edited[chunkKey]).length === 0) delete edited[chunkKey];
+  });
+  return edited;
+};
+
+const setTiles = (tiles: TileChunks, changed: TileData[]) =>
+  editTileChunks(tiles, changed, (chunk, key, tile) => (chunk[key] = tile));
+
+const removeTiles = (tiles: TileChunks, removed: Axial[]) =>
+  editTileChunks(tiles, removed, (chunk, key) => delete chunk[key]);
+
+// Calls `onChange` with every tile added, replaced or removed (null) between two versions of state.tiles,
+// along with what it was before. Chunks that were not copied in between are skipped, see editTileChunks.
+const forEachChangedTile = (
+  previous: TileChunks,
+  next: TileChunks,
+  onChange: (key: string, tile: TileData | null, before: TileData | null) => void
+) => {
+  const compare = (before: TileChunks[string] = NO_TILES, after: TileChunks[string] = NO_TILES) => {
+    if (before === after) return;
+    Object.keys(before).forEach((key) => {
+      if (!after[key]) onChange(key, null, before[key]);
+    });
+    Object.keys(after).forEach((key) => {
+      if (after[key] !== before[key]) onChange(key, after[key], before[key] ?? null);
+    });
+  };
+  Object.keys(previous).forEach((chunkKey) => {
+    if (!next[chunkKey]) compare(previous[chunkKey], undefined);
+  });
+  Object.keys(next).forEach((chunkKey) => compare(previous[chunkKey], next[chunkKey]));
+};
+
+// Brings ownedTiles up to date with tiles of the current map whose owner may have changed
+const trackOwnedTiles = (state: GameStoreState, tiles: TileData[]): GameStoreState => {
+  const mapKey = selectMapKey(state);
+  const current = state.ownedTiles[mapKey] ?? {};
+  let owned = current;
+  tiles.forEach((tile) => {
+    const key = hexKey(tile.q, tile.r);
+    const isOwned = state.localPlayerId !== null && tile.ownerId === state.localPlayerId;
+    if (isOwned ? owned[key] === tile : !owned[key]) return;
+    if (owned === current) owned = { ...current };
+    if (isOwned) owned[key] = tile;
+    else delete owned[key];
+  });
+  return owned === current ? state : { ...state, ownedTiles: { ...state.ownedTiles, [mapKey]: owned } };
+};
+
+// Updates of tiles that are neither loaded nor owned are only tracked once the tile loads,
+// as its terrain is not known before
+const applyTileUpdates = (state: GameStoreState, updates: TileUpdate[], replace = false): GameStoreState => {
+  const tileUpdates = replace ? {} : { ...state.tileUpdates };
+  const owned = state.ownedTiles[selectMapKey(state)] ?? {};
+  const updated: TileData[] = [];
+  const updatedLoaded: TileData[] = [];
+  updates.forEach((update) => {
+    const key = hexKey(update.q, update.r);
+    tileUpdates[key] = mergeTileUpdates(tileUpdates[key], update);
+    const loaded = selectTile(state, update.q, update.r);
+    const known = loaded ?? owned[key];
+    if (!known) return;
+    const tile = applyTileUpdate(known, tileUpdates[key]);
+    updated.push(tile);
+    if (loaded) updatedLoaded.push(tile);
+  });
+  return trackOwnedTiles({ ...state, tiles: setTiles(state.tiles, updatedLoaded), tileUpdates }, updated);
+};
+
+// Border color for tiles whose owner is not (or no longer) known
+const UNKNOWN_OWNER_COLOR = '#9E9E9E';
+
+const sameAxial = (a: Axial | null, b: Axial | null) => (a && b ? hexEquals(a, b) : a === b);
+
+// Everything loaded or selected belongs to the map being left
+const enterMap = (state: GameStoreState, map: MapLocation, playerPosition: Axial): GameStoreState => {
+  const localPosition = { q: playerPosition.q, r: playerPosition.r, level: map.level };
+  const changed: GameStoreState = {
+    ...state,
+    mapLevel: map.level,
+    mapPath: map.path,
+    tiles: {},
+    tileUpdates: {},
+    localPosition,
+    lastMove: null,
+    selection: { focused: null, hovered: null },
+    editor: { ...state.editor, lineStart: null, undo: [], redo: [] },
+  };
+  return state.localPlayerId ? updatePlayer(changed, state.localPlayerId, { position: localPosition }) : changed;
+};
+
+const updatePlayer = (state: GameStoreState, playerId: string, update: Partial<PlayerData>): GameStoreState => {
+  const player = state.players[playerId];
+  if (!player) return state;
+  return { ...state, players: { ...state.players, [playerId]: { ...player, ...update } } };
+};
+
+// The local player's budgets are refilled at the start of each of its turns
+const startTurn = (state: GameStoreState, number: number, activePlayerId: string | null): GameStoreState => {
+  const started = { ...state, turn: { number, activePlayerId, phase: 'move' as const } };
+  if (!isPlayersTurn(started.turn, state.localPlayerId)) return started;
+  return { ...started, movementPoints: DEFAULT_MOVEMENT_POINTS, actionPoints: ACTIONS_PER_TURN };
+};
+
+// Building and claiming use up an action and end the move phase
+const spendAction = (state: GameStoreState): GameStoreState => ({
+  ...state,
+  turn: { ...state.turn, phase: 'build' },
+  actionPoints: state.actionPoints - 1,
+});
+
+// Puts tiles changed in the editor on the current map, both loaded and into its edits
+const applyEdits = (state: GameStoreState, edited: TileData[]): GameStoreState => {
+  const mapKey = selectMapKey(state);
+  const edits = { ...state.tileEdits[mapKey]?.tiles };
+  edited.forEach((tile) => (edits[hexKey(tile.q, tile.r)] = tile));
+  return trackOwnedTiles(
+    { ...state, tiles: setTiles(state.tiles, edited), tileEdits: { ...state.tileEdits, [mapKey]: { map: selectMap(state), tiles: edits } } },
+    edited
+  );
+};
+
+// Marks everything in sight as explored, e.g. after a move or once more of the level is loaded
+const exploreVisibleTiles = (state: GameStoreState): GameStoreState => {
+  const explored = selectExploredTiles(state);
+  const unexplored = Array.from(selectVisibleTiles(state)).filter((key) => !explored[key]);
+  if (unexplored.length === 0) return state;
+
+  const levelExplored = { ...explored };
+  unexplored.forEach((key) => (levelExplored[key] = true));
+  return { ...state, explored: { ...state.explored, [selectMapKey(state)]: levelExplored } };
+};
+
+export const gameReducer = (state: GameStoreState, action: GameAction): GameStoreState => {
+  const visible = selectVisibleTiles(state);
+  const next = reduceAction(state, action);
+  return selectVisibleTiles(next) === visible ? next : exploreVisibleTiles(next);
+};
+
+const reduceAction = (state: GameStoreState, action: GameAction): GameStoreState => {
+  switch (action.type) {
+    case 'tiles/added': {
+      const added = action.tiles.map((tile) => {
+        const update = state.tileUpdates[hexKey(tile.q, tile.r)];
+        return update ? applyTileUpdate(tile, update) : tile;
+      });
+      return trackOwnedTiles({ ...state, tiles: setTiles(state.tiles, added) }, added);
+    }
+
+    case 'tiles/removed':
+      return { ...state, tiles: removeTiles(state.tiles, action.tiles) };
+
+    case 'tiles/updated': {
+      // Updates for a level we already left are stale
+      if (action.level !== state.mapLevel) return state;
+      return applyTileUpdates(state, action.updates, action.replace);
+    }
+
+    case 'players/synced': {
+      const players: GameStoreState['players'] = {};
+      action.players.forEach((player) => (players[player.id] = player));
+      const synced = { ...state, players, localPlayerId: action.localPlayerId };
+      // Tiles owned by another local player are of no use to this one
+      if (action.localPlayerId === state.localPlayerId) return synced;
+      return trackOwnedTiles({ ...synced, ownedTiles: {} }, selectTiles(state));
+    }
+
+    case 'players/joined':
+      return { ...state, players: { ...state.players, [action.player.id]: action.player } };
+
+    case 'players/left': {
+      if (!state.players[action.playerId]) return state;
+      const players = { ...state.players };
+      delete players[action.playerId];
+      return { ...state, players };
+    }
+
+    case 'players/moved':
+      return updatePlayer(state, action.playerId, { position: action.position });
+
+    // Without a server nobody else takes turns, so the local player carries on alone
+    case 'players/cleared':
+      return startTurn({ ...state, players: {}, localPlayerId: null, ownedTiles: {} }, state.turn.number, null);
+
+    // A move along `path` costs movement points and is refused outside the local player's move phase,
+    // as is a path that cannot be walked, see getPathCost
+    case 'localPlayer/moved': {
+      let lastMove: PathResult | null = null;
+      if (action.path) {
+        const cost = getPathCost(state, action.path, action);
+        if (cost === null || selectTurnError(state, 'move') || cost > state.movementPoints) return state;
+        lastMove = { path: action.path, cost };
+      }
+
+      const localPosition = { q: action.q, r: action.r, level: state.mapLevel };
+      const movementPoints = state.movementPoints - (lastMove?.cost ?? 0);
+      const moved = { ...state, localPosition, lastMove, movementPoints };
+      return state.localPlayerId ? updatePlayer(moved, state.localPlayerId, { position: localPosition }) : moved;
+    }
+
+    case 'localPlayer/movementPointsChanged':
+      return { ...state, movementPoints: action.movementPoints };
+
+    case 'localPlayer/movementRangeToggled':
+      return { ...state, showMovementRange: action.visible };
+
+    case 'build/modeChanged':
+      return { ...state, buildMode: action.building };
+
+    // Applied right away; the server echoes the change back as a tile update
+    case 'build/placed': {
+      const player = selectLocalPlayer(state);
+      if (!player || selectPlacementError(state, action, action.building)) return state;
+
+      // Claim effects take the unowned land around the building along with its own tile
+      const radius = Math.max(0, ...getBuildingEffects(action.building, 'claim').map((effect) => effect.radius));
+      const claimed = hexRange(action, radius)
+        .filter((hex) => !hexEquals(hex, action))
+        .map((hex) => selectTile(state, hex.q, hex.r))
+        .filter((tile): tile is TileData => !!tile && !tile.ownerId && !!TERRAINS[tile.terrain].claimCost)
+        .map(({ q, r }) => ({ q, r, ownerId: player.id }));
+      const built = applyTileUpdates(state, [
+        { q: action.q, r: action.r, ownerId: player.id, building: action.building },
+        ...claimed,
+      ]);
+      const lastBuild = { q: action.q, r: action.r, level: state.mapLevel, building: action.building };
+      return updatePlayer({ ...spendAction(built), buildMode: null, lastBuild }, player.id, {
+        resources: spendResources(player.resources, BUILDINGS[action.building].cost),
+      });
+    }
+
+    case 'territory/claimed': {
+      const player = selectLocalPlayer(state);
+      const tile = selectTile(state, action.q, action.r);
+      if (!player || !tile || selectClaimError(state, tile)) return state;
+
+      const claimed = applyTileUpdates(state, [{ q: action.q, r: action.r, ownerId: player.id }]);
+      const lastClaim = { q: action.q, r: action.r, level: state.mapLevel };
+      return updatePlayer({ ...spendAction(claimed), lastClaim }, player.id, {
+        resources: spendResources(player.resources, TERRAINS[tile.terrain].claimCost ?? {}),
+      });
+    }
+
+    case 'turn/started':
+      return startTurn(state, action.number, action.activePlayerId);
+
+    case 'turn/phaseAdvanced':
+      if (selectTurnError(state, 'move')) return state;
+      return { ...state, turn: { ...state.turn, phase: 'build' } };
+
+    case 'turn/ended': {
+      const { turn } = state;
+      if (!isPlayersTurn(turn, state.localPlayerId) || turn.phase === 'end') return state;
+
+      const ended: GameStoreState = {
+        ...state,
+        turn: { ...turn, phase: 'end' },
+        buildMode: null,
+        lastEndedTurn: turn.number,
+      };
+      // A server pays the income itself and sends the new stockpile with its next snapshot
+      if (turn.activePlayerId !== null) return ended;
+
+      const player = selectLocalPlayer(state);
+      const income = selectIncome(state);
+      const paid = player && income ? updatePlayer(ended, player.id, { resources: collectIncome(player.resources, income) }) : ended;
+      return startTurn(paid, turn.number + 1, null);
+    }
+
+    case 'selection/focused':
+      if (sameAxial(state.selection.focused, action.tile)) return state;
+      return { ...state, selection: { ...state.selection, focused: action.tile } };
+
+    case 'selection/hovered':
+      if (sameAxial(state.selection.hovered, action.tile)) return state;
+      return { ...state, selection: { ...state.selection, hovered: action.tile } };
+
+    case 'map/descended': {
+      const child = getChildMap(selectMap(state), action.tile);
+      return child ? enterMap(state, child, { q: 0, r: 0 }) : state;
+    }
+
+    case 'map/ascended': {
+      const ancestor = getAncestorMap(selectMap(state), action.level);
+      return ancestor ? enterMap(state, ancestor.map, ancestor.tile) : state;
+    }
+
+    case 'camera/moved':
+      return { ...state, camera: action.camera };
+
+    case 'game/imported': {
+      const { game } = action;
+      const players: GameStoreState['players'] = {};
+      game.players.forEach((player) => (players[player.id] = player));
+      return enterMap(
+        {
+          ...state,
+          players,
+          localPlayerId: game.localPlayerId,
+          turn: game.turn,
+          explored: game.explored,
+          ownedTiles: game.ownedTiles,
+          // Edits belonged to the game being replaced
+          tileEdits: {},
+          lastMove: null,
+          lastBuild: null,
+          lastClaim: null,
+          buildMode: null,
+        },
+        game.map,
+        game.localPosition
+      );
+    }
+
+    case 'editor/toggled':
+      return { ...state, editor: { ...state.editor, enabled: action.enabled, lineStart: null } };
+
+    case 'editor/toolChanged':
+      return { ...state, editor: { ...state.editor, ...action.tool, lineStart: null } };
+
+    case 'editor/painted': {
+      const { editor } = state;
+      if (!editor.enabled) return state;
+      // The line brush's first click only marks where the line starts
+      if (editor.brush === 'line' && !editor.lineStart) {
+        return { ...state, editor: { ...editor, lineStart: action.tile } };
+      }
+
+      const covered = getBrushTiles(editor.brush, action.tile, { ...editor, getTile: selectTileLookup(state) });
+      const before: TileData[] = [];
+      const after: TileData[] = [];
+      covered.forEach((tile) => {
+        const painted = paintTile(tile, editor.paint);
+        if (painted === tile) return;
+        before.push(tile);
+        after.push(painted);
+      });
+      const painted = { ...state, editor: { ...editor, lineStart: null } };
+      if (after.length === 0) return painted;
+      return {
+        ...applyEdits(painted, after),
+        editor: { ...painted.editor, undo: [...editor.undo, { before, after }], redo: [] },
+      };
+    }
+
+    case 'editor/undone': {
+      const stroke = state.editor.undo[state.editor.undo.length - 1];
+      if (!stroke) return state;
+      return {
+        ...applyEdits(state, stroke.before),
+        editor: { ...state.editor, undo: state.editor.undo.slice(0, -1), redo: [...state.editor.redo, stroke] },
+      };
+    }
+
+    case 'editor/redone': {
+      const stroke = state.editor.redo[state.editor.redo.length - 1];
+      if (!stroke) return state;
+      return {
+        ...applyEdits(state, stroke.after),
+        editor: { ...state.editor, undo: [...state.editor.undo, stroke], redo: state.editor.redo.slice(0, -1) },
+      };
+    }
+
+    case 'connection/statusChanged':
+      return state.connectionStatus === action.status ? state : { ...state, connectionStatus: action.status };
+  }
+};
+
+// Selectors
+/************************************************************************************************************************************************** */
+// Selectors returning objects are memoized on their inputs so subscribers can compare by reference
+
+const memoize = <Args extends unknown[], Output>(compute: (...args: Args) => Output) => {
+  let lastArgs: Args | null = null;
+  let lastOutput: Output;
+  return (...args: Args) => {
+    if (!lastArgs || args.some((arg, i) => arg !== lastArgs![i])) {
+      lastArgs = args;
+      lastOutput = compute(...args);
+    }
+    return lastOutput;
+  };
+};
+
+// Like memoize for values derived from single tiles, by hexKey: only the tiles changed since the
+// previous call are derived again (along with their neighbors if `withNeighbors`, for values that
+// depend on them), see forEachChangedTile. Tiles deriving null are left out.
+const deriveByTile = <Output extends object>(
+  derive: (tile: TileData, getTile: TileLookup) => Output | null,
+  withNeighbors = false
+) => {
+  let lastTiles: TileChunks = {};
+  let lastOutput: { [key: string]: Output } = {};
+  return (tiles: TileChunks) => {
+    if (tiles === lastTiles) return lastOutput;
+    const changed = new Set<string>();
+    forEachChangedTile(lastTiles, tiles, (key) => {
+      changed.add(key);
+      if (withNeighbors) hexNeighbors(parseHexKey(key)).forEach(({ q, r }) => changed.add(hexKey(q, r)));
+    });
+
+    const getTile = tileLookup(tiles);
+    let output = lastOutput;
+    changed.forEach((key) => {
+      const { q, r } = parseHexKey(key);
+      const tile = getTile(q, r);
+      const value = tile && derive(tile, getTile);
+      if (!value && !output[key]) return;
+      if (output === lastOutput) output = { ...lastOutput };
+      if (value) output[key] = value;
+      else delete output[key];
+    });
+    lastTiles = tiles;
+    lastOutput = output;
+    return output;
+  };
+};
+
+export const selectMapLevel = (state: GameStoreState) => state.mapLevel;
+
+export const selectMapPath = (state: GameStoreState) => state.mapPath;
+
+const mapLocation = memoize((level: number, path: MapParent[]): MapLocation => ({ level, path }));
+export const selectMap = (state: GameStoreState): MapLocation => mapLocation(state.mapLevel, state.mapPath);
+
+const mapKey = memoize(getMapKey);
+export const selectMapKey = (state: GameStoreState) => mapKey(selectMap(state));
+
+export const selectTile = (state: GameStoreState, q: number, r: number): TileData | null =>
+  getChunkedTile(state.tiles, q, r);
+
+const tilesList = memoize((tiles: TileChunks) => Object.values(tiles).flatMap((chunk) => Object.values(chunk)));
+export const selectTiles = (state: GameStoreState): TileData[] => tilesList(state.tiles);
+
+export const selectTileUpdates = (state: GameStoreState) => state.tileUpdates;
+
+const playersList = memoize((players: GameStoreState['players']) => Object.values(players));
+export const selectPlayers = (state: GameStoreState): PlayerData[] => playersList(state.players);
+
+export const selectLocalPlayerId = (state: GameStoreState) => state.localPlayerId;
+
+export const selectLocalPosition = (state: GameStoreState) => state.localPosition;
+
+const NOTHING_OWNED: GameStoreState['ownedTiles'][string] = {};
+
+const visionSources = memoize(
+  (position: PlayerPosition, playerId: string | null, owned: GameStoreState['ownedTiles'][string]) =>
+    getVisionSources(position, playerId, Object.values(owned))
+);
+
+const visionReach = memoize(getVisionReach);
+
+// Whether a tile within `reach` started or stopped blocking sight between two versions of state.tiles
+const sightChanged = (previous: TileChunks, next: TileChunks, reach: Set<string>) => {
+  let changed = false;
+  forEachChangedTile(previous, next, (key, tile, before) => {
+    if (!changed && reach.has(key) && blocksSight(tile) !== blocksSight(before)) changed = true;
+  });
+  return changed;
+};
+
+// Like memoize, except that new tiles only count as a change when they block sight differently within
+// reach of the sources, so chunks loading or leaving elsewhere keep the same set
+const createVisibleTiles = () => {
+  let lastSources: VisionSource[] | null = null;
+  let lastTiles: TileChunks = {};
+  let lastVisible = new Set<string>();
+  return (sources: VisionSource[], tiles: TileChunks) => {
+    if (sources !== lastSources || (tiles !== lastTiles && sightChanged(lastTiles, tiles, visionReach(sources)))) {
+      lastVisible = computeVisibleTiles(sources, tileLookup(tiles));
+    }
+    lastSources = sources;
+    lastTiles = tiles;
+    return lastVisible;
+  };
+};
+const visibleTiles = createVisibleTiles();
+// Keys (see hexKey) of the tiles of the current map the local player sees right now, from where it
+// stands and from its territory
+export const selectVisibleTiles = (state: GameStoreState): Set<string> =>
+  visibleTiles(
+    visionSources(state.localPosition, state.localPlayerId, state.ownedTiles[selectMapKey(state)] ?? NOTHING_OWNED),
+    state.tiles
+  );
+
+const NOTHING_EXPLORED: { [key: string]: true } = {};
+// Keys (see hexKey) of the tiles of the current map the local player has seen, including the visible ones
+export const selectExploredTiles = (state: GameStoreState) => state.explored[selectMapKey(state)] ?? NOTHING_EXPLORED;
+
+export type VisibilityLookup = (q: number, r: number) => Visibility;
+
+const visibilityLookup = memoize(
+  (visible: Set<string>, explored: { [key: string]: true }): VisibilityLookup =>
+    (q, r) => {
+      const key = hexKey(q, r);
+      if (visible.has(key)) return 'visible';
+      return explored[key] ? 'explored' : 'unexplored';
+    }
+);
+const SEE_EVERYTHING: VisibilityLookup = () => 'visible';
+// The editor shows the whole map, fog of war or not
+export const selectVisibility = (state: GameStoreState): VisibilityLookup =>
+  state.editor.enabled ? SEE_EVERYTHING : visibilityLookup(selectVisibleTiles(state), selectExploredTiles(state));
+
+export interface FogOfWar {
+  visibility: VisibilityLookup;
+  // Keys (see hexKey) of the tiles in sight, null when everything is. Tiles only change visibility
+  // when they come into or go out of sight.
+  visible: Set<string> | null;
+}
+
+const fogOfWar = memoize((visibility: VisibilityLookup, visible: Set<string> | null): FogOfWar => ({ visibility, visible }));
+export const selectFogOfWar = (state: GameStoreState): FogOfWar =>
+  fogOfWar(selectVisibility(state), state.editor.enabled ? null : selectVisibleTiles(state));
+
+const visiblePlayers = memoize((players: GameStoreState['players'], level: number, visible: Set<string>) =>
+  Object.values(players).filter(
+    ({ position }) => position?.level === level && visible.has(hexKey(position.q, position.r))
+  )
+);
+// Players standing where the local player can see them
+export const selectVisiblePlayers = (state: GameStoreState): PlayerData[] =>
+  visiblePlayers(state.players, state.mapLevel, selectVisibleTiles(state));
+
+export const selectFocusedCoords = (state: GameStoreState) => state.selection.focused;
+
+export const selectHoveredCoords = (state: GameStoreState) => state.selection.hovered;
+
+export const selectFocusedTile = (state: GameStoreState): TileData | null => {
+  const focused = state.selection.focused;
+  return focused ? selectTile(state, focused.q, focused.r) : null;
+};
+
+const tileLookup = memoize((tiles: TileChunks): TileLookup => (q, r) => getChunkedTile(tiles, q, r));
+export const selectTileLookup = (state: GameStoreState): TileLookup => tileLookup(state.tiles);
+
+export const selectTurn = (state: GameStoreState) => state.turn;
+
+export const selectIsLocalTurn = (state: GameStoreState) => isPlayersTurn(state.turn, state.localPlayerId);
+
+export const selectLastEndedTurn = (state: GameStoreState) => state.lastEndedTurn;
+
+export const selectMovementPoints = (state: GameStoreState) => state.movementPoints;
+
+export const selectActionPoints = (state: GameStoreState) => state.actionPoints;
+
+// Why the local player cannot take `action` right now, or undefined when it can
+export const selectTurnError = (state: GameStoreState, action: TurnAction): string | undefined => {
+  const error = getTurnError(state.turn, state.localPlayerId, action);
+  if (error) return error;
+  if (action === 'move' && state.movementPoints <= 0) return 'You have no movement left this turn.';
+  if (action === 'build' && state.actionPoints <= 0) return 'You have no actions left this turn.';
+  return undefined;
+};
+
+export const selectLastMove = (state: GameStoreState) => state.lastMove;
+
+export interface MovePlan extends PathResult {
+  // False when the path exists but costs more than the movement points
+  withinBudget: boolean;
+}
+
+// Routes are only searched up to this many times the movement points left. Farther or
+// unreachable targets then cost a bounded search on every hover instead of every loaded tile.
+const MOVE_PLAN_COST_FACTOR = 3;
+
+const planMove = (
+  from: Axial,
+  target: Axial,
+  tiles: TileChunks,
+  movementPoints: number
+): MovePlan | null => {
+  const result = findPath(from, target, tileLookup(tiles), movementPoints * MOVE_PLAN_COST_FACTOR);
+  return result && { ...result, withinBudget: result.cost <= movementPoints };
+};
+
+// Cheapest route for the local player to `target` on the loaded tiles, or null if there is none
+// within reach of a few turns' movement (see MOVE_PLAN_COST_FACTOR)
+export const selectMovePlan = (state: GameStoreState, target: Axial): MovePlan | null =>
+  planMove(state.localPosition, target, state.tiles, state.movementPoints);
+
+const pathPreview = memoize(
+  (hovered: Axial | null, position: PlayerPosition, tiles: TileChunks, movementPoints: number) =>
+    hovered && !hexEquals(hovered, position) ? planMove(position, hovered, tiles, movementPoints) : null
+);
+// Route to the hovered tile, recomputed only when one of its inputs changes; hidden in build mode
+// and whenever the local player cannot move
+export const selectPathPreview = (state: GameStoreState): MovePlan | null =>
+  state.buildMode || selectTurnError(state, 'move') ? null : pathPreview(state.selection.hovered, state.localPosition, state.tiles, state.movementPoints);
+
+export const selectShowMovementRange = (state: GameStoreState) => state.showMovementRange;
+
+const movementRange = memoize((position: PlayerPosition, tiles: TileChunks, movementPoints: number) =>
+  getMovementRange(position, tileLookup(tiles), movementPoints)
+);
+// Everything the local player can reach this turn; null while the overlay is switched off
+// or the local player cannot move
+export const selectMovementRange = (state: GameStoreState): MovementRange | null =>
+  state.showMovementRange && !selectTurnError(state, 'move') ? movementRange(state.localPosition, state.tiles, state.movementPoints) : null;
+
+export const selectLocalPlayer = (state: GameStoreState): PlayerData | null =>
+  state.localPlayerId ? state.players[state.localPlayerId] ?? null : null;
+
+export const selectBuildMode = (state: GameStoreState) => state.buildMode;
+
+export const selectLastBuild = (state: GameStoreState) => state.lastBuild;
+
+export const selectLastClaim = (state: GameStoreState) => state.lastClaim;
+
+export const selectClaimError = (state: GameStoreState, tile: Axial) =>
+  selectTurnError(state, 'build') ??
+  getClaimError(selectTile(state, tile.q, tile.r), selectLocalPlayer(state), state.localPosition, selectTileLookup(state));
+
+export interface TerritoryBorder extends TerritoryEdge {
+  color: string;
+}
+
+const edgesByTile = deriveByTile((tile, getTile) => {
+  const edges = getTileTerritoryEdges(tile, getTile);
+  return edges.length > 0 ? edges : null;
+}, true);
+const territoryBorders = memoize(
+  (edges: { [key: string]: TerritoryEdge[] }, players: GameStoreState['players'], explored: { [key: string]: true }) =>
+    Object.keys(edges).flatMap((key) =>
+      explored[key]
+        ? edges[key].map((edge): TerritoryBorder => ({ ...edge, color: players[edge.ownerId]?.color ?? UNKNOWN_OWNER_COLOR }))
+        : []
+    )
+);
+// Borders of every territory on the explored tiles, in the owner's color
+export const selectTerritoryBorders = (state: GameStoreState): TerritoryBorder[] =>
+  territoryBorders(edgesByTile(state.tiles), state.players, selectExploredTiles(state));
+
+export const selectPlacementError = (state: GameStoreState, tile: Axial, building: BuildingType) =>
+  selectTurnError(state, 'build') ?? getPlacementError(selectTile(state, tile.q, tile.r), building, selectLocalPlayer(state));
+
+export interface BuildPreview {
+  q: number;
+  r: number;
+  building: BuildingType;
+  // Why it cannot be placed there, undefined when it can
+  error: string | undefined;
+}
+
+const buildPreview = memoize(
+  (
+    building: BuildingType | null,
+    hovered: Axial | null,
+    tiles: TileChunks,
+    player: PlayerData | null,
+    turnError: string | undefined
+  ) =>
+    building && hovered
+      ? {
+          ...hovered,
+          building,
+          error: turnError ?? getPlacementError(getChunkedTile(tiles, hovered.q, hovered.r), building, player),
+        }
+      : null
+);
+// Ghost of the building being placed on the hovered tile
+export const selectBuildPreview = (state: GameStoreState): BuildPreview | null =>
+  buildPreview(
+    state.buildMode,
+    state.selection.hovered,
+    state.tiles,
+    selectLocalPlayer(state),
+    selectTurnError(state, 'build')
+  );
+
+export interface PlacedBuilding {
+  q: number;
+  r: number;
+  building: BuildingType;
+}
+
+const buildingsByTile = deriveByTile(({ q, r, building }): PlacedBuilding | null => (building ? { q, r, building } : null));
+const placedBuildings = memoize(
+  (buildings: { [key: string]: PlacedBuilding }, explored: { [key: string]: true }) =>
+    Object.keys(buildings).flatMap((key) => (explored[key] ? [buildings[key]] : []))
+);
+// Buildings on the explored tiles of the current level
+export const selectBuildings = (state: GameStoreState): PlacedBuilding[] =>
+  placedBuildings(buildingsByTile(state.tiles), selectExploredTiles(state));
+
+const incomeReport = memoize((playerId: string | null, ownedTiles: GameStoreState['ownedTiles']) =>
+  playerId ? computeIncome(playerId, Object.values(ownedTiles).flatMap((tiles) => Object.values(tiles))) : null
+);
+// Per-turn income of the local player from its tiles on every map, see GameStoreState.ownedTiles
+export const selectIncome = (state: GameStoreState): IncomeReport | null => incomeReport(state.localPlayerId, state.ownedTiles);
+
+export const selectCamera = (state: GameStoreState) => state.camera;
+
+export const selectConnectionStatus = (state: GameStoreState) => state.connectionStatus;
+
+export const selectEditor = (state: GameStoreState) => state.editor;
+
+const NO_EDITS: MapEdits['tiles'] = {};
+// Tiles of the current map changed in the editor, by hexKey
+export const selectTileEdits = (state: GameStoreState) => state.tileEdits[selectMapKey(state)]?.tiles ?? NO_EDITS;
+
+// Store
+/************************************************************************************************************************************************** */
+
+export type GameStoreListener = (state: GameStoreState, previous: GameStoreState) => void;
+
+export const createGameStore = (initialState: GameStoreState = createInitialGameState()) => {
+  let state = initialState;
+  const listeners = new Set<GameStoreListener>();
+
+  const getState = () => state;
+
+  const dispatch = (action: GameAction) => {
+    const previous = state;
+    state = gameReducer(state, action);
+    if (state !== previous) listeners.forEach((listener) => listener(state, previous));
+  };
+
+  const subscribe = (listener: GameStoreListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // Calls `onChange` with the selected value now and every time it changes (by reference)
+  const watch = <T>(selector: (state: GameStoreState) => T, onChange: (value: T, previous: T | undefined) => void) => {
+    let current = selector(state);
+    onChange(current, undefined);
+    return subscribe((next) => {
+      const value = selector(next);
+      if (value === current) return;
+      const previous = current;
+      current = value;
+      onChange(value, previous);
+    });
+  };
+
+  return { getState, dispatch, subscribe, watch };
+};
+
+export type GameStore = ReturnType<typeof createGameStore>;
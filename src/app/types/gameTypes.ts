@@ -1,4 +1,6 @@
 // app/types/gameTypes.ts
+import type { BuildingType, TerrainType } from '../data/content';
+import type { MapLocation } from '../utils/mapHierarchy';
 
 export type ResourceType = 'wood' | 'stone' | 'iron' | 'gold' | 'food';
 
@@ -7,24 +9,65 @@ export interface Resource {
   amount: number;
 }
 
+// What terrains and buildings are and do lives in data/content.ts
 export interface TileData {
     q: number;
     r: number;
-    terrain: string;
+    terrain: TerrainType;
     ownerId: string | null;
-    resources: { type: string; amount: number; }[]; // Replace 'any' with the actual type of resources
-    building: string | null; // Replace 'any' with the actual type of building
+    // Deposits on the tile itself, on top of what its terrain yields
+    resources: Resource[];
+    building: BuildingType | null;
     canInteract: boolean;
   }
 
+// Where a player stands; positions are per map level
+export interface PlayerPosition {
+  q: number;
+  r: number;
+  level: number;
+}
+
 export interface PlayerData {
   id: string;
   name: string;
   color: string;
   resources: Resource[];
+  // Only known for players streamed from the realtime channel
+  position?: PlayerPosition | null;
 }
 
 export interface GameState {
   tiles: TileData[];
   players: PlayerData[];
-}
\ No newline at end of file
+}
+
+// One streamed block of the map, see utils/chunks.ts for the chunk layout
+export interface MapChunk {
+  q: number;
+  r: number;
+  level: number;
+  tiles: TileData[];
+}
+
+// Partial change to one tile pushed over the realtime channel; omitted fields are unchanged
+export interface TileUpdate {
+  q: number;
+  r: number;
+  ownerId?: string | null;
+  building?: BuildingType | null;
+}
+
+// A map saved to the backend, opened again at the map it was saved on
+export interface SavedMap {
+  id: string;
+  name: string;
+  // Map radius
+  size: number;
+  location: MapLocation;
+  ownerName: string;
+  // ISO 8601
+  createdAt: string;
+  // Image data URL of the map from above, null when saved without one
+  thumbnail: string | null;
+}
@@ -1,62 +1,41 @@
 // utils/api.ts
 import { useAuth } from '../auth/AuthContext';
-import { useCallback, useRef } from 'react';
-
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL;
+import { useCallback, useMemo } from 'react';
+import { ApiError, createApiClient } from './apiClient';
+import { sendRequest } from './dataSource';
 
 export const useAuthenticatedRequest = () => {
-  const { accessToken, refreshToken, logout } = useAuth();
-  const accessTokenRef = useRef(accessToken);
-  const refreshTokenRef = useRef(refreshToken);
-
-  // Update refs when tokens change
-  if (accessToken !== accessTokenRef.current) {
-    accessTokenRef.current = accessToken;
-  }
-  if (refreshToken !== refreshTokenRef.current) {
-    refreshTokenRef.current = refreshToken;
-  }
-
-  const refreshAccessToken = useCallback(async () => {
-    try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/auth/refresh`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ refresh_token: refreshTokenRef.current }),
-      });
-      if (!response.ok) throw new Error('Token refresh failed');
-      const data = await response.json();
-      localStorage.setItem('accessToken', data.access_token);
-      accessTokenRef.current = data.access_token;
-      return data.access_token;
-    } catch (error) {
-      console.error('Token refresh error:', error);
-      logout();
-      throw error;
-    }
-  }, [logout]);
+  const { getValidAccessToken, refreshAccessToken } = useAuth();
 
   const authenticatedRequest = useCallback(async (url: string, options: RequestInit = {}) => {
     const headers = new Headers(options.headers);
-    headers.set('Authorization', `Bearer ${accessTokenRef.current}`);
+    const usedAccessToken = await getValidAccessToken();
+    headers.set('Authorization', `Bearer ${usedAccessToken}`);
 
-    try {
-      const response = await fetch(url, { ...options, headers });
-      if (response.status === 401) {
-        const newAccessToken = await refreshAccessToken();
-        headers.set('Authorization', `Bearer ${newAccessToken}`);
-        const retryResponse = await fetch(url, { ...options, headers });
-        if (retryResponse.status === 401) {
-          throw new Error('Authentication failed');
-        }
-        return retryResponse;
+    const response = await sendRequest(url, { ...options, headers });
+    if (response.status === 401) {
+      // If another request already refreshed meanwhile, just retry with its token;
+      // otherwise all concurrent 401s share one refresh
+      const currentAccessToken = await getValidAccessToken();
+      const newAccessToken =
+        currentAccessToken && currentAccessToken !== usedAccessToken
+          ? currentAccessToken
+          : await refreshAccessToken();
+      headers.set('Authorization', `Bearer ${newAccessToken}`);
+      const retryResponse = await sendRequest(url, { ...options, headers });
+      if (retryResponse.status === 401) {
+        throw await ApiError.fromResponse(url, retryResponse);
       }
-      return response;
-    } catch (error) {
-      console.error('Authenticated request error:', error);
-      throw error;
+      return retryResponse;
     }
-  }, [refreshAccessToken]);
+    return response;
+  }, [getValidAccessToken, refreshAccessToken]);
 
   return authenticatedRequest;
-};
\ No newline at end of file
+};
+
+// Typed backend client whose requests carry (and refresh) the access token
+export const useApiClient = () => {
+  const authenticatedRequest = useAuthenticatedRequest();
+  return useMemo(() => createApiClient(authenticatedRequest), [authenticatedRequest]);
+};
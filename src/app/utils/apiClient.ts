@@ -0,0 +1,374 @@
+// app/utils/apiClient.ts
+// Typed client for the backend REST API. Every response is validated against a schema,
+// and failures surface as ApiError / NetworkError / ResponseValidationError.
+// React code should get an authenticated client through useApiClient() in ./api.
+import { BuildingType, FALLBACK_TERRAIN, RESOURCE_TYPES, TerrainType, isBuildingType, isTerrainType } from '../data/content';
+import { SavedMap, TileData } from '../types/gameTypes';
+import { ChunkCoord } from './chunks';
+import { sendRequest } from './dataSource';
+import { MapLocation, formatMapParents, parseMapParents } from './mapHierarchy';
+import { Infer, Schema, SchemaError, array, nullable, number, object, oneOf, optional, string, union } from './schema';
+
+export const API_BASE_URL = (process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8080').replace(/\/+$/, '');
+
+export const apiUrl = (path: string) => `${API_BASE_URL}/api/v1${path}`;
+
+export type RequestFn = (url: string, options?: RequestInit) => Promise<Response>;
+
+// Errors
+/************************************************************************************************************************************************** */
+
+// The server answered with a non-2xx status
+export class ApiError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly status: number,
+    message: string,
+    public readonly body: unknown = null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  static async fromResponse(url: string, response: Response) {
+    let body: unknown = null;
+    try {
+      body = await response.json();
+    } catch {
+      // Error bodies are optional
+    }
+
+    const detail =
+      typeof body === 'object' && body !== null
+        ? (body as { detail?: unknown; message?: unknown; error?: unknown })
+        : {};
+    const serverMessage = [detail.detail, detail.message, detail.error].find((value) => typeof value === 'string');
+
+    return new ApiError(
+      url,
+      response.status,
+      (serverMessage as string | undefined) ?? `Request failed: ${response.status} ${response.statusText}`,
+      body
+    );
+  }
+}
+
+// The request never got a response (offline, CORS, DNS...)
+export class NetworkError extends Error {
+  constructor(public readonly url: string, public readonly cause: unknown) {
+    super(`Could not reach the server (${url})`);
+    this.name = 'NetworkError';
+  }
+}
+
+// The server answered 2xx but the body does not match the expected contract
+export class ResponseValidationError extends Error {
+  constructor(public readonly url: string, message: string, public readonly cause: unknown = null) {
+    super(`Unexpected response from ${url}: ${message}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+// Schemas
+/************************************************************************************************************************************************** */
+
+// Terrain and buildings are checked in toTileData, so one unknown value does not fail the whole chunk
+export const apiTileSchema = object({
+  q: number(),
+  r: number(),
+  terrain: string(),
+  // Only sent for tiles of saved maps that were changed in the editor
+  owner_id: optional(nullable(string())),
+  building: optional(nullable(string())),
+  resources: optional(array(object({ type: oneOf(RESOURCE_TYPES), amount: number() }))),
+});
+
+export const tokenResponseSchema = object({
+  access_token: string(),
+  refresh_token: string(),
+});
+
+export const refreshResponseSchema = object({
+  access_token: string(),
+  // Only present when the backend rotates refresh tokens
+  refresh_token: optional(string()),
+});
+
+export const tilesResponseSchema = object({
+  tiles: array(apiTileSchema),
+});
+
+export const messageResponseSchema = object({
+  message: optional(string()),
+});
+
+export const saveMapResponseSchema = object({
+  map_id: union(string(), number()),
+});
+
+export const savedMapSchema = object({
+  id: union(string(), number()),
+  name: string(),
+  size: number(),
+  level: number(),
+  // See formatMapParents
+  parents: string(),
+  owner_name: string(),
+  created_at: string(),
+  thumbnail: nullable(string()),
+});
+
+export const savedMapsResponseSchema = object({
+  maps: array(savedMapSchema),
+});
+
+export type APITileData = Infer<typeof apiTileSchema>;
+export type TokenResponse = Infer<typeof tokenResponseSchema>;
+export type RefreshResponse = Infer<typeof refreshResponseSchema>;
+export type SaveMapResponse = Infer<typeof saveMapResponseSchema>;
+export type APISavedMap = Infer<typeof savedMapSchema>;
+export type MessageResponse = Infer<typeof messageResponseSchema>;
+
+const reportedUnknownValues = new Set<string>();
+
+// Once per value, not for every tile that has it
+const reportUnknownValue = (kind: string, value: string, shownAs: string) => {
+  const key = `${kind}:${value}`;
+  if (reportedUnknownValues.has(key)) return;
+  reportedUnknownValues.add(key);
+  console.warn(`Unknown ${kind} "${value}" from the server, shown as ${shownAs}`);
+};
+
+export const toTerrainType = (terrain: string): TerrainType => {
+  if (isTerrainType(terrain)) return terrain;
+  reportUnknownValue('terrain', terrain, FALLBACK_TERRAIN);
+  return FALLBACK_TERRAIN;
+};
+
+export const toBuildingType = (building: string | null): BuildingType | null => {
+  if (building === null || isBuildingType(building)) return building;
+  reportUnknownValue('building', building, 'no building');
+  return null;
+};
+
+export const toTileData = (tile: APITileData): TileData => ({
+  q: tile.q,
+  r: tile.r,
+  terrain: toTerrainType(tile.terrain),
+  ownerId: tile.owner_id ?? null,
+  resources: tile.resources ?? [],
+  building: toBuildingType(tile.building ?? null),
+  canInteract: true,
+});
+
+export const toAPITileData = (tile: TileData): APITileData => ({
+  q: tile.q,
+  r: tile.r,
+  terrain: tile.terrain,
+  owner_id: tile.ownerId,
+  building: tile.building,
+  resources: tile.resources,
+});
+
+export const toSavedMap = (map: APISavedMap): SavedMap => ({
+  id: String(map.id),
+  name: map.name,
+  size: map.size,
+  location: { level: map.level, path: parseMapParents(map.parents, map.level) },
+  ownerName: map.owner_name,
+  createdAt: map.created_at,
+  thumbnail: map.thumbnail,
+});
+
+// What to save; without it the backend saves the procedural map last loaded
+export interface SaveMapDetails {
+  name: string;
+  size: number;
+  location: MapLocation;
+  thumbnail: string | null;
+  // Tiles changed in the editor, by map; only the mock backend understands these two so far,
+  // see utils/chunkSource.ts
+  edits?: { map: MapLocation; tiles: TileData[] }[];
+  // Saved map the edits were made on, whose own edits and world the new map keeps
+  basedOn?: string;
+}
+
+// Requests
+/************************************************************************************************************************************************** */
+
+export const sendJSON = async <T>(
+  request: RequestFn,
+  path: string,
+  schema: Schema<T>,
+  options: RequestInit = {}
+): Promise<T> => {
+  const url = apiUrl(path);
+  const headers = new Headers(options.headers);
+  if (options.body !== undefined && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  let response: Response;
+  try {
+    response = await request(url, { ...options, headers });
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    throw new NetworkError(url, error);
+  }
+
+  if (!response.ok) throw await ApiError.fromResponse(url, response);
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (error) {
+    throw new ResponseValidationError(url, 'body is not valid JSON', error);
+  }
+
+  try {
+    return schema.parse(data);
+  } catch (error) {
+    if (error instanceof SchemaError) throw new ResponseValidationError(url, error.message, error);
+    throw error;
+  }
+};
+
+// Auth endpoints are called without an access token
+export const loginRequest = (username: string, password: string) =>
+  sendJSON(sendRequest, '/auth/login', tokenResponseSchema, {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  });
+
+export const refreshRequest = (refreshToken: string | null) =>
+  sendJSON(sendRequest, '/auth/refresh', refreshResponseSchema, {
+    method: 'POST',
+    body: JSON.stringify({ refresh_token: refreshToken }),
+  });
+
+// New accounts are signed in straight away, so this returns tokens like login
+export const registerRequest = (username: string, email: string, password: string) =>
+  sendJSON(sendRequest, '/auth/register', tokenResponseSchema, {
+    method: 'POST',
+    body: JSON.stringify({ username, email, password }),
+  });
+
+// Revokes the refresh token server side
+export const logoutRequest = (refreshToken: string | null) =>
+  sendJSON(sendRequest, '/auth/logout', messageResponseSchema, {
+    method: 'POST',
+    body: JSON.stringify({ refresh_token: refreshToken }),
+  });
+
+export const forgotPasswordRequest = (email: string) =>
+  sendJSON(sendRequest, '/auth/forgot-password', messageResponseSchema, {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+
+export const resetPasswordRequest = (token: string, password: string) =>
+  sendJSON(sendRequest, '/auth/reset-password', messageResponseSchema, {
+    method: 'POST',
+    body: JSON.stringify({ token, password }),
+  });
+
+// Endpoints that need an access token; `request` is expected to attach it
+export const createApiClient = (request: RequestFn) => ({
+  // Escape hatch for endpoints without a dedicated method yet
+  request: <T>(path: string, schema: Schema<T>, options?: RequestInit) => sendJSON(request, path, schema, options),
+
+  getProceduralMap: async (size: number, level: number): Promise<TileData[]> => {
+    const data = await sendJSON(request, `/maps/procedural/${size}?level=${level}`, tilesResponseSchema);
+    return data.tiles.map(toTileData);
+  },
+
+  getMapChunk: async (size: number, chunk: ChunkCoord, map: MapLocation, chunkSize: number): Promise<TileData[]> => {
+    const parents = encodeURIComponent(formatMapParents(map.path));
+    const data = await sendJSON(
+      request,
+      `/maps/procedural/${size}/chunks/${chunk.q}/${chunk.r}?level=${map.level}&parents=${parents}&chunk_size=${chunkSize}`,
+      tilesResponseSchema
+    );
+    return data.tiles.map(toTileData);
+  },
+
+  saveProceduralMap: (details?: SaveMapDetails) =>
+    sendJSON(request, '/maps/procedural/save', saveMapResponseSchema, {
+      method: 'POST',
+      body: details
+        ? JSON.stringify({
+            name: details.name,
+            size: details.size,
+            level: details.location.level,
+            parents: formatMapParents(details.location.path),
+            thumbnail: details.thumbnail,
+            edits: details.edits?.map(({ map, tiles }) => ({
+              level: map.level,
+              parents: formatMapParents(map.path),
+              tiles: tiles.map(toAPITileData),
+            })),
+            based_on: details.basedOn,
+          })
+        : undefined,
+    }),
+
+  // Every saved map of the team, newest first
+  listMaps: async (): Promise<SavedMap[]> => {
+    const data = await sendJSON(request, '/maps', savedMapsResponseSchema);
+    return data.maps.map(toSavedMap);
+  },
+
+  getSavedMap: async (id: string): Promise<SavedMap> =>
+    toSavedMap(await sendJSON(request, `/maps/${encodeURIComponent(id)}`, savedMapSchema)),
+
+  renameMap: async (id: string, name: string): Promise<SavedMap> =>
+    toSavedMap(
+      await sendJSON(request, `/maps/${encodeURIComponent(id)}`, savedMapSchema, {
+        method: 'PATCH',
+        body: JSON.stringify({ name }),
+      })
+    ),
+
+  deleteMap: (id: string) =>
+    sendJSON(request, `/maps/${encodeURIComponent(id)}`, messageResponseSchema, { method: 'DELETE' }),
+
+  // Like getMapChunk, but of the world the saved map belongs to
+  getSavedMapChunk: async (id: string, chunk: ChunkCoord, map: MapLocation, chunkSize: number): Promise<TileData[]> => {
+    const parents = encodeURIComponent(formatMapParents(map.path));
+    const data = await sendJSON(
+      request,
+      `/maps/${encodeURIComponent(id)}/chunks/${chunk.q}/${chunk.r}?level=${map.level}&parents=${parents}&chunk_size=${chunkSize}`,
+      tilesResponseSchema
+    );
+    return data.tiles.map(toTileData);
+  },
+});
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+// Per-field messages from a validation error response. Understands both
+// { "errors": { "field": "message" | ["message", ...] } } and
+// FastAPI style { "detail": [{ "loc": ["body", "field"], "msg": "message" }] }.
+export const getFieldErrors = (error: unknown): { [field: string]: string } => {
+  if (!(error instanceof ApiError) || typeof error.body !== 'object' || error.body === null) return {};
+
+  const fieldErrors: { [field: string]: string } = {};
+  const body = error.body as { errors?: unknown; detail?: unknown };
+
+  if (typeof body.errors === 'object' && body.errors !== null && !Array.isArray(body.errors)) {
+    for (const [field, messages] of Object.entries(body.errors)) {
+      const message = Array.isArray(messages) ? messages[0] : messages;
+      if (typeof message === 'string') fieldErrors[field] = message;
+    }
+  }
+
+  if (Array.isArray(body.detail)) {
+    for (const entry of body.detail) {
+      const { loc, msg } = (entry ?? {}) as { loc?: unknown; msg?: unknown };
+      const field = Array.isArray(loc) ? loc[loc.length - 1] : null;
+      if (typeof field === 'string' && typeof msg === 'string') fieldErrors[field] = msg;
+    }
+  }
+
+  return fieldErrors;
+};
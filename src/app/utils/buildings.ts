@@ -0,0 +1,24 @@
+// app/utils/buildings.ts
+// Placement rules for buildings. The server has the final say; these checks drive the
+// build preview and keep obviously invalid requests from being sent.
+import { BUILDINGS, BuildingType, TERRAINS, canBuildOn } from '../data/content';
+import { PlayerData, TileData } from '../types/gameTypes';
+import { describeShortfall } from './resources';
+
+// Why `player` cannot place `building` on `tile`, or undefined when it can
+export const getPlacementError = (
+  tile: TileData | null,
+  building: BuildingType,
+  player: PlayerData | null
+): string | undefined => {
+  const definition = BUILDINGS[building];
+  if (!player) return 'You are not connected to the game.';
+  if (!tile) return 'There is no tile here.';
+  if (tile.building) return `There is already a ${BUILDINGS[tile.building].label} here.`;
+  if (tile.ownerId && tile.ownerId !== player.id) return 'This tile belongs to another player.';
+  if (!canBuildOn(building, tile.terrain)) {
+    return `A ${definition.label} cannot be built on ${TERRAINS[tile.terrain].label}.`;
+  }
+
+  return describeShortfall(player.resources, definition.cost);
+};
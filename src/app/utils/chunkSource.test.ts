@@ -0,0 +1,97 @@
+// app/utils/chunkSource.test.ts
+import { describe, expect, it } from 'vitest';
+import { createMockChunkSource } from '../data/mockChunkSource';
+import { TileData } from '../types/gameTypes';
+import { ChunkSource, createMapFileChunkSource } from './chunkSource';
+import { getChunkHexes } from './chunks';
+import { getDefaultMapPath } from './mapHierarchy';
+import { MAP_FILE_VERSION, MapFile } from './mapFile';
+
+const MAP_RADIUS = 10;
+const CHUNK_SIZE = 4;
+const MAP = { level: 2, path: getDefaultMapPath(2) };
+const OTHER_MAP = { level: 2, path: [{ level: 4, q: 0, r: 0 }, { level: 3, q: 1, r: 0 }] };
+
+const createFile = (tiles: TileData[]): MapFile => ({
+  version: MAP_FILE_VERSION,
+  size: MAP_RADIUS,
+  location: MAP,
+  maps: [{ location: MAP, tiles }],
+  players: [],
+  localPlayerId: null,
+  localPosition: { q: 0, r: 0 },
+  turn: { number: 1, activePlayerId: null, phase: 'move' },
+  explored: [],
+});
+
+// Counts what reaches the wrapped source
+const countFetches = (source: ChunkSource) => {
+  const counted = {
+    fetches: 0,
+    fetchChunk: (...args: Parameters<ChunkSource['fetchChunk']>) => {
+      counted.fetches++;
+      return source.fetchChunk(...args);
+    },
+  };
+  return counted;
+};
+
+describe('createMockChunkSource', () => {
+  it('serves the hexes of the chunk inside the map', async () => {
+    const source = createMockChunkSource({ mapRadius: MAP_RADIUS, seed: 7 });
+    const chunk = await source.fetchChunk({ q: 2, r: -3 }, MAP, CHUNK_SIZE);
+    expect(chunk).toMatchObject({ q: 2, r: -3, level: 2 });
+    expect(chunk.tiles.map(({ q, r }) => ({ q, r }))).toEqual(getChunkHexes({ q: 2, r: -3 }, CHUNK_SIZE, MAP_RADIUS));
+  });
+
+  it('serves the same map for the same seed and map', async () => {
+    const first = createMockChunkSource({ mapRadius: MAP_RADIUS, seed: 7 });
+    const second = createMockChunkSource({ mapRadius: MAP_RADIUS, seed: 7 });
+    expect(await first.fetchChunk({ q: 0, r: 0 }, MAP, CHUNK_SIZE)).toEqual(
+      await second.fetchChunk({ q: 0, r: 0 }, MAP, CHUNK_SIZE)
+    );
+  });
+
+  it('serves different maps for different seeds or maps', async () => {
+    const source = createMockChunkSource({ mapRadius: MAP_RADIUS, seed: 7 });
+    const terrains = async (chunkSource: ChunkSource, map = MAP) =>
+      (await chunkSource.fetchChunk({ q: -1, r: -1 }, map, 8)).tiles.map((tile) => tile.terrain);
+    const terrain = await terrains(source);
+    expect(await terrains(createMockChunkSource({ mapRadius: MAP_RADIUS, seed: 8 }))).not.toEqual(terrain);
+    expect(await terrains(source, OTHER_MAP)).not.toEqual(terrain);
+  });
+});
+
+describe('createMapFileChunkSource', () => {
+  const fallback = createMockChunkSource({ mapRadius: MAP_RADIUS, seed: 7 });
+
+  it('serves chunks the file covers without asking the fallback', async () => {
+    const chunk = await fallback.fetchChunk({ q: 0, r: 0 }, MAP, CHUNK_SIZE);
+    const tiles = chunk.tiles.map((tile): TileData => ({ ...tile, terrain: 'water' }));
+    const counted = countFetches(fallback);
+    const source = createMapFileChunkSource(createFile(tiles), counted);
+
+    expect((await source.fetchChunk({ q: 0, r: 0 }, MAP, CHUNK_SIZE)).tiles).toEqual(tiles);
+    expect(counted.fetches).toBe(0);
+  });
+
+  it('fills the tiles the file does not have from the fallback', async () => {
+    const chunk = await fallback.fetchChunk({ q: 0, r: 0 }, MAP, CHUNK_SIZE);
+    const edited: TileData = { ...chunk.tiles[5], ownerId: 'p1' };
+    const source = createMapFileChunkSource(createFile([edited]), fallback);
+
+    const served = await source.fetchChunk({ q: 0, r: 0 }, MAP, CHUNK_SIZE);
+    expect(served.tiles).toHaveLength(chunk.tiles.length);
+    expect(served.tiles[5]).toEqual(edited);
+    expect(served.tiles[4]).toEqual(chunk.tiles[4]);
+  });
+
+  it('leaves maps the file does not have to the fallback', async () => {
+    const counted = countFetches(fallback);
+    const source = createMapFileChunkSource(createFile([]), counted);
+    expect(await source.fetchChunk({ q: 0, r: 0 }, OTHER_MAP, CHUNK_SIZE)).toEqual(
+      await fallback.fetchChunk({ q: 0, r: 0 }, OTHER_MAP, CHUNK_SIZE)
+    );
+    expect(counted.fetches).toBe(1);
+  });
+});
@@ -0,0 +1,69 @@
+// app/utils/chunkSource.ts
+import { MapChunk, TileData } from '../types/gameTypes';
+import { ApiClient } from './apiClient';
+import { ChunkCoord, getChunkHexes } from './chunks';
+import { hexKey } from './hex';
+import { MapFile } from './mapFile';
+import { MapLocation, getMapKey } from './mapHierarchy';
+
+/**
+ * Where map chunks come from. The backend contract is:
+ *
+ *   GET /api/v1/maps/procedural/{size}/chunks/{cq}/{cr}?level={level}&parents={parents}&chunk_size={chunkSize}
+ *   -> { "tiles": [{ "q": number, "r": number, "terrain": string }, ...] }
+ *
+ * `parents` are the tiles descended through from the top level, outermost first, as
+ * "q,r;q,r" (see utils/mapHierarchy.ts); every tile has its own child map.
+ * Tiles outside the map radius are simply omitted. Saved maps serve their own world the
+ * same way from GET /api/v1/maps/{id}/chunks/{cq}/{cr}, with the same query.
+ *
+ * Proposed for saving map editor changes, so far only implemented by the mock backend
+ * (data/mockBackend.ts); the app refuses to save edits to the backend until it is agreed:
+ *
+ *   POST /api/v1/maps/procedural/save
+ *   { ..., "edits": [{ "level", "parents", "tiles": [tile, ...] }, ...], "based_on": savedMapId }
+ *
+ * where a tile also has "owner_id", "building" and "resources" ([{ "type", "amount" }]).
+ * `based_on` keeps the world and edits of that saved map under the new edits. The saved
+ * map's chunks then serve the edited tiles, with those fields, in place of generated ones.
+ */
+export interface ChunkSource {
+  fetchChunk: (chunk: ChunkCoord, map: MapLocation, chunkSize: number) => Promise<MapChunk>;
+}
+
+// `getClient` is read on every request so the source always uses the latest tokens.
+// With a `savedMapId` chunks come from that saved map instead of the procedural one.
+export const createApiChunkSource = (getClient: () => ApiClient, mapRadius: number, savedMapId?: string): ChunkSource => ({
+  fetchChunk: async (chunk, map, chunkSize) => ({
+    q: chunk.q,
+    r: chunk.r,
+    level: map.level,
+    tiles: savedMapId
+      ? await getClient().getSavedMapChunk(savedMapId, chunk, map, chunkSize)
+      : await getClient().getMapChunk(mapRadius, chunk, map, chunkSize),
+  }),
+});
+
+// Serves the tiles of a map file (see utils/mapFile.ts) on top of `fallback`, which is only
+// asked for chunks the file does not cover completely
+export const createMapFileChunkSource = (file: MapFile, fallback: ChunkSource): ChunkSource => {
+  const mapTiles = new Map<string, Map<string, TileData>>();
+  file.maps.forEach(({ location, tiles }) => {
+    mapTiles.set(getMapKey(location), new Map(tiles.map((tile) => [hexKey(tile.q, tile.r), tile])));
+  });
+
+  return {
+    fetchChunk: async (chunk, map, chunkSize) => {
+      const tiles = mapTiles.get(getMapKey(map));
+      if (!tiles) return fallback.fetchChunk(chunk, map, chunkSize);
+
+      const hexes = getChunkHexes(chunk, chunkSize, file.size);
+      if (hexes.every(({ q, r }) => tiles.has(hexKey(q, r)))) {
+        return { q: chunk.q, r: chunk.r, level: map.level, tiles: hexes.map(({ q, r }) => tiles.get(hexKey(q, r))!) };
+      }
+
+      const fetched = await fallback.fetchChunk(chunk, map, chunkSize);
+      return { ...fetched, tiles: fetched.tiles.map((tile) => tiles.get(hexKey(tile.q, tile.r)) ?? tile) };
+    },
+  };
+};
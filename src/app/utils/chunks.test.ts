@@ -0,0 +1,59 @@
+// app/utils/chunks.test.ts
+import { describe, expect, it } from 'vitest';
+import { chunkIntersectsMap, getChunkCoord, getChunkHexes, getChunkWorldBounds, getMapChunks } from './chunks';
+import { axialToWorld, hexKey, hexRange } from './hex';
+
+describe('getChunkCoord', () => {
+  it('floors negative coordinates into the chunk below', () => {
+    expect(getChunkCoord(0, 0, 4)).toEqual({ q: 0, r: 0 });
+    expect(getChunkCoord(3, 4, 4)).toEqual({ q: 0, r: 1 });
+    expect(getChunkCoord(-1, -4, 4)).toEqual({ q: -1, r: -1 });
+    expect(getChunkCoord(-5, 0, 4)).toEqual({ q: -2, r: 0 });
+  });
+});
+
+describe('getChunkHexes', () => {
+  it('holds exactly the hexes that map to the chunk', () => {
+    const hexes = getChunkHexes({ q: -1, r: 2 }, 4);
+    expect(hexes).toHaveLength(16);
+    hexes.forEach(({ q, r }) => expect(getChunkCoord(q, r, 4)).toEqual({ q: -1, r: 2 }));
+  });
+
+  it('covers every hex of the map exactly once across the map chunks', () => {
+    const mapRadius = 9;
+    const chunkSize = 4;
+    const keys = getMapChunks(mapRadius, chunkSize).flatMap((chunk) =>
+      getChunkHexes(chunk, chunkSize, mapRadius).map(({ q, r }) => hexKey(q, r))
+    );
+    const expected = hexRange({ q: 0, r: 0 }, mapRadius).map(({ q, r }) => hexKey(q, r));
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(new Set(keys)).toEqual(new Set(expected));
+  });
+});
+
+describe('getMapChunks', () => {
+  it('leaves out chunks entirely outside the map', () => {
+    const mapRadius = 9;
+    const chunkSize = 4;
+    const chunks = getMapChunks(mapRadius, chunkSize);
+    chunks.forEach((chunk) => expect(getChunkHexes(chunk, chunkSize, mapRadius).length).toBeGreaterThan(0));
+    // The corners where q and r have the same sign lie beyond the hexagon
+    expect(chunkIntersectsMap({ q: 2, r: 2 }, mapRadius, chunkSize)).toBe(false);
+    expect(chunkIntersectsMap({ q: -3, r: -3 }, mapRadius, chunkSize)).toBe(false);
+    expect(chunks).toContainEqual({ q: 2, r: -3 });
+  });
+});
+
+describe('getChunkWorldBounds', () => {
+  it('contains the center of every hex of the chunk', () => {
+    const chunk = { q: 1, r: -2 };
+    const bounds = getChunkWorldBounds(chunk, 1, 4);
+    getChunkHexes(chunk, 4).forEach(({ q, r }) => {
+      const { x, z } = axialToWorld(q, r, 1);
+      expect(x).toBeGreaterThan(bounds.minX);
+      expect(x).toBeLessThan(bounds.maxX);
+      expect(z).toBeGreaterThan(bounds.minZ);
+      expect(z).toBeLessThan(bounds.maxZ);
+    });
+  });
+});
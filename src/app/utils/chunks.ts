@@ -0,0 +1,79 @@
+// app/utils/chunks.ts
+// The map is streamed in fixed chunks: axial-aligned blocks of CHUNK_SIZE x CHUNK_SIZE hexes.
+// Chunk (cq, cr) holds every hex with floor(q / CHUNK_SIZE) === cq and floor(r / CHUNK_SIZE) === cr.
+import { Axial, axialToWorld, hexDistance } from './hex';
+
+export const CHUNK_SIZE = 16;
+
+export type ChunkCoord = Axial;
+
+export interface WorldBounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export const getChunkCoord = (q: number, r: number, chunkSize = CHUNK_SIZE): ChunkCoord => ({
+  q: Math.floor(q / chunkSize),
+  r: Math.floor(r / chunkSize),
+});
+
+// Whether any hex of the chunk lies inside a hexagon-shaped map of the given radius
+export const chunkIntersectsMap = (chunk: ChunkCoord, mapRadius: number, chunkSize = CHUNK_SIZE): boolean => {
+  const minQ = Math.max(chunk.q * chunkSize, -mapRadius);
+  const maxQ = Math.min(chunk.q * chunkSize + chunkSize - 1, mapRadius);
+  const minR = Math.max(chunk.r * chunkSize, -mapRadius);
+  const maxR = Math.min(chunk.r * chunkSize + chunkSize - 1, mapRadius);
+  if (minQ > maxQ || minR > maxR) return false;
+
+  // q and r vary independently inside the block, so q + r covers [minQ + minR, maxQ + maxR]
+  return minQ + minR <= mapRadius && maxQ + maxR >= -mapRadius;
+};
+
+// Every chunk overlapping a hexagon-shaped map of the given radius
+export const getMapChunks = (mapRadius: number, chunkSize = CHUNK_SIZE): ChunkCoord[] => {
+  const min = Math.floor(-mapRadius / chunkSize);
+  const max = Math.floor(mapRadius / chunkSize);
+  const chunks: ChunkCoord[] = [];
+  for (let q = min; q <= max; q++) {
+    for (let r = min; r <= max; r++) {
+      if (chunkIntersectsMap({ q, r }, mapRadius, chunkSize)) chunks.push({ q, r });
+    }
+  }
+  return chunks;
+};
+
+// The hexes of a chunk, optionally clipped to a map radius
+export const getChunkHexes = (chunk: ChunkCoord, chunkSize = CHUNK_SIZE, mapRadius = Infinity): Axial[] => {
+  const origin = { q: 0, r: 0 };
+  const hexes: Axial[] = [];
+  for (let dq = 0; dq < chunkSize; dq++) {
+    for (let dr = 0; dr < chunkSize; dr++) {
+      const hex = { q: chunk.q * chunkSize + dq, r: chunk.r * chunkSize + dr };
+      if (hexDistance(hex, origin) <= mapRadius) hexes.push(hex);
+    }
+  }
+  return hexes;
+};
+
+// Ground-plane rectangle covering every tile of the chunk, including the tiles' own extent
+export const getChunkWorldBounds = (chunk: ChunkCoord, tileSize: number, chunkSize = CHUNK_SIZE): WorldBounds => {
+  const q0 = chunk.q * chunkSize;
+  const r0 = chunk.r * chunkSize;
+  const q1 = q0 + chunkSize - 1;
+  const r1 = r0 + chunkSize - 1;
+  const corners = [
+    axialToWorld(q0, r0, tileSize),
+    axialToWorld(q1, r0, tileSize),
+    axialToWorld(q0, r1, tileSize),
+    axialToWorld(q1, r1, tileSize),
+  ];
+
+  return {
+    minX: Math.min(...corners.map((c) => c.x)) - tileSize,
+    maxX: Math.max(...corners.map((c) => c.x)) + tileSize,
+    minZ: Math.min(...corners.map((c) => c.z)) - tileSize,
+    maxZ: Math.max(...corners.map((c) => c.z)) + tileSize,
+  };
+};
@@ -0,0 +1,18 @@
+// app/utils/dataSource.ts
+// Where the app's data comes from. 'api' is the backend at NEXT_PUBLIC_BACKEND_URL; 'mock'
+// answers every request in the browser (data/mockBackend.ts) and runs the realtime game
+// there too, so the whole app works without a server. Set NEXT_PUBLIC_DATA_SOURCE=mock.
+import type { RequestFn } from './apiClient';
+
+export type DataSource = 'api' | 'mock';
+
+export const DATA_SOURCE: DataSource = process.env.NEXT_PUBLIC_DATA_SOURCE === 'mock' ? 'mock' : 'api';
+
+let mockBackend: Promise<RequestFn> | null = null;
+
+// fetch() for every backend request. The mock is only loaded once it is used.
+export const sendRequest: RequestFn = async (url, options) => {
+  if (DATA_SOURCE === 'api') return fetch(url, options);
+  mockBackend ??= import('../data/mockBackend').then(({ createMockBackend }) => createMockBackend({ latency: 50 }));
+  return (await mockBackend)(url, options);
+};
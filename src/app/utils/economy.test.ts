@@ -0,0 +1,72 @@
+// app/utils/economy.test.ts
+import { describe, expect, it } from 'vitest';
+import { BuildingType, TerrainType } from '../data/content';
+import { Resource, TileData } from '../types/gameTypes';
+import { DEPOSIT_YIELD, collectIncome, computeIncome } from './economy';
+import { addResources, canAfford, describeShortfall, spendResources } from './resources';
+
+const tile = (
+  q: number,
+  terrain: TerrainType,
+  ownerId: string | null,
+  building: BuildingType | null = null,
+  resources: Resource[] = []
+): TileData => ({ q, r: 0, terrain, ownerId, resources, building, canInteract: true });
+
+describe('computeIncome', () => {
+  it('counts only the tiles the player owns', () => {
+    const report = computeIncome('p1', [tile(0, 'grass', 'p1'), tile(1, 'grass', 'p2'), tile(2, 'forest', null)]);
+    expect(report.total).toEqual({ food: 1 });
+  });
+
+  it('adds terrain yields, deposits and building production, minus upkeep', () => {
+    const report = computeIncome('p1', [
+      tile(0, 'grass', 'p1', 'farm'),
+      tile(1, 'forest', 'p1', 'lumber_mill', [{ type: 'gold', amount: 5 }]),
+      tile(2, 'mountain', 'p1', null, [{ type: 'iron', amount: 0 }]),
+    ]);
+    // Grass 1 + farm 3 food, minus 1 for the mill; forest 1 + mill 3 wood; mountain 1 stone
+    expect(report.total).toEqual({ food: 3, wood: 4, stone: 1, gold: DEPOSIT_YIELD });
+    expect(report.breakdown.food).toContainEqual({ label: 'Lumber Mill upkeep x1', amount: -1 });
+    expect(report.breakdown.iron).toEqual([]);
+  });
+
+  it('groups tiles of the same terrain into one line', () => {
+    const report = computeIncome('p1', [tile(0, 'grass', 'p1'), tile(1, 'grass', 'p1'), tile(2, 'grass', 'p1')]);
+    expect(report.breakdown.food).toEqual([{ label: 'Grassland x3', amount: 3 }]);
+  });
+});
+
+describe('collectIncome', () => {
+  it('never takes a stockpile below zero', () => {
+    const report = computeIncome('p1', [tile(0, 'mountain', 'p1', 'mine')]);
+    const resources = collectIncome([{ type: 'food', amount: 1 }], report);
+    expect(resources).toContainEqual({ type: 'food', amount: 0 });
+    expect(resources).toContainEqual({ type: 'iron', amount: 1 });
+  });
+});
+
+describe('resources', () => {
+  const stockpile: Resource[] = [
+    { type: 'wood', amount: 25 },
+    { type: 'stone', amount: 5 },
+  ];
+
+  it('checks and spends costs', () => {
+    expect(canAfford(stockpile, { wood: 20, stone: 5 })).toBe(true);
+    expect(canAfford(stockpile, { wood: 20, stone: 10 })).toBe(false);
+    expect(spendResources(stockpile, { wood: 20 })).toEqual([
+      { type: 'wood', amount: 5 },
+      { type: 'stone', amount: 5 },
+    ]);
+  });
+
+  it('describes what is missing', () => {
+    expect(describeShortfall(stockpile, { wood: 30, stone: 10 })).toBe('Not enough resources, missing 5 Wood, 5 Stone.');
+    expect(describeShortfall(stockpile, { wood: 10 })).toBeUndefined();
+  });
+
+  it('adds new resources in catalog order', () => {
+    expect(addResources(stockpile, { food: 2 }).map(({ type }) => type)).toEqual(['wood', 'stone', 'food']);
+  });
+});
@@ -0,0 +1,79 @@
+// app/utils/economy.ts
+// Per-turn income of a player. Every tile the player owns yields what its terrain yields
+// plus 1 per resource deposit on it; buildings add their production and cost their upkeep.
+import {
+  BUILDINGS,
+  BuildingType,
+  RESOURCE_TYPES,
+  ResourceAmounts,
+  TERRAINS,
+  TerrainType,
+  getBuildingEffects,
+} from '../data/content';
+import { Resource, ResourceType, TileData } from '../types/gameTypes';
+import { addResources } from './resources';
+
+// Extra income per resource deposit on an owned tile
+export const DEPOSIT_YIELD = 1;
+
+// One line of an income breakdown, e.g. "Farm x2: +6"
+export interface IncomeLine {
+  label: string;
+  amount: number;
+}
+
+export interface IncomeReport {
+  // Net change per turn
+  total: ResourceAmounts;
+  // Where the total comes from, per resource; upkeep lines are negative
+  breakdown: { [R in ResourceType]: IncomeLine[] };
+}
+
+const createBreakdown = () =>
+  Object.fromEntries(RESOURCE_TYPES.map((type) => [type, []])) as unknown as IncomeReport['breakdown'];
+
+const count = <Key extends string>(counts: Map<Key, number>, key: Key) => counts.set(key, (counts.get(key) ?? 0) + 1);
+
+export const computeIncome = (playerId: string, tiles: TileData[]): IncomeReport => {
+  const terrainCounts = new Map<TerrainType, number>();
+  const buildingCounts = new Map<BuildingType, number>();
+  const deposits = new Map<ResourceType, number>();
+
+  tiles.forEach((tile) => {
+    if (tile.ownerId !== playerId) return;
+    count(terrainCounts, tile.terrain);
+    if (tile.building) count(buildingCounts, tile.building);
+    tile.resources.forEach(({ type, amount }) => {
+      if (amount > 0) count(deposits, type);
+    });
+  });
+
+  const breakdown = createBreakdown();
+  const add = (resource: ResourceType, label: string, amount: number) => {
+    if (amount !== 0) breakdown[resource].push({ label, amount });
+  };
+
+  terrainCounts.forEach((tileCount, terrain) => {
+    const { label, yields } = TERRAINS[terrain];
+    RESOURCE_TYPES.forEach((type) => add(type, `${label} x${tileCount}`, (yields[type] ?? 0) * tileCount));
+  });
+  deposits.forEach((depositCount, type) => add(type, `Deposits x${depositCount}`, DEPOSIT_YIELD * depositCount));
+  buildingCounts.forEach((buildingCount, building) => {
+    const { label, upkeep } = BUILDINGS[building];
+    getBuildingEffects(building, 'produce').forEach(({ resource, amount }) =>
+      add(resource, `${label} x${buildingCount}`, amount * buildingCount)
+    );
+    RESOURCE_TYPES.forEach((type) => add(type, `${label} upkeep x${buildingCount}`, -(upkeep[type] ?? 0) * buildingCount));
+  });
+
+  const total: ResourceAmounts = {};
+  RESOURCE_TYPES.forEach((type) => {
+    const net = breakdown[type].reduce((sum, line) => sum + line.amount, 0);
+    if (net !== 0) total[type] = net;
+  });
+  return { total, breakdown };
+};
+
+// Applies one turn of income; stockpiles never drop below zero
+export const collectIncome = (resources: Resource[], report: IncomeReport): Resource[] =>
+  addResources(resources, report.total).map((resource) => ({ ...resource, amount: Math.max(0, resource.amount) }));
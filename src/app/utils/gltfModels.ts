@@ -0,0 +1,55 @@
+// app/utils/gltfModels.ts
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+
+let gltfLoader: GLTFLoader | null = null;
+const modelLoadPromises: { [key: string]: Promise<THREE.Group> } = {};
+
+const getGLTFLoader = () => {
+  if (!gltfLoader) {
+    gltfLoader = new GLTFLoader();
+    gltfLoader.setPath('/data/');
+  }
+  return gltfLoader;
+};
+
+// Loads `public/data/{modelName}.gltf` once and shares the scene between all callers.
+// Callers must not mutate or dispose the returned group.
+export const loadGLTFModel = (modelName: string): Promise<THREE.Group> => {
+  if (!(modelName in modelLoadPromises)) {
+    modelLoadPromises[modelName] = new Promise((resolve, reject) => {
+      getGLTFLoader().load(
+        `${modelName}.gltf`,
+        (gltf) => {
+          gltf.scene.updateMatrixWorld(true);
+          resolve(gltf.scene);
+        },
+        undefined,
+        (error) => {
+          console.error(`An error happened while loading the model ${modelName}:`, error);
+          delete modelLoadPromises[modelName];
+          reject(error);
+        }
+      );
+    });
+  }
+
+  return modelLoadPromises[modelName];
+};
+
+// Every mesh in a loaded model together with its transform relative to the model root
+export const getModelMeshes = (model: THREE.Group) => {
+  const meshes: { mesh: THREE.Mesh; matrix: THREE.Matrix4 }[] = [];
+  const rootInverse = model.matrixWorld.clone().invert();
+
+  model.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      meshes.push({
+        mesh: object,
+        matrix: new THREE.Matrix4().multiplyMatrices(rootInverse, object.matrixWorld),
+      });
+    }
+  });
+
+  return meshes;
+};
@@ -0,0 +1,143 @@
+// app/utils/hex.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  Axial,
+  axialToCube,
+  axialToOffset,
+  axialToWorld,
+  cubeToAxial,
+  hexDistance,
+  hexKey,
+  hexLine,
+  hexNeighbors,
+  hexRange,
+  hexRing,
+  hexSpiral,
+  offsetToAxial,
+  parseHexKey,
+  worldToHex,
+} from './hex';
+
+const keys = (hexes: Axial[]) => hexes.map(({ q, r }) => hexKey(q, r));
+
+describe('conversions', () => {
+  const hexes = hexRange({ q: 0, r: 0 }, 4);
+
+  it('round-trips axial through cube coordinates', () => {
+    hexes.forEach((hex) => {
+      const cube = axialToCube(hex);
+      expect(cube.q + cube.r + cube.s).toBe(0);
+      expect(cubeToAxial(cube)).toEqual(hex);
+    });
+  });
+
+  it('round-trips axial through odd-q offset coordinates', () => {
+    hexes.forEach((hex) => expect(offsetToAxial(axialToOffset(hex))).toEqual(hex));
+  });
+
+  it('shoves odd columns down by half a hex', () => {
+    expect(axialToOffset({ q: 1, r: 0 })).toEqual({ col: 1, row: 0 });
+    expect(axialToOffset({ q: 1, r: -1 })).toEqual({ col: 1, row: -1 });
+    expect(axialToOffset({ q: 2, r: -1 })).toEqual({ col: 2, row: 0 });
+  });
+
+  it('round-trips hex centers through world coordinates', () => {
+    hexes.forEach(({ q, r }) => {
+      const { x, z } = axialToWorld(q, r, 1.5);
+      expect(worldToHex(x, z, 1.5)).toEqual({ q, r });
+    });
+  });
+
+  it('parses the keys it makes', () => {
+    expect(parseHexKey(hexKey(-3, 7))).toEqual({ q: -3, r: 7 });
+  });
+});
+
+describe('worldToHex', () => {
+  const size = 1;
+  const center = axialToWorld(2, -1, size);
+
+  it('picks the hex just inside each edge', () => {
+    hexNeighbors({ q: 2, r: -1 }).forEach((neighbor) => {
+      const other = axialToWorld(neighbor.q, neighbor.r, size);
+      // Halfway between the centers is the shared edge
+      const inside = { x: center.x + (other.x - center.x) * 0.49, z: center.z + (other.z - center.z) * 0.49 };
+      const outside = { x: center.x + (other.x - center.x) * 0.51, z: center.z + (other.z - center.z) * 0.51 };
+      expect(worldToHex(inside.x, inside.z, size)).toEqual({ q: 2, r: -1 });
+      expect(worldToHex(outside.x, outside.z, size)).toEqual(neighbor);
+    });
+  });
+
+  it('picks the hex just inside each corner', () => {
+    for (let i = 0; i < 6; i++) {
+      const angle = (Math.PI / 3) * i;
+      const x = center.x + 0.98 * size * Math.cos(angle);
+      const z = center.z + 0.98 * size * Math.sin(angle);
+      expect(worldToHex(x, z, size)).toEqual({ q: 2, r: -1 });
+    }
+  });
+
+  it('never returns negative zero', () => {
+    expect(Object.is(worldToHex(-0.01, -0.01, size).q, -0)).toBe(false);
+    expect(Object.is(worldToHex(-0.01, -0.01, size).r, -0)).toBe(false);
+  });
+});
+
+describe('hexDistance', () => {
+  it('counts steps between hexes', () => {
+    expect(hexDistance({ q: 0, r: 0 }, { q: 0, r: 0 })).toBe(0);
+    expect(hexDistance({ q: 0, r: 0 }, { q: 3, r: -1 })).toBe(3);
+    expect(hexDistance({ q: -2, r: 3 }, { q: 1, r: -1 })).toBe(4);
+  });
+
+  it('is 1 for every neighbor', () => {
+    hexNeighbors({ q: 5, r: -2 }).forEach((neighbor) => expect(hexDistance({ q: 5, r: -2 }, neighbor)).toBe(1));
+  });
+});
+
+describe('shapes', () => {
+  const center = { q: 1, r: -2 };
+
+  it('builds rings of 6 * radius hexes at that distance', () => {
+    expect(hexRing(center, 0)).toEqual([center]);
+    [1, 2, 5].forEach((radius) => {
+      const ring = hexRing(center, radius);
+      expect(ring).toHaveLength(6 * radius);
+      expect(new Set(keys(ring)).size).toBe(ring.length);
+      ring.forEach((hex) => expect(hexDistance(center, hex)).toBe(radius));
+    });
+  });
+
+  it('walks rings so each hex neighbors the next', () => {
+    const ring = hexRing(center, 3);
+    ring.forEach((hex, i) => expect(hexDistance(hex, ring[(i + 1) % ring.length])).toBe(1));
+  });
+
+  it('spirals out from the center ring by ring', () => {
+    const spiral = hexSpiral(center, 3);
+    expect(spiral).toHaveLength(1 + 6 + 12 + 18);
+    expect(spiral[0]).toEqual(center);
+    const distances = spiral.map((hex) => hexDistance(center, hex));
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  it('covers the same hexes in range as in the spiral', () => {
+    const range = hexRange(center, 3);
+    expect(range).toHaveLength(37);
+    expect(new Set(keys(range))).toEqual(new Set(keys(hexSpiral(center, 3))));
+  });
+
+  it('draws lines of connected hexes between both ends', () => {
+    const a = { q: -3, r: 1 };
+    const b = { q: 4, r: -2 };
+    const line = hexLine(a, b);
+    expect(line).toHaveLength(hexDistance(a, b) + 1);
+    expect(line[0]).toEqual(a);
+    expect(line[line.length - 1]).toEqual(b);
+    line.slice(1).forEach((hex, i) => expect(hexDistance(line[i], hex)).toBe(1));
+  });
+
+  it('draws a single hex for a line to itself', () => {
+    expect(hexLine(center, center)).toEqual([center]);
+  });
+});
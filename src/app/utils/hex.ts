@@ -0,0 +1,203 @@
+// app/utils/hex.ts
+// Flat-topped hex grid math. Framework free so it can be shared between the
+// Three.js scene, the canvas map view and any game logic.
+// Reference: https://www.redblobgames.com/grids/hexagons/
+
+export interface Axial {
+  q: number;
+  r: number;
+}
+
+export interface Cube {
+  q: number;
+  r: number;
+  s: number;
+}
+
+// "odd-q" offset layout: odd columns are shoved down by half a hex
+export interface OffsetCoord {
+  col: number;
+  row: number;
+}
+
+export interface Point2D {
+  x: number;
+  z: number;
+}
+
+const SQRT3 = Math.sqrt(3);
+
+// Axial offsets of the six neighbors, in the order hexRing walks them
+export const HEX_DIRECTIONS: readonly Axial[] = [
+  { q: 1, r: 0 },
+  { q: 1, r: -1 },
+  { q: 0, r: -1 },
+  { q: -1, r: 0 },
+  { q: -1, r: 1 },
+  { q: 0, r: 1 },
+];
+
+export const hexKey = (q: number, r: number): string => `${q},${r}`;
+
+export const parseHexKey = (key: string): Axial => {
+  const [q, r] = key.split(',').map(Number);
+  return { q, r };
+};
+
+export const hexEquals = (a: Axial, b: Axial): boolean => a.q === b.q && a.r === b.r;
+
+// Conversions
+/************************************************************************************************************************************************** */
+
+export const axialToCube = ({ q, r }: Axial): Cube => ({ q, r, s: -q - r });
+
+export const cubeToAxial = ({ q, r }: Cube): Axial => ({ q, r });
+
+export const axialToOffset = ({ q, r }: Axial): OffsetCoord => ({
+  col: q,
+  row: r + (q - (q & 1)) / 2,
+});
+
+export const offsetToAxial = ({ col, row }: OffsetCoord): Axial => ({
+  q: col,
+  r: row - (col - (col & 1)) / 2,
+});
+
+// Center of the hex on the ground plane, `size` being the corner radius
+export const axialToWorld = (q: number, r: number, size: number): Point2D => ({
+  x: size * 1.5 * q,
+  z: size * SQRT3 * (r + q / 2),
+});
+
+// Inverse of axialToWorld; the result is fractional, use hexRound to snap it
+export const worldToAxial = (x: number, z: number, size: number): Axial => {
+  const q = (2 / 3) * x / size;
+  const r = (-x / 3 + (SQRT3 / 3) * z) / size;
+  return { q, r };
+};
+
+export const cubeRound = ({ q, r, s }: Cube): Cube => {
+  let rq = Math.round(q);
+  let rr = Math.round(r);
+  let rs = Math.round(s);
+
+  const dq = Math.abs(rq - q);
+  const dr = Math.abs(rr - r);
+  const ds = Math.abs(rs - s);
+
+  // Reset the component with the largest rounding error so q + r + s stays 0
+  if (dq > dr && dq > ds) {
+    rq = -rr - rs;
+  } else if (dr > ds) {
+    rr = -rq - rs;
+  } else {
+    rs = -rq - rr;
+  }
+
+  // Avoid -0 leaking into keys
+  return { q: rq + 0, r: rr + 0, s: rs + 0 };
+};
+
+export const hexRound = (hex: Axial): Axial => cubeToAxial(cubeRound(axialToCube(hex)));
+
+export const worldToHex = (x: number, z: number, size: number): Axial =>
+  hexRound(worldToAxial(x, z, size));
+
+// Corner positions of a hex centered at the origin, flat-topped
+export const hexCorners = (size: number): Point2D[] => {
+  const corners: Point2D[] = [];
+  for (let i = 0; i < 6; i++) {
+    const angle = (Math.PI / 3) * i;
+    corners.push({ x: size * Math.cos(angle), z: size * Math.sin(angle) });
+  }
+  return corners;
+};
+
+// World positions of the two corners on the edge between neighboring hexes `a` and `b`.
+// The edge sits halfway between the centers, at right angles to the line joining them.
+export const hexSharedEdge = (a: Axial, b: Axial, size: number): [Point2D, Point2D] => {
+  const from = axialToWorld(a.q, a.r, size);
+  const to = axialToWorld(b.q, b.r, size);
+  const mid = { x: (from.x + to.x) / 2, z: (from.z + to.z) / 2 };
+  // Half an edge is half the size; the centers are size * sqrt(3) apart
+  const scale = 1 / (2 * SQRT3);
+  const along = { x: -(to.z - from.z) * scale, z: (to.x - from.x) * scale };
+  return [
+    { x: mid.x + along.x, z: mid.z + along.z },
+    { x: mid.x - along.x, z: mid.z - along.z },
+  ];
+};
+
+// Neighbors and distance
+/************************************************************************************************************************************************** */
+
+export const hexAdd = (a: Axial, b: Axial): Axial => ({ q: a.q + b.q, r: a.r + b.r });
+
+export const hexScale = (a: Axial, k: number): Axial => ({ q: a.q * k, r: a.r * k });
+
+export const hexNeighbor = (hex: Axial, direction: number): Axial =>
+  hexAdd(hex, HEX_DIRECTIONS[((direction % 6) + 6) % 6]);
+
+export const hexNeighbors = (hex: Axial): Axial[] =>
+  HEX_DIRECTIONS.map((direction) => hexAdd(hex, direction));
+
+export const hexDistance = (a: Axial, b: Axial): number => {
+  const dq = a.q - b.q;
+  const dr = a.r - b.r;
+  return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+};
+
+// Shapes
+/************************************************************************************************************************************************** */
+
+export const hexRing = (center: Axial, radius: number): Axial[] => {
+  if (radius <= 0) return [{ ...center }];
+
+  const results: Axial[] = [];
+  let hex = hexAdd(center, hexScale(HEX_DIRECTIONS[4], radius));
+  for (let side = 0; side < 6; side++) {
+    for (let step = 0; step < radius; step++) {
+      results.push(hex);
+      hex = hexNeighbor(hex, side);
+    }
+  }
+  return results;
+};
+
+// Center first, then each ring outwards
+export const hexSpiral = (center: Axial, radius: number): Axial[] => {
+  const results: Axial[] = [{ ...center }];
+  for (let k = 1; k <= radius; k++) {
+    results.push(...hexRing(center, k));
+  }
+  return results;
+};
+
+// Every hex within `radius` steps, in row order
+export const hexRange = (center: Axial, radius: number): Axial[] => {
+  const results: Axial[] = [];
+  for (let q = -radius; q <= radius; q++) {
+    for (let r = Math.max(-radius, -q - radius); r <= Math.min(radius, -q + radius); r++) {
+      results.push({ q: center.q + q, r: center.r + r });
+    }
+  }
+  return results;
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export const hexLine = (a: Axial, b: Axial): Axial[] => {
+  const n = hexDistance(a, b);
+  if (n === 0) return [{ ...a }];
+
+  // Nudge the endpoints so lines along hex edges round consistently
+  const start = { q: a.q + 1e-6, r: a.r + 2e-6 };
+  const end = { q: b.q + 1e-6, r: b.r + 2e-6 };
+
+  const results: Axial[] = [];
+  for (let i = 0; i <= n; i++) {
+    const t = i / n;
+    results.push(hexRound({ q: lerp(start.q, end.q, t), r: lerp(start.r, end.r, t) }));
+  }
+  return results;
+};
@@ -0,0 +1,62 @@
+// app/utils/indexedDb.ts
+// Promise based key-value stores on top of IndexedDB, with an in-memory twin for where
+// IndexedDB does not exist (Node, some private browsing modes).
+
+export interface KeyValueStore<T> {
+  get: (key: string) => Promise<T | undefined>;
+  getAll: () => Promise<T[]>;
+  put: (key: string, value: T) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+// Creates the missing object stores on first open and whenever `version` goes up
+export const openDatabase = (name: string, version: number, storeNames: string[]) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => {
+      storeNames
+        .filter((storeName) => !request.result.objectStoreNames.contains(storeName))
+        .forEach((storeName) => request.result.createObjectStore(storeName));
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbStore = <T>(database: Promise<IDBDatabase>, storeName: string): KeyValueStore<T> => {
+  const run = async <R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<R>) => {
+    const db = await database;
+    return requestToPromise(action(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    get: (key) => run('readonly', (store) => store.get(key)),
+    getAll: () => run('readonly', (store) => store.getAll()),
+    put: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    delete: (key) => run('readwrite', (store) => store.delete(key)),
+  };
+};
+
+// Values are copied in and out like IndexedDB does, so callers can't change stored data by accident
+export const createMemoryStore = <T>(): KeyValueStore<T> => {
+  const values = new Map<string, T>();
+  return {
+    get: async (key) => (values.has(key) ? structuredClone(values.get(key)) : undefined),
+    getAll: async () => Array.from(values.values(), (value) => structuredClone(value)),
+    put: async (key, value) => {
+      values.set(key, structuredClone(value));
+    },
+    delete: async (key) => {
+      values.delete(key);
+    },
+  };
+};
@@ -0,0 +1,107 @@
+// app/utils/mapEditor.ts
+// Brushes and paints of the map editor. Free of React and Three.js so the game store can run them.
+import { BUILDINGS, BuildingType, TerrainType } from '../data/content';
+import { Resource, TileData } from '../types/gameTypes';
+import { Axial, hexKey, hexLine, hexNeighbors, hexRange } from './hex';
+import { TileLookup } from './pathfinding';
+
+export type EditorBrush = 'hex' | 'radius' | 'fill' | 'line';
+
+export const EDITOR_BRUSHES: { brush: EditorBrush; label: string }[] = [
+  { brush: 'hex', label: 'Hex' },
+  { brush: 'radius', label: 'Radius' },
+  { brush: 'fill', label: 'Fill' },
+  { brush: 'line', label: 'Line' },
+];
+
+// What a brush puts on the tiles it covers
+export type EditorPaint =
+  | { type: 'terrain'; terrain: TerrainType }
+  // Null takes the tiles away from their owner
+  | { type: 'owner'; ownerId: string | null }
+  // Null tears buildings down; buildings only go on terrain they can stand on
+  | { type: 'building'; building: BuildingType | null }
+  // Sets the amount of that deposit; null clears every deposit
+  | { type: 'resource'; resource: Resource | null };
+
+// Flood fill stops after this many tiles, so a click on the open sea stays cheap
+export const FLOOD_FILL_LIMIT = 5000;
+
+interface BrushOptions {
+  radius: number;
+  // Where the line starts, see EditorState.lineStart
+  lineStart: Axial | null;
+  getTile: TileLookup;
+}
+
+// The tiles of the same terrain connected to `start`
+const floodFill = (start: TileData, getTile: TileLookup): Axial[] => {
+  const seen = new Set([hexKey(start.q, start.r)]);
+  const filled: Axial[] = [];
+  const queue: Axial[] = [start];
+  while (queue.length > 0 && filled.length < FLOOD_FILL_LIMIT) {
+    const hex = queue.shift()!;
+    filled.push(hex);
+    hexNeighbors(hex).forEach((neighbor) => {
+      const key = hexKey(neighbor.q, neighbor.r);
+      if (seen.has(key)) return;
+      seen.add(key);
+      if (getTile(neighbor.q, neighbor.r)?.terrain === start.terrain) queue.push(neighbor);
+    });
+  }
+  return filled;
+};
+
+// The loaded tiles a brush covers when used on `target`
+export const getBrushTiles = (brush: EditorBrush, target: Axial, { radius, lineStart, getTile }: BrushOptions) => {
+  let hexes: Axial[];
+  switch (brush) {
+    case 'hex':
+      hexes = [target];
+      break;
+    case 'radius':
+      hexes = hexRange(target, radius);
+      break;
+    case 'fill': {
+      const start = getTile(target.q, target.r);
+      hexes = start ? floodFill(start, getTile) : [];
+      break;
+    }
+    case 'line':
+      hexes = lineStart ? hexLine(lineStart, target) : [target];
+      break;
+  }
+  return hexes.map(({ q, r }) => getTile(q, r)).filter((tile): tile is TileData => tile !== null);
+};
+
+// The same tile back when the paint changes nothing
+export const paintTile = (tile: TileData, paint: EditorPaint): TileData => {
+  switch (paint.type) {
+    case 'terrain':
+      if (tile.terrain === paint.terrain) return tile;
+      // A building that cannot stand on the new terrain goes with the old one
+      return {
+        ...tile,
+        terrain: paint.terrain,
+        building: tile.building && BUILDINGS[tile.building].terrains.includes(paint.terrain) ? tile.building : null,
+      };
+    case 'owner':
+      return tile.ownerId === paint.ownerId ? tile : { ...tile, ownerId: paint.ownerId };
+    case 'building':
+      if (tile.building === paint.building) return tile;
+      if (paint.building && !BUILDINGS[paint.building].terrains.includes(tile.terrain)) return tile;
+      return { ...tile, building: paint.building };
+    case 'resource': {
+      const { resource } = paint;
+      if (!resource) return tile.resources.length === 0 ? tile : { ...tile, resources: [] };
+      const current = tile.resources.find(({ type }) => type === resource.type);
+      if (current?.amount === resource.amount) return tile;
+      return {
+        ...tile,
+        resources: current
+          ? tile.resources.map((deposit) => (deposit === current ? { ...resource } : deposit))
+          : [...tile.resources, { ...resource }],
+      };
+    }
+  }
+};
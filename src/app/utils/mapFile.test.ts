@@ -0,0 +1,188 @@
+// app/utils/mapFile.test.ts
+import { describe, expect, it } from 'vitest';
+import { createInitialGameState, gameActions, gameReducer } from '../store/gameStore';
+import { TileData } from '../types/gameTypes';
+import { hexKey, hexRange } from './hex';
+import { getDefaultMapPath, getMapKey } from './mapHierarchy';
+import {
+  MAP_FILE_VERSION,
+  MapFile,
+  MapFileError,
+  createMapFile,
+  getImportedGame,
+  readMapFile,
+  readMapFileBinary,
+  readMapFileJson,
+  writeMapFileBinary,
+  writeMapFileJson,
+} from './mapFile';
+import { SchemaError } from './schema';
+
+const SIZE = 4;
+const LOCATION = { level: 2, path: getDefaultMapPath(2) };
+
+const createTile = (q: number, r: number, tile: Partial<TileData> = {}): TileData => ({
+  q,
+  r,
+  terrain: (q + r) % 3 === 0 ? 'forest' : 'grass',
+  ownerId: null,
+  resources: [],
+  building: null,
+  canInteract: true,
+  ...tile,
+});
+
+// Mostly plain tiles, some with deposits, one owned and built on and one left out
+const createFile = (): MapFile => {
+  const tiles = hexRange({ q: 0, r: 0 }, SIZE)
+    .filter(({ q, r }) => !(q === 2 && r === -1))
+    .map(({ q, r }) => createTile(q, r));
+  tiles[3].resources = [{ type: 'wood', amount: 12 }];
+  tiles[20].resources = [{ type: 'food', amount: 3 }, { type: 'stone', amount: 1 }];
+  tiles[7] = { ...tiles[7], ownerId: 'p1', building: 'farm', terrain: 'grass' };
+  return {
+    version: MAP_FILE_VERSION,
+    size: SIZE,
+    location: LOCATION,
+    maps: [{ location: LOCATION, tiles }],
+    players: [
+      {
+        id: 'p1',
+        name: 'Player 1',
+        color: '#ff0000',
+        resources: [{ type: 'wood', amount: 5 }],
+        position: { q: 1, r: 0, level: 2 },
+      },
+    ],
+    localPlayerId: 'p1',
+    localPosition: { q: 1, r: 0 },
+    turn: { number: 3, activePlayerId: null, phase: 'build' },
+    explored: [{ map: getMapKey(LOCATION), tiles: ['0,0', '1,0'] }],
+  };
+};
+
+const byKey = (tiles: TileData[]) => Object.fromEntries(tiles.map((tile) => [hexKey(tile.q, tile.r), tile]));
+
+// "HEXM", a version byte and a header, without any tile blocks
+const createBinary = (header: string, version = MAP_FILE_VERSION) => {
+  const headerBytes = new TextEncoder().encode(header);
+  const bytes = new Uint8Array(9 + headerBytes.length);
+  bytes.set(new TextEncoder().encode('HEXM'));
+  bytes[4] = version;
+  new DataView(bytes.buffer).setUint32(5, headerBytes.length, true);
+  bytes.set(headerBytes, 9);
+  return bytes;
+};
+
+describe('JSON files', () => {
+  it('read back what was written', () => {
+    const file = createFile();
+    expect(readMapFileJson(writeMapFileJson(file))).toEqual(file);
+  });
+
+  it('reject what is not JSON or not a map file', () => {
+    expect(() => readMapFileJson('{"tiles":')).toThrow(MapFileError);
+    expect(() => readMapFileJson('[1, 2]')).toThrow(MapFileError);
+  });
+
+  it('reject files of a newer version', () => {
+    const file = { ...createFile(), version: MAP_FILE_VERSION + 1 };
+    expect(() => readMapFileJson(JSON.stringify(file))).toThrow(/newer version/);
+  });
+
+  it('validate the tiles', () => {
+    const file = createFile();
+    const tiles = [...file.maps[0].tiles, { ...createTile(9, 9), terrain: 'lava' }];
+    expect(() => readMapFileJson(JSON.stringify({ ...file, maps: [{ location: LOCATION, tiles }] }))).toThrow(
+      SchemaError
+    );
+  });
+});
+
+describe('version 0 files', () => {
+  it('are read as the default level 1 map sized to their tiles', () => {
+    const tiles = [createTile(0, 0), createTile(3, -1), createTile(-2, 5)];
+    const players = createFile().players;
+    const file = readMapFileJson(JSON.stringify({ tiles, players }));
+    const location = { level: 1, path: getDefaultMapPath(1) };
+    expect(file).toMatchObject({ version: MAP_FILE_VERSION, size: 5, location, players, localPlayerId: null });
+    expect(file.maps).toEqual([{ location, tiles }]);
+  });
+
+  it('size maps too large to spread into Math.max', () => {
+    const tiles = Array.from({ length: 200000 }, (_, index) => ({ q: index % 400, r: 0 }));
+    const file = { tiles: tiles.map(({ q, r }) => createTile(q, r)), players: [] };
+    expect(readMapFileJson(JSON.stringify(file)).size).toBe(399);
+  });
+});
+
+describe('binary files', () => {
+  it('read back what was written', () => {
+    const file = createFile();
+    const read = readMapFileBinary(writeMapFileBinary(file));
+    expect({ ...read, maps: [] }).toEqual({ ...file, maps: [] });
+    expect(read.maps).toHaveLength(1);
+    expect(byKey(read.maps[0].tiles)).toEqual(byKey(file.maps[0].tiles));
+  });
+
+  it('are smaller than JSON', () => {
+    const file = createFile();
+    expect(writeMapFileBinary(file).length).toBeLessThan(writeMapFileJson(file).length / 4);
+  });
+
+  it('reject files of a newer version', () => {
+    expect(() => readMapFileBinary(createBinary('{}', MAP_FILE_VERSION + 1))).toThrow(/newer version/);
+  });
+
+  it('reject damaged headers with a MapFileError', () => {
+    const headers = [
+      '{"size":',
+      'null',
+      '{"size": 4, "terrains": [], "resources": []}',
+      '{"size": 4, "terrains": [], "resources": [], "maps": [null]}',
+      '{"size": 4, "terrains": [], "resources": [], "maps": [{ "tiles": [null] }]}',
+    ];
+    headers.forEach((header) => expect(() => readMapFileBinary(createBinary(header))).toThrow(MapFileError));
+  });
+
+  it('reject truncated tile blocks', () => {
+    const bytes = writeMapFileBinary(createFile());
+    expect(() => readMapFileBinary(bytes.subarray(0, bytes.length - 4))).toThrow(MapFileError);
+  });
+});
+
+describe('readMapFile', () => {
+  it('tells the formats apart', () => {
+    const file = createFile();
+    expect(readMapFile(new TextEncoder().encode(writeMapFileJson(file)))).toEqual(file);
+    expect(readMapFile(writeMapFileBinary(file)).turn).toEqual(file.turn);
+  });
+});
+
+describe('createMapFile and getImportedGame', () => {
+  it('carry the game through a file', () => {
+    const file = createFile();
+    const state = gameReducer(createInitialGameState(), gameActions.gameImported(getImportedGame(file)));
+    const loaded = gameReducer(state, gameActions.tilesAdded(file.maps[0].tiles));
+
+    // Loading the tiles also explores what the player sees from where it stands, and they
+    // come out in whatever order the store keeps them
+    const exported = createMapFile(loaded, SIZE);
+    const tiles = file.maps[0].tiles;
+    expect({ ...exported, explored: [], maps: [] }).toEqual({ ...file, explored: [], maps: [] });
+    expect(exported.maps).toEqual([{ location: LOCATION, tiles: expect.arrayContaining(tiles) }]);
+    expect(exported.maps[0].tiles).toHaveLength(tiles.length);
+    expect(exported.explored[0].tiles).toEqual(expect.arrayContaining(file.explored[0].tiles));
+
+    const owned = file.maps[0].tiles[7];
+    expect(loaded.ownedTiles[getMapKey(LOCATION)]).toEqual({ [hexKey(owned.q, owned.r)]: owned });
+  });
+
+  it('keep the tiles of imported maps that are not loaded', () => {
+    const file = createFile();
+    const other = { level: 1, path: [...LOCATION.path, { level: 2, q: 1, r: 0 }] };
+    const maps = [...file.maps, { location: other, tiles: [createTile(0, 0)] }];
+    const state = gameReducer(createInitialGameState(), gameActions.gameImported(getImportedGame(file)));
+    expect(createMapFile(state, SIZE, maps).maps).toEqual(maps);
+  });
+});
@@ -0,0 +1,470 @@
+// app/utils/mapFile.ts
+/**
+ * Map files: the game as a file, to take out of the app and import again.
+ *
+ * JSON (.json):
+ *   {
+ *     "version": 1,
+ *     "size": 16,                                   map radius
+ *     "location": { "level": 2, "path": [...] },    the map the game is on, see utils/mapHierarchy.ts
+ *     "maps": [{ "location": {...}, "tiles": [TileData, ...] }],
+ *     "players": [PlayerData, ...],
+ *     "localPlayerId": "1" | null,
+ *     "localPosition": { "q": 0, "r": 0 },          on the map at "location"
+ *     "turn": { "number": 1, "activePlayerId": null, "phase": "move" },
+ *     "explored": [{ "map": "2:0,0/0,0", "tiles": ["0,0", ...] }]
+ *   }
+ * "maps" can hold maps of any level; tiles left out come from the procedural map again.
+ * Files without a "version" are a plain GameState ({ tiles, players }) and read as version 0.
+ *
+ * Binary (.hexmap), for large maps. Numbers are little endian:
+ *   "HEXM"                    magic
+ *   u8                        version, the same as the JSON one
+ *   u32 length, UTF-8 JSON    header: the JSON file plus "terrains" and "resources", what the
+ *                             codes below stand for. Each map's "tiles" only holds the tiles
+ *                             with an owner, a building or canInteract false.
+ *   for every map in the header, u32 length and then:
+ *     terrain runs            in hexRange order around (0, 0) out to "size": a u8 terrain code
+ *                             (255 for tiles not in the file) and a LEB128 tile count
+ *     deposits                a LEB128 count, then for each a LEB128 step in hexRange order
+ *                             from the previous one, a u8 resource code and a LEB128 amount
+ *
+ * Reading runs the migrations up to MAP_FILE_VERSION first, then validates against the schema.
+ * Bump the version and add a migration whenever the shape changes.
+ */
+import { BUILDING_TYPES, RESOURCE_TYPES, TERRAIN_TYPES, TerrainType } from '../data/content';
+import { GameStoreState, ImportedGame, selectTiles } from '../store/gameStore';
+import { GameState, Resource, ResourceType, TileData } from '../types/gameTypes';
+import { Axial, hexDistance, hexKey, hexRange } from './hex';
+import { MapLocation, getDefaultMapPath, getMapKey } from './mapHierarchy';
+import {
+  Infer,
+  array,
+  boolean,
+  literal,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+} from './schema';
+
+export const MAP_FILE_VERSION = 1;
+
+const BINARY_MAGIC = 'HEXM';
+// Terrain code of tiles the file does not have
+const NO_TILE = 0xff;
+
+// Reading failed before or apart from the schema, which throws SchemaError
+export class MapFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapFileError';
+  }
+}
+
+// Schema
+/************************************************************************************************************************************************** */
+
+const mapLocationSchema = object({
+  level: number(),
+  path: array(object({ level: number(), q: number(), r: number() })),
+});
+
+const resourceSchema = object({ type: oneOf(RESOURCE_TYPES), amount: number() });
+
+const tileSchema = object({
+  q: number(),
+  r: number(),
+  terrain: oneOf(TERRAIN_TYPES),
+  ownerId: nullable(string()),
+  resources: array(resourceSchema),
+  building: nullable(oneOf(BUILDING_TYPES)),
+  canInteract: boolean(),
+});
+
+export const mapFileSchema = object({
+  version: literal(MAP_FILE_VERSION),
+  size: number(),
+  location: mapLocationSchema,
+  maps: array(object({ location: mapLocationSchema, tiles: array(tileSchema) })),
+  players: array(
+    object({
+      id: string(),
+      name: string(),
+      color: string(),
+      resources: array(resourceSchema),
+      position: optional(nullable(object({ q: number(), r: number(), level: number() }))),
+    })
+  ),
+  localPlayerId: nullable(string()),
+  localPosition: object({ q: number(), r: number() }),
+  turn: object({
+    number: number(),
+    activePlayerId: nullable(string()),
+    phase: oneOf(['move', 'build', 'end'] as const),
+  }),
+  explored: array(object({ map: string(), tiles: array(string()) })),
+});
+
+export type MapFile = Infer<typeof mapFileSchema>;
+export type MapFileMap = MapFile['maps'][number];
+
+// Migrations
+/************************************************************************************************************************************************** */
+
+// By the version they upgrade from, each to the next version. They see files before
+// validation, so they only rely on what that version's schema guaranteed.
+const MIGRATIONS: { [version: number]: (file: unknown) => unknown } = {
+  // A plain GameState, e.g. from generateDummyGameState, taken as the default level 1 map
+  0: (file) => {
+    const { tiles, players } = file as GameState;
+    if (!Array.isArray(tiles) || !Array.isArray(players)) throw new MapFileError('This is not a map file.');
+    const location: MapLocation = { level: 1, path: getDefaultMapPath(1) };
+    // Not Math.max(...tiles), which overflows the stack on large maps. Malformed tiles are
+    // left for the schema to reject.
+    const size = tiles.reduce((max: number, tile: Partial<Axial> | null) => {
+      if (typeof tile?.q !== 'number' || typeof tile.r !== 'number') return max;
+      return Math.max(max, hexDistance({ q: 0, r: 0 }, { q: tile.q, r: tile.r }));
+    }, 0);
+    return {
+      version: 1,
+      size,
+      location,
+      maps: [{ location, tiles }],
+      players,
+      localPlayerId: null,
+      localPosition: { q: 0, r: 0 },
+      turn: { number: 1, activePlayerId: null, phase: 'move' },
+      explored: [],
+    };
+  },
+};
+
+const getVersion = (file: unknown) => {
+  if (typeof file !== 'object' || file === null) throw new MapFileError('This is not a map file.');
+  const { version } = file as { version?: unknown };
+  return typeof version === 'number' ? version : 0;
+};
+
+export const migrateMapFile = (file: unknown): MapFile => {
+  let migrated = file;
+  for (let version = getVersion(migrated); version < MAP_FILE_VERSION; version = getVersion(migrated)) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new MapFileError(`Map files of version ${version} can no longer be read.`);
+    migrated = migrate(migrated);
+  }
+  if (getVersion(migrated) > MAP_FILE_VERSION) {
+    throw new MapFileError('This map file was made by a newer version of the game.');
+  }
+  return mapFileSchema.parse(migrated);
+};
+
+// Export and import
+/************************************************************************************************************************************************** */
+
+// The game in `state` on a map of radius `size`. Tiles changed in the editor and then the
+// loaded tiles go over those of the same map in `maps`, e.g. the maps of the file the game
+// was imported from.
+export const createMapFile = (state: GameStoreState, size: number, maps: MapFileMap[] = []): MapFile => {
+  const location: MapLocation = { level: state.mapLevel, path: state.mapPath };
+  const tilesByMap = new Map<string, { location: MapLocation; tiles: Map<string, TileData> }>();
+  const addTiles = (map: MapLocation, tiles: TileData[]) => {
+    const mapKey = getMapKey(map);
+    const entry = tilesByMap.get(mapKey) ?? { location: map, tiles: new Map<string, TileData>() };
+    tiles.forEach((tile) => entry.tiles.set(hexKey(tile.q, tile.r), tile));
+    tilesByMap.set(mapKey, entry);
+  };
+  maps.forEach((map) => addTiles(map.location, map.tiles));
+  Object.values(state.tileEdits).forEach((edits) => addTiles(edits.map, Object.values(edits.tiles)));
+  addTiles(location, selectTiles(state));
+
+  return {
+    version: MAP_FILE_VERSION,
+    size,
+    location,
+    maps: Array.from(tilesByMap.values(), (map) => ({ location: map.location, tiles: Array.from(map.tiles.values()) })),
+    players: Object.values(state.players).map((player) => ({ ...player, position: player.position ?? null })),
+    localPlayerId: state.localPlayerId,
+    localPosition: { q: state.localPosition.q, r: state.localPosition.r },
+    turn: state.turn,
+    explored: Object.entries(state.explored).map(([map, tiles]) => ({ map, tiles: Object.keys(tiles) })),
+  };
+};
+
+// What the game store takes from a file, see gameActions.gameImported
+export const getImportedGame = (file: MapFile): ImportedGame => {
+  const explored: ImportedGame['explored'] = {};
+  file.explored.forEach(({ map, tiles }) => {
+    explored[map] = {};
+    tiles.forEach((key) => (explored[map][key] = true));
+  });
+  const ownedTiles: ImportedGame['ownedTiles'] = {};
+  file.maps.forEach(({ location, tiles }) => {
+    const owned = tiles.filter((tile) => file.localPlayerId !== null && tile.ownerId === file.localPlayerId);
+    if (owned.length === 0) return;
+    ownedTiles[getMapKey(location)] = Object.fromEntries(owned.map((tile) => [hexKey(tile.q, tile.r), tile]));
+  });
+  return {
+    map: file.location,
+    players: file.players,
+    localPlayerId: file.localPlayerId,
+    localPosition: file.localPosition,
+    turn: file.turn,
+    explored,
+    ownedTiles,
+  };
+};
+
+export const writeMapFileJson = (file: MapFile): string => JSON.stringify(file);
+
+export const readMapFileJson = (text: string): MapFile => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new MapFileError('This is not a map file.');
+  }
+  return migrateMapFile(file);
+};
+
+// Binary
+/************************************************************************************************************************************************** */
+
+// Tiles that fit the compact per-map block; the rest go into the header whole
+const isCompactTile = (tile: TileData) =>
+  tile.ownerId === null &&
+  tile.building === null &&
+  tile.canInteract &&
+  tile.resources.every(({ amount }) => Number.isSafeInteger(amount) && amount >= 0);
+
+// Growable byte buffer
+const createByteWriter = () => {
+  let bytes = new Uint8Array(1024);
+  let length = 0;
+
+  const reserve = (count: number) => {
+    if (length + count <= bytes.length) return;
+    const grown = new Uint8Array(Math.max(bytes.length * 2, length + count));
+    grown.set(bytes);
+    bytes = grown;
+  };
+
+  const writeByte = (value: number) => {
+    reserve(1);
+    bytes[length++] = value;
+  };
+
+  const writeUint32 = (value: number) => {
+    reserve(4);
+    new DataView(bytes.buffer).setUint32(length, value, true);
+    length += 4;
+  };
+
+  const writeVarint = (value: number) => {
+    while (value >= 0x80) {
+      writeByte((value & 0x7f) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    writeByte(value);
+  };
+
+  const writeBytes = (values: Uint8Array) => {
+    reserve(values.length);
+    bytes.set(values, length);
+    length += values.length;
+  };
+
+  return { writeByte, writeUint32, writeVarint, writeBytes, getBytes: () => bytes.slice(0, length) };
+};
+
+const createByteReader = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const need = (count: number) => {
+    if (offset + count > bytes.length) throw new MapFileError('The map file is cut off.');
+  };
+
+  const readByte = () => {
+    need(1);
+    return bytes[offset++];
+  };
+
+  const readUint32 = () => {
+    need(4);
+    const value = view.getUint32(offset, true);
+    offset += 4;
+    return value;
+  };
+
+  const readVarint = () => {
+    let value = 0;
+    let factor = 1;
+    let byte: number;
+    do {
+      byte = readByte();
+      value += (byte & 0x7f) * factor;
+      factor *= 0x80;
+    } while (byte & 0x80);
+    return value;
+  };
+
+  const readBytes = (count: number) => {
+    need(count);
+    offset += count;
+    return bytes.subarray(offset - count, offset);
+  };
+
+  return { readByte, readUint32, readVarint, readBytes };
+};
+
+// Terrain runs followed by the deposits: their count, then for each the hexRange index as
+// the distance from the previous one, the resource code and the amount
+const encodeMapTiles = (
+  tiles: TileData[],
+  size: number,
+  terrainCodes: Map<TerrainType, number>,
+  resourceCodes: Map<ResourceType, number>
+) => {
+  const tilesByKey = new Map(tiles.map((tile) => [hexKey(tile.q, tile.r), tile]));
+  const block = createByteWriter();
+  const deposits: { index: number; resource: Resource }[] = [];
+  let code = -1;
+  let count = 0;
+
+  const endRun = () => {
+    if (count === 0) return;
+    block.writeByte(code);
+    block.writeVarint(count);
+  };
+
+  hexRange({ q: 0, r: 0 }, size).forEach(({ q, r }, index) => {
+    const tile = tilesByKey.get(hexKey(q, r));
+    if (tile && isCompactTile(tile)) {
+      tile.resources.forEach((resource) => deposits.push({ index, resource }));
+    }
+    const tileCode = tile ? terrainCodes.get(tile.terrain)! : NO_TILE;
+    if (tileCode === code) {
+      count++;
+      return;
+    }
+    endRun();
+    code = tileCode;
+    count = 1;
+  });
+  endRun();
+
+  block.writeVarint(deposits.length);
+  let previous = 0;
+  deposits.forEach(({ index, resource }) => {
+    block.writeVarint(index - previous);
+    block.writeByte(resourceCodes.get(resource.type)!);
+    block.writeVarint(resource.amount);
+    previous = index;
+  });
+  return block.getBytes();
+};
+
+export const writeMapFileBinary = (file: MapFile): Uint8Array => {
+  const terrainCodes = new Map(TERRAIN_TYPES.map((terrain, index) => [terrain, index]));
+  const resourceCodes = new Map(RESOURCE_TYPES.map((resource, index) => [resource, index]));
+  const header = {
+    ...file,
+    terrains: TERRAIN_TYPES,
+    resources: RESOURCE_TYPES,
+    maps: file.maps.map(({ location, tiles }) => ({ location, tiles: tiles.filter((tile) => !isCompactTile(tile)) })),
+  };
+
+  const writer = createByteWriter();
+  writer.writeBytes(new TextEncoder().encode(BINARY_MAGIC));
+  writer.writeByte(MAP_FILE_VERSION);
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  writer.writeUint32(headerBytes.length);
+  writer.writeBytes(headerBytes);
+  file.maps.forEach(({ tiles }) => {
+    const block = encodeMapTiles(tiles, file.size, terrainCodes, resourceCodes);
+    writer.writeUint32(block.length);
+    writer.writeBytes(block);
+  });
+  return writer.getBytes();
+};
+
+// Codes are looked up in the palettes from the header; the schema checks what they name
+// once the tiles are back in the file
+const decodeMapTiles = (block: Uint8Array, size: number, terrains: unknown[], resources: unknown[]) => {
+  const reader = createByteReader(block);
+  const hexes = hexRange({ q: 0, r: 0 }, size);
+  const tiles: (TileData | null)[] = [];
+  while (tiles.length < hexes.length) {
+    const code = reader.readByte();
+    const count = reader.readVarint();
+    if (tiles.length + count > hexes.length) throw new MapFileError('The map file has more tiles than its map.');
+    if (code !== NO_TILE && terrains[code] === undefined) throw new MapFileError(`Unknown terrain code ${code}.`);
+    hexes.slice(tiles.length, tiles.length + count).forEach(({ q, r }) => {
+      const terrain = terrains[code] as TerrainType;
+      tiles.push(code === NO_TILE ? null : { q, r, terrain, ownerId: null, resources: [], building: null, canInteract: true });
+    });
+  }
+
+  let index = 0;
+  for (let remaining = reader.readVarint(); remaining > 0; remaining--) {
+    index += reader.readVarint();
+    const type = resources[reader.readByte()] as ResourceType | undefined;
+    const amount = reader.readVarint();
+    const tile = tiles[index];
+    if (!tile || type === undefined) throw new MapFileError('The map file has a deposit without a tile.');
+    tile.resources.push({ type, amount });
+  }
+  return tiles.filter((tile): tile is TileData => tile !== null);
+};
+
+const isRecord = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const readMapFileBinary = (bytes: Uint8Array): MapFile => {
+  const reader = createByteReader(bytes);
+  if (new TextDecoder().decode(reader.readBytes(BINARY_MAGIC.length)) !== BINARY_MAGIC) {
+    throw new MapFileError('This is not a map file.');
+  }
+  const version = reader.readByte();
+  if (version > MAP_FILE_VERSION) throw new MapFileError('This map file was made by a newer version of the game.');
+
+  let header: unknown;
+  try {
+    header = JSON.parse(new TextDecoder().decode(reader.readBytes(reader.readUint32())));
+  } catch (error) {
+    if (error instanceof MapFileError) throw error;
+    throw new MapFileError('The map file header is damaged.');
+  }
+  if (!isRecord(header)) throw new MapFileError('The map file header is damaged.');
+  const { size, terrains, resources, maps } = header;
+  if (typeof size !== 'number' || !Array.isArray(terrains) || !Array.isArray(resources) || !Array.isArray(maps)) {
+    throw new MapFileError('The map file header is damaged.');
+  }
+
+  // Tiles in the header win over their terrain run
+  const fullMaps = maps.map((map: unknown) => {
+    const headerTiles = isRecord(map) ? map.tiles ?? [] : null;
+    if (!isRecord(map) || !Array.isArray(headerTiles)) throw new MapFileError('The map file header is damaged.');
+    const detailed = new Map<string, unknown>();
+    headerTiles.forEach((tile: unknown) => {
+      if (!isRecord(tile)) throw new MapFileError('The map file header is damaged.');
+      detailed.set(`${tile.q},${tile.r}`, tile);
+    });
+    const tiles: unknown[] = decodeMapTiles(reader.readBytes(reader.readUint32()), size, terrains, resources).map(
+      (tile) => detailed.get(hexKey(tile.q, tile.r)) ?? tile
+    );
+    return { ...map, tiles };
+  });
+
+  // The schema drops the palettes along with anything else it does not know
+  return migrateMapFile({ ...header, version, maps: fullMaps });
+};
+
+// Either format, told apart by the binary magic
+export const readMapFile = (bytes: Uint8Array): MapFile => {
+  const magic = new TextDecoder().decode(bytes.subarray(0, BINARY_MAGIC.length));
+  return magic === BINARY_MAGIC ? readMapFileBinary(bytes) : readMapFileJson(new TextDecoder().decode(bytes));
+};
@@ -0,0 +1,166 @@
+// app/utils/mapGenerator.ts
+// Seeded procedural maps. Every tile is worked out from its own coordinates, so chunks can be
+// generated in any order and the same seed always gives the same map. Elevation and moisture
+// come from layered value noise and together pick the terrain; a narrow band of a third noise
+// carves rivers. Child maps take after the parent tile they belong to.
+import { TERRAINS, TerrainType } from '../data/content';
+import { Resource, TileData } from '../types/gameTypes';
+import { axialToWorld, hexDistance, hexRange } from './hex';
+import { MapLocation } from './mapHierarchy';
+
+export const DEFAULT_MAP_SEED = 1;
+
+// Elevation and moisture run from 0 to 1
+const SEA_LEVEL = 0.42;
+// Land this little above sea level is coast, which stays open grassland
+const COAST_HEIGHT = 0.03;
+const MOUNTAIN_LEVEL = 0.66;
+const FOREST_MOISTURE = 0.5;
+// Share of the river noise range that is river
+const RIVER_WIDTH = 0.035;
+// Hills, lakes and forests span about this many tiles
+const FEATURE_SIZE = 7;
+// How much of a child map's elevation and moisture comes from its parent tile
+const PARENT_INFLUENCE = 0.5;
+
+export interface TileClimate {
+  elevation: number;
+  moisture: number;
+  river: boolean;
+  coast: boolean;
+}
+
+interface MapGeneratorOptions {
+  mapRadius: number;
+  seed?: number;
+}
+
+// Cheap integer hash so the same (x, y, seed) always gives the same value
+export const hashCoords = (x: number, y: number, seed: number): number => {
+  let h = Math.imul(x, 374761393) ^ Math.imul(y, 668265263) ^ Math.imul(seed, 2147483647);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// Different for every map, so each tile's child map gets its own layout
+export const getMapSeed = (seed: number, { level, path }: MapLocation): number =>
+  path.reduce((mapSeed, parent) => hashCoords(parent.q, parent.r, mapSeed ^ parent.level), hashCoords(seed, level, 0));
+
+const random = (x: number, y: number, seed: number) => hashCoords(x, y, seed) / 0xffffffff;
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+// Random values on a square lattice, smoothly blended in between
+const valueNoise = (x: number, y: number, seed: number) => {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = smoothstep(x - x0);
+  const ty = smoothstep(y - y0);
+  const a = random(x0, y0, seed);
+  const b = random(x0 + 1, y0, seed);
+  const c = random(x0, y0 + 1, seed);
+  const d = random(x0 + 1, y0 + 1, seed);
+  return a + (b - a) * tx + (c - a) * ty + (a - b - c + d) * tx * ty;
+};
+
+// Octaves at doubling frequency and halving weight, still between 0 and 1
+const fractalNoise = (x: number, y: number, seed: number, octaves: number) => {
+  let total = 0;
+  let weight = 1;
+  let weights = 0;
+  for (let octave = 0; octave < octaves; octave++) {
+    const frequency = 2 ** octave;
+    total += valueNoise(x * frequency, y * frequency, hashCoords(octave, 0, seed)) * weight;
+    weights += weight;
+    weight /= 2;
+  }
+  return total / weights;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const createMapGenerator = ({ mapRadius, seed = DEFAULT_MAP_SEED }: MapGeneratorOptions) => {
+  // Parent tile climates by map seed, shared by every tile of a map
+  const parentClimates = new Map<number, TileClimate | null>();
+
+  const getParentClimate = (map: MapLocation, mapSeed: number) => {
+    if (!parentClimates.has(mapSeed)) {
+      const parent = map.path[map.path.length - 1];
+      parentClimates.set(
+        mapSeed,
+        parent ? getClimate(parent.q, parent.r, { level: parent.level, path: map.path.slice(0, -1) }) : null
+      );
+    }
+    return parentClimates.get(mapSeed)!;
+  };
+
+  const getClimate = (q: number, r: number, map: MapLocation): TileClimate => {
+    const mapSeed = getMapSeed(seed, map);
+    const { x, z } = axialToWorld(q, r, 1 / FEATURE_SIZE);
+    let elevation = fractalNoise(x, z, hashCoords(1, 0, mapSeed), 4);
+    let moisture = fractalNoise(x, z, hashCoords(2, 0, mapSeed), 3);
+
+    const parent = getParentClimate(map, mapSeed);
+    if (parent) {
+      elevation += (parent.elevation - 0.5) * PARENT_INFLUENCE;
+      moisture += (parent.moisture - 0.5) * PARENT_INFLUENCE;
+    } else {
+      // Maps without a parent are islands, sinking towards the rim
+      const rim = hexDistance({ q, r }, { q: 0, r: 0 }) / mapRadius;
+      elevation = elevation * 0.8 + 0.25 - rim * rim * 0.3;
+    }
+    elevation = clamp01(elevation);
+    moisture = clamp01(moisture);
+
+    const land = elevation >= SEA_LEVEL;
+    const riverNoise = fractalNoise(x / 2, z / 2, hashCoords(3, 0, mapSeed), 2);
+    return {
+      elevation,
+      moisture,
+      river: land && elevation < MOUNTAIN_LEVEL && Math.abs(riverNoise - 0.5) < RIVER_WIDTH,
+      coast: land && elevation < SEA_LEVEL + COAST_HEIGHT,
+    };
+  };
+
+  const getTerrain = (q: number, r: number, map: MapLocation): TerrainType => {
+    // Players start at the center, which is always open land
+    if (q === 0 && r === 0) return 'grass';
+
+    const { elevation, moisture, river, coast } = getClimate(q, r, map);
+    if (elevation < SEA_LEVEL || river) return 'water';
+    if (coast) return 'grass';
+    if (elevation >= MOUNTAIN_LEVEL) return 'mountain';
+    return moisture >= FOREST_MOISTURE ? 'forest' : 'grass';
+  };
+
+  // At most one deposit per tile, the terrain's deposits being tried in order
+  const getDeposits = (q: number, r: number, terrain: TerrainType, map: MapLocation): Resource[] => {
+    const mapSeed = getMapSeed(seed, map);
+    const roll = random(q, r, hashCoords(4, 0, mapSeed));
+    let threshold = 0;
+    const deposit = TERRAINS[terrain].deposits.find(({ chance }) => roll < (threshold += chance));
+    if (!deposit) return [];
+    return [{ type: deposit.type, amount: 20 + Math.floor(random(q, r, hashCoords(5, 0, mapSeed)) * 80) }];
+  };
+
+  const getTile = (q: number, r: number, map: MapLocation): TileData => {
+    const terrain = getTerrain(q, r, map);
+    return {
+      q,
+      r,
+      terrain,
+      ownerId: null,
+      resources: getDeposits(q, r, terrain, map),
+      building: null,
+      canInteract: true,
+    };
+  };
+
+  // The whole map at once, for when it is not streamed in chunks
+  const getTiles = (map: MapLocation): TileData[] =>
+    hexRange({ q: 0, r: 0 }, mapRadius).map(({ q, r }) => getTile(q, r, map));
+
+  return { getClimate, getTerrain, getTile, getTiles };
+};
+
+export type MapGenerator = ReturnType<typeof createMapGenerator>;
@@ -0,0 +1,55 @@
+// app/utils/mapHierarchy.ts
+// Maps are nested: every tile of a level N map opens its own level N-1 map. A map is
+// identified by its level and the tiles descended through to reach it from the top level.
+import { Axial, hexKey } from './hex';
+
+export const TOP_MAP_LEVEL = 4;
+export const BOTTOM_MAP_LEVEL = 1;
+
+// A tile descended through, on the map of `level`
+export interface MapParent extends Axial {
+  level: number;
+}
+
+export interface MapLocation {
+  level: number;
+  // Outermost first, one tile for every level above this one
+  path: MapParent[];
+}
+
+// Maps a game starts on hang off the center tile of every level above
+export const getDefaultMapPath = (level: number): MapParent[] => {
+  const path: MapParent[] = [];
+  for (let parentLevel = TOP_MAP_LEVEL; parentLevel > level; parentLevel--) {
+    path.push({ level: parentLevel, q: 0, r: 0 });
+  }
+  return path;
+};
+
+// Tells maps apart, e.g. "2:0,0/3,-1" for the level 2 map under tile (3,-1) of the center level 3 map
+export const getMapKey = ({ level, path }: MapLocation) =>
+  `${level}:${path.map(({ q, r }) => hexKey(q, r)).join('/')}`;
+
+// Null on the bottom level, which has nothing below it
+export const getChildMap = ({ level, path }: MapLocation, tile: Axial): MapLocation | null =>
+  level > BOTTOM_MAP_LEVEL ? { level: level - 1, path: [...path, { level, q: tile.q, r: tile.r }] } : null;
+
+// The map of `level` above `map`, and the tile on it that leads down to `map`; null unless `level` is above `map`
+export const getAncestorMap = (map: MapLocation, level: number): { map: MapLocation; tile: MapParent } | null => {
+  const index = map.path.findIndex((parent) => parent.level === level);
+  if (index < 0) return null;
+  return { map: { level, path: map.path.slice(0, index) }, tile: map.path[index] };
+};
+
+// The path as the backend takes it, "q,r;q,r", outermost first
+export const formatMapParents = (path: MapParent[]) => path.map(({ q, r }) => `${q},${r}`).join(';');
+
+// Back from formatMapParents for a map of `level`; the last parent is on the level just above
+export const parseMapParents = (parents: string, level: number): MapParent[] =>
+  parents
+    .split(';')
+    .filter(Boolean)
+    .map((parent, index, all) => {
+      const [q, r] = parent.split(',').map(Number);
+      return { level: level + all.length - index, q, r };
+    });
@@ -0,0 +1,37 @@
+// app/utils/mapSave.ts
+// Saves the map on screen to the map library; shared by the library dialog and the map editor
+// so both keep what was changed in the editor.
+import { GameStoreState, selectMap, selectTiles } from '../store/gameStore';
+import { ApiClient } from './apiClient';
+import { DATA_SOURCE } from './dataSource';
+import { renderMapThumbnail } from './mapThumbnail';
+
+export interface SaveCurrentMapOptions {
+  name: string;
+  // Radius of the map on screen
+  mapRadius: number;
+  // Saved map on screen, whose world and edits the new map keeps
+  savedMapId?: string;
+}
+
+// Editor edits and `based_on` are not part of the backend's save contract yet (see
+// utils/chunkSource.ts), only the mock backend keeps them. Against the backend a map with
+// edits is refused rather than saved without them.
+export const saveCurrentMap = async (
+  apiClient: ApiClient,
+  state: GameStoreState,
+  { name, mapRadius, savedMapId }: SaveCurrentMapOptions
+) => {
+  const edits = Object.values(state.tileEdits).map(({ map, tiles }) => ({ map, tiles: Object.values(tiles) }));
+  if (DATA_SOURCE === 'api' && edits.length > 0) {
+    throw new Error('Maps changed in the editor cannot be saved to the server yet.');
+  }
+
+  return apiClient.saveProceduralMap({
+    name: name.trim(),
+    size: mapRadius,
+    location: selectMap(state),
+    thumbnail: renderMapThumbnail(selectTiles(state), mapRadius),
+    ...(DATA_SOURCE === 'mock' && { edits, basedOn: savedMapId }),
+  });
+};
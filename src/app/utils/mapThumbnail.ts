@@ -0,0 +1,40 @@
+// app/utils/mapThumbnail.ts
+// Small top-down picture of a map for the map library, one flat hex per tile in its terrain color.
+import { TERRAINS } from '../data/content';
+import { TileData } from '../types/gameTypes';
+import { axialToWorld, hexCorners } from './hex';
+
+const THUMBNAIL_SIZE = 160;
+const BACKGROUND = '#1e293b';
+
+// PNG data URL of `tiles` on a map of `mapRadius`, or null where there is no canvas
+export const renderMapThumbnail = (tiles: TileData[], mapRadius: number): string | null => {
+  if (typeof document === 'undefined') return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  // Measured in corner radii the map is 3 * radius + 2 wide and √3 * (2 * radius + 1) high
+  const hexRadius = THUMBNAIL_SIZE / Math.max(3 * mapRadius + 2, Math.sqrt(3) * (2 * mapRadius + 1));
+  const corners = hexCorners(hexRadius);
+  context.fillStyle = BACKGROUND;
+  context.fillRect(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+  context.translate(THUMBNAIL_SIZE / 2, THUMBNAIL_SIZE / 2);
+
+  tiles.forEach(({ q, r, terrain }) => {
+    const { x, z } = axialToWorld(q, r, hexRadius);
+    context.beginPath();
+    corners.forEach((corner, i) => {
+      if (i === 0) context.moveTo(x + corner.x, z + corner.z);
+      else context.lineTo(x + corner.x, z + corner.z);
+    });
+    context.closePath();
+    context.fillStyle = TERRAINS[terrain].color;
+    context.fill();
+  });
+
+  return canvas.toDataURL('image/png');
+};
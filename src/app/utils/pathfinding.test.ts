@@ -0,0 +1,102 @@
+// app/utils/pathfinding.test.ts
+import { describe, expect, it } from 'vitest';
+import { TerrainType } from '../data/content';
+import { TileData } from '../types/gameTypes';
+import { hexDistance, hexKey, hexRange } from './hex';
+import { MinHeap, TileLookup, findPath, findReachable, getMovementRange } from './pathfinding';
+
+// Grass everywhere within `radius`, with some tiles swapped for other terrain
+const createLookup = (radius: number, terrain: { [key: string]: TerrainType } = {}): TileLookup => {
+  const tiles = new Map<string, TileData>();
+  hexRange({ q: 0, r: 0 }, radius).forEach(({ q, r }) => {
+    const key = hexKey(q, r);
+    tiles.set(key, { q, r, terrain: terrain[key] ?? 'grass', ownerId: null, resources: [], building: null, canInteract: true });
+  });
+  return (q, r) => tiles.get(hexKey(q, r)) ?? null;
+};
+
+// A wall of `type` across column q = 1, except where the gap is
+const wall = (type: TerrainType, gap?: number) =>
+  Object.fromEntries(
+    hexRange({ q: 0, r: 0 }, 5)
+      .filter(({ q, r }) => q === 1 && r !== gap)
+      .map(({ q, r }) => [hexKey(q, r), type])
+  );
+
+describe('MinHeap', () => {
+  it('pops values by ascending priority', () => {
+    const heap = new MinHeap<string>();
+    [5, 1, 4, 2, 3].forEach((priority) => heap.push(`p${priority}`, priority));
+    const popped: (string | undefined)[] = [];
+    while (heap.size > 0) popped.push(heap.pop());
+    expect(popped).toEqual(['p1', 'p2', 'p3', 'p4', 'p5']);
+    expect(heap.pop()).toBeUndefined();
+  });
+});
+
+describe('findPath', () => {
+  it('stays put for free', () => {
+    expect(findPath({ q: 0, r: 0 }, { q: 0, r: 0 }, createLookup(2))).toEqual({ path: [{ q: 0, r: 0 }], cost: 0 });
+  });
+
+  it('walks straight over open grass', () => {
+    const result = findPath({ q: -2, r: 0 }, { q: 2, r: 0 }, createLookup(3));
+    expect(result?.cost).toBe(4);
+    expect(result?.path).toHaveLength(5);
+    result?.path.slice(1).forEach((hex, i) => expect(hexDistance(result.path[i], hex)).toBe(1));
+  });
+
+  it('goes through the gap in a wall of water', () => {
+    const result = findPath({ q: -1, r: 0 }, { q: 3, r: 0 }, createLookup(5, wall('water', -3)));
+    expect(result).not.toBeNull();
+    expect(result!.path).toContainEqual({ q: 1, r: -3 });
+  });
+
+  it('finds no path across a closed wall of water', () => {
+    expect(findPath({ q: -1, r: 0 }, { q: 3, r: 0 }, createLookup(5, wall('water')))).toBeNull();
+  });
+
+  it('never ends on water or off the map', () => {
+    const lookup = createLookup(3, { [hexKey(2, 0)]: 'water' });
+    expect(findPath({ q: 0, r: 0 }, { q: 2, r: 0 }, lookup)).toBeNull();
+    expect(findPath({ q: 0, r: 0 }, { q: 9, r: 0 }, lookup)).toBeNull();
+  });
+
+  it('takes a cheaper detour around a mountain', () => {
+    const result = findPath({ q: 0, r: 0 }, { q: 2, r: 0 }, createLookup(3, { [hexKey(1, 0)]: 'mountain' }));
+    // Over the mountain costs 3 + 1, round it one step more but only 3
+    expect(result?.cost).toBe(3);
+    expect(result?.path).toHaveLength(4);
+    expect(result?.path).not.toContainEqual({ q: 1, r: 0 });
+  });
+
+  it('gives up beyond maxCost', () => {
+    const lookup = createLookup(5);
+    expect(findPath({ q: -3, r: 0 }, { q: 3, r: 0 }, lookup, 5)).toBeNull();
+    expect(findPath({ q: -3, r: 0 }, { q: 3, r: 0 }, lookup, 6)?.cost).toBe(6);
+  });
+});
+
+describe('findReachable', () => {
+  it('keeps the cheapest cost of every tile within budget', () => {
+    const costs = findReachable({ q: 0, r: 0 }, createLookup(4, { [hexKey(1, 0)]: 'forest' }), 2);
+    expect(costs.get(hexKey(0, 0))).toBe(0);
+    expect(costs.get(hexKey(1, 0))).toBe(2);
+    expect(costs.get(hexKey(0, 2))).toBe(2);
+    expect(costs.has(hexKey(0, 3))).toBe(false);
+    costs.forEach((cost) => expect(cost).toBeLessThanOrEqual(2));
+  });
+});
+
+describe('getMovementRange', () => {
+  it('sorts the tiles around the origin into reachable, blocked and unreachable', () => {
+    const lookup = createLookup(4, { [hexKey(1, 0)]: 'water', [hexKey(0, 1)]: 'mountain' });
+    const range = getMovementRange({ q: 0, r: 0 }, lookup, 2);
+
+    expect(range.reachable).not.toContainEqual(expect.objectContaining({ q: 0, r: 0 }));
+    expect(range.reachable).toContainEqual({ q: 0, r: -1, cost: 1 });
+    expect(range.blocked).toEqual([{ q: 1, r: 0 }]);
+    expect(range.unreachable).toContainEqual({ q: 0, r: 1 });
+    range.boundary.forEach(({ inside, outside }) => expect(hexDistance(inside, outside)).toBe(1));
+  });
+});
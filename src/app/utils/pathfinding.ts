@@ -0,0 +1,196 @@
+// app/utils/pathfinding.ts
+// Movement over the hex grid. Costs come from the terrain of the tile being entered;
+// tiles that are missing (not loaded, off the map) or impassable are never entered.
+import { TERRAINS } from '../data/content';
+import { TileData } from '../types/gameTypes';
+import { Axial, hexDistance, hexEquals, hexKey, hexNeighbors, hexRange, parseHexKey } from './hex';
+
+export type TileLookup = (q: number, r: number) => TileData | null;
+
+export interface PathResult {
+  // From start to goal, both included
+  path: Axial[];
+  // Sum of the costs of every tile entered, the start tile is free
+  cost: number;
+}
+
+// Movement a player gets every turn
+export const DEFAULT_MOVEMENT_POINTS = 4;
+
+// Cost to enter the tile, see TerrainDefinition.movementCost
+export const getMovementCost = (tile: TileData | null): number | null =>
+  tile ? TERRAINS[tile.terrain].movementCost : null;
+
+export const isPassable = (tile: TileData | null) => getMovementCost(tile) !== null;
+
+// Every step costs at least this much, which keeps the A* heuristic admissible
+const getMinMovementCost = () =>
+  Math.min(
+    ...Object.values(TERRAINS)
+      .map(({ movementCost }) => movementCost)
+      .filter((cost): cost is number => cost !== null)
+  );
+
+// Binary min-heap keyed by priority, enough for the open set of A* and Dijkstra
+export class MinHeap<T> {
+  private items: { value: T; priority: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(value: T, priority: number) {
+    const items = this.items;
+    items.push({ value, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.value;
+  }
+}
+
+/**
+ * Cheapest path from `start` to `goal` with A*. Returns null when the goal cannot be
+ * entered, cannot be reached, or only at a cost above `maxCost`.
+ * The start tile itself does not need to be passable.
+ */
+export const findPath = (start: Axial, goal: Axial, getTile: TileLookup, maxCost = Infinity): PathResult | null => {
+  if (hexEquals(start, goal)) return { path: [{ q: start.q, r: start.r }], cost: 0 };
+  if (!isPassable(getTile(goal.q, goal.r))) return null;
+
+  const minCost = getMinMovementCost();
+  const startKey = hexKey(start.q, start.r);
+  const goalKey = hexKey(goal.q, goal.r);
+  const costs = new Map<string, number>([[startKey, 0]]);
+  const cameFrom = new Map<string, Axial>();
+  const open = new MinHeap<Axial>();
+  open.push(start, hexDistance(start, goal) * minCost);
+
+  while (open.size > 0) {
+    const current = open.pop()!;
+    const currentKey = hexKey(current.q, current.r);
+    const currentCost = costs.get(currentKey)!;
+
+    if (currentKey === goalKey) {
+      const path: Axial[] = [{ q: current.q, r: current.r }];
+      let step = cameFrom.get(currentKey);
+      while (step) {
+        path.unshift({ q: step.q, r: step.r });
+        step = cameFrom.get(hexKey(step.q, step.r));
+      }
+      return { path, cost: currentCost };
+    }
+
+    for (const neighbor of hexNeighbors(current)) {
+      const stepCost = getMovementCost(getTile(neighbor.q, neighbor.r));
+      if (stepCost === null) continue;
+
+      const cost = currentCost + stepCost;
+      if (cost > maxCost) continue;
+
+      const neighborKey = hexKey(neighbor.q, neighbor.r);
+      const known = costs.get(neighborKey);
+      if (known !== undefined && known <= cost) continue;
+
+      costs.set(neighborKey, cost);
+      cameFrom.set(neighborKey, current);
+      open.push(neighbor, cost + hexDistance(neighbor, goal) * minCost);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Dijkstra flood fill from `start`: the cheapest cost to every tile reachable for at most
+ * `maxCost`, keyed by hexKey. The start tile is included at cost 0.
+ */
+export const findReachable = (start: Axial, getTile: TileLookup, maxCost: number): Map<string, number> => {
+  const costs = new Map<string, number>([[hexKey(start.q, start.r), 0]]);
+  const open = new MinHeap<Axial>();
+  open.push(start, 0);
+
+  while (open.size > 0) {
+    const current = open.pop()!;
+    const currentCost = costs.get(hexKey(current.q, current.r))!;
+
+    for (const neighbor of hexNeighbors(current)) {
+      const stepCost = getMovementCost(getTile(neighbor.q, neighbor.r));
+      if (stepCost === null) continue;
+
+      const cost = currentCost + stepCost;
+      if (cost > maxCost) continue;
+
+      const neighborKey = hexKey(neighbor.q, neighbor.r);
+      const known = costs.get(neighborKey);
+      if (known !== undefined && known <= cost) continue;
+
+      costs.set(neighborKey, cost);
+      open.push(neighbor, cost);
+    }
+  }
+
+  return costs;
+};
+
+export interface MovementRange {
+  origin: Axial;
+  // Tiles the player can move to, with what getting there costs; the origin is left out
+  reachable: { q: number; r: number; cost: number }[];
+  // Loaded tiles within the budget's radius that cannot be entered at all
+  blocked: Axial[];
+  // Loaded, passable tiles within that radius that are too expensive to reach this move
+  unreachable: Axial[];
+  // Edges of the reachable area: each pair is an inside tile and the outside neighbor across the edge
+  boundary: { inside: Axial; outside: Axial }[];
+}
+
+export const getMovementRange = (origin: Axial, getTile: TileLookup, movementPoints: number): MovementRange => {
+  const costs = findReachable(origin, getTile, movementPoints);
+  const range: MovementRange = { origin, reachable: [], blocked: [], unreachable: [], boundary: [] };
+
+  costs.forEach((cost, key) => {
+    const tile = parseHexKey(key);
+    if (!hexEquals(tile, origin)) range.reachable.push({ ...tile, cost });
+    hexNeighbors(tile).forEach((neighbor) => {
+      if (!costs.has(hexKey(neighbor.q, neighbor.r))) range.boundary.push({ inside: tile, outside: neighbor });
+    });
+  });
+
+  // Nothing beyond this radius could be in range even on the cheapest terrain
+  const radius = Math.floor(movementPoints / getMinMovementCost());
+  hexRange(origin, radius).forEach((hex) => {
+    if (costs.has(hexKey(hex.q, hex.r))) return;
+    const tile = getTile(hex.q, hex.r);
+    if (!tile) return;
+    if (isPassable(tile)) range.unreachable.push(hex);
+    else range.blocked.push(hex);
+  });
+
+  return range;
+};
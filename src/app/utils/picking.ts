@@ -0,0 +1,34 @@
+// app/utils/picking.ts
+import * as THREE from 'three';
+import { Axial, worldToHex } from './hex';
+
+const raycaster = new THREE.Raycaster();
+const pointer = new THREE.Vector2();
+const surfacePlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+const hitPoint = new THREE.Vector3();
+
+/**
+ * Resolves the hex under a screen position by casting a ray onto the plane of the
+ * tiles' top faces and snapping the hit point to the grid.
+ * Returns null when the ray never reaches that plane (e.g. pointing at the sky).
+ */
+export const pickHex = (
+  clientX: number,
+  clientY: number,
+  camera: THREE.Camera,
+  element: HTMLElement,
+  surfaceHeight: number,
+  tileSize: number
+): Axial | null => {
+  const rect = element.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) return null;
+
+  pointer.x = ((clientX - rect.left) / rect.width) * 2 - 1;
+  pointer.y = -((clientY - rect.top) / rect.height) * 2 + 1;
+  raycaster.setFromCamera(pointer, camera);
+
+  surfacePlane.constant = -surfaceHeight;
+  if (!raycaster.ray.intersectPlane(surfacePlane, hitPoint)) return null;
+
+  return worldToHex(hitPoint.x, hitPoint.z, tileSize);
+};
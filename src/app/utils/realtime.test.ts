@@ -0,0 +1,174 @@
+// app/utils/realtime.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockRealtimeServer } from '../data/mockRealtimeServer';
+import { getDefaultMapPath } from './mapHierarchy';
+import {
+  ConnectionStatus,
+  RealtimeConnection,
+  RealtimeConnectionOptions,
+  ServerMessage,
+  SocketFactory,
+  UNAUTHORIZED_CLOSE_CODE,
+  parseServerMessage,
+} from './realtime';
+import { SchemaError } from './schema';
+
+const MAP = { level: 2, path: getDefaultMapPath(2) };
+
+describe('parseServerMessage', () => {
+  it('turns the snake_case wire format into client types', () => {
+    const message = parseServerMessage(
+      JSON.stringify({
+        type: 'snapshot',
+        player_id: 'p1',
+        level: 2,
+        players: [{ id: 'p1', name: 'Player 1', color: '#ff0000' }],
+        tiles: [{ q: 1, r: -1, owner_id: 'p1', building: 'farm' }, { q: 0, r: 0 }],
+      })
+    );
+    expect(message).toEqual({
+      type: 'snapshot',
+      playerId: 'p1',
+      level: 2,
+      players: [{ id: 'p1', name: 'Player 1', color: '#ff0000', resources: [], position: null }],
+      tiles: [
+        { q: 1, r: -1, ownerId: 'p1', building: 'farm' },
+        { q: 0, r: 0, ownerId: undefined, building: undefined },
+      ],
+    });
+  });
+
+  it('shows unknown buildings as no building instead of dropping the message', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const message = parseServerMessage(
+      JSON.stringify({ type: 'tile_update', level: 1, tiles: [{ q: 0, r: 0, owner_id: null, building: 'castle' }] })
+    );
+    expect(message).toEqual({ type: 'tile_update', level: 1, tiles: [{ q: 0, r: 0, ownerId: null, building: null }] });
+    vi.restoreAllMocks();
+  });
+
+  it('rejects unknown message types and malformed messages', () => {
+    expect(() => parseServerMessage('{"type":"weather"}')).toThrow(SchemaError);
+    expect(() => parseServerMessage('{"type":"turn","number":"1","player_id":"p1"}')).toThrow(SchemaError);
+  });
+});
+
+describe('RealtimeConnection', () => {
+  let connection: RealtimeConnection | null = null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    connection?.disconnect();
+    connection = null;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // A connection to `createSocket`, recording what it reports
+  const createConnection = (createSocket: SocketFactory, options: Partial<RealtimeConnectionOptions> = {}) => {
+    const messages: ServerMessage[] = [];
+    const statuses: ConnectionStatus[] = [];
+    connection = new RealtimeConnection({
+      createSocket,
+      getAccessToken: async () => 'token',
+      refreshAccessToken: async () => 'token',
+      onMessage: (message) => messages.push(message),
+      onStatusChange: (status) => statuses.push(status),
+      minReconnectDelay: 100,
+      maxReconnectDelay: 1000,
+      ...options,
+    });
+    return { connection, messages, statuses };
+  };
+
+  it('authenticates, subscribes and receives the map', async () => {
+    const server = createMockRealtimeServer({ mapRadius: 8, botsPerMap: 0 });
+    const { connection, messages, statuses } = createConnection(server.connect);
+    connection.subscribe(MAP);
+    connection.connect();
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(statuses).toEqual(['connecting', 'open']);
+    expect(messages.map((message) => message.type)).toEqual(['turn', 'snapshot']);
+    expect(messages[1]).toMatchObject({ type: 'snapshot', playerId: 'local', level: 2 });
+  });
+
+  it('reconnects after the server drops it and subscribes again', async () => {
+    const server = createMockRealtimeServer({ mapRadius: 8, botsPerMap: 0 });
+    const { connection, messages, statuses } = createConnection(server.connect);
+    connection.connect();
+    connection.subscribe(MAP);
+    await vi.advanceTimersByTimeAsync(10);
+    messages.length = 0;
+
+    server.dropConnections();
+    await vi.advanceTimersByTimeAsync(10);
+    expect(connection.connectionStatus).toBe('reconnecting');
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(statuses.slice(-2)).toEqual(['reconnecting', 'open']);
+    expect(messages.map((message) => message.type)).toEqual(['turn', 'snapshot']);
+  });
+
+  it('retries with backoff when the socket cannot be created', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const server = createMockRealtimeServer({ mapRadius: 8, botsPerMap: 0 });
+    let failures = 2;
+    const createSocket: SocketFactory = (url, handlers) => {
+      if (failures-- > 0) throw new SyntaxError('Invalid URL');
+      return server.connect(url, handlers);
+    };
+    const { connection, statuses } = createConnection(createSocket);
+    connection.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(connection.connectionStatus).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(connection.connectionStatus).toBe('open');
+    expect(statuses).toEqual(['connecting', 'reconnecting', 'open']);
+  });
+
+  it('refreshes the token once when the server rejects it', async () => {
+    const server = createMockRealtimeServer({ mapRadius: 8, botsPerMap: 0 });
+    const refreshAccessToken = vi.fn(async () => 'fresh');
+    // The first socket is closed as if its token had expired
+    let rejected = false;
+    const createSocket: SocketFactory = (url, handlers) => {
+      if (rejected) return server.connect(url, handlers);
+      rejected = true;
+      setTimeout(() => handlers.onClose(UNAUTHORIZED_CLOSE_CODE, 'Unauthorized'), 0);
+      return { send: () => {}, close: () => {} };
+    };
+    const { connection } = createConnection(createSocket, { refreshAccessToken });
+    connection.connect();
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(connection.connectionStatus).toBe('open');
+  });
+
+  it('gives up when the refreshed token is rejected too', async () => {
+    const refreshAccessToken = vi.fn(async () => 'fresh');
+    const createSocket: SocketFactory = (_url, handlers) => {
+      setTimeout(() => handlers.onClose(UNAUTHORIZED_CLOSE_CODE, 'Unauthorized'), 0);
+      return { send: () => {}, close: () => {} };
+    };
+    const { connection } = createConnection(createSocket, { refreshAccessToken });
+    connection.connect();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(connection.connectionStatus).toBe('closed');
+  });
+
+  it('stays closed without a token', async () => {
+    const server = createMockRealtimeServer({ mapRadius: 8, botsPerMap: 0 });
+    const { connection, statuses } = createConnection(server.connect, { getAccessToken: async () => null });
+    connection.connect();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(statuses).toEqual(['connecting', 'closed']);
+  });
+});
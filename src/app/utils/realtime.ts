@@ -0,0 +1,382 @@
+// app/utils/realtime.ts
+// Realtime game channel over WebSocket. The server pushes tile ownership and building changes
+// for the map a client is subscribed to, and player position changes for its level.
+//
+// Protocol (JSON text frames, snake_case like the REST API):
+//   client -> server
+//     { "type": "auth", "token": accessToken }           first frame after every (re)connect
+//     { "type": "subscribe", "level": number, "path": [{ "q", "r", "level" }, ...] }
+//                                                     switch the map updates are sent for, see utils/mapHierarchy.ts
+//     { "type": "move", "q": number, "r": number, "level": number }
+//     { "type": "build", "q", "r", "level", "building" }   on the subscribed map; answered with a tile_update,
+//                                                     or an error if refused
+//     { "type": "claim", "q", "r", "level" }              likewise
+//     { "type": "end_turn" }                              hand the turn to the next player
+//   server -> client
+//     { "type": "snapshot", "player_id", "level", "players": [...], "tiles": [...] }   answer to subscribe and
+//                                                     to end_turn, once the income is paid; player_id is the
+//                                                     receiving client's own player
+//     { "type": "tile_update", "level", "tiles": [{ "q", "r", "owner_id"?, "building"? }] }
+//     { "type": "player_joined", "player": {...} }
+//     { "type": "player_left", "player_id" }
+//     { "type": "player_moved", "player_id", "position": { "q", "r", "level" } }
+//     { "type": "turn", "number", "player_id" }          a player's turn started, also sent after auth
+//     { "type": "error", "message" }
+// Moves, builds and claims from anyone but the player whose turn it is are refused with an error.
+// The server closes with UNAUTHORIZED_CLOSE_CODE when the token is missing or expired.
+import { BuildingType, RESOURCE_TYPES } from '../data/content';
+import { PlayerData, PlayerPosition, TileUpdate } from '../types/gameTypes';
+import { API_BASE_URL, toBuildingType } from './apiClient';
+import { MapLocation, MapParent } from './mapHierarchy';
+import { Infer, SchemaError, array, nullable, number, object, oneOf, optional, string } from './schema';
+
+export const REALTIME_URL =
+  process.env.NEXT_PUBLIC_REALTIME_URL || `${API_BASE_URL.replace(/^http/, 'ws')}/api/v1/realtime`;
+
+export const UNAUTHORIZED_CLOSE_CODE = 4001;
+const NORMAL_CLOSE_CODE = 1000;
+
+// Messages
+/************************************************************************************************************************************************** */
+
+const positionSchema = object({
+  q: number(),
+  r: number(),
+  level: number(),
+});
+
+const resourceTypeSchema = oneOf(RESOURCE_TYPES);
+
+const playerSchema = object({
+  id: string(),
+  name: string(),
+  color: string(),
+  resources: optional(array(object({ type: resourceTypeSchema, amount: number() }))),
+  position: optional(nullable(positionSchema)),
+});
+
+const tileUpdateSchema = object({
+  q: number(),
+  r: number(),
+  owner_id: optional(nullable(string())),
+  // Checked in toTileUpdate, so one unknown building does not fail the whole message
+  building: optional(nullable(string())),
+});
+
+const messageSchemas = {
+  snapshot: object({ player_id: string(), level: number(), players: array(playerSchema), tiles: array(tileUpdateSchema) }),
+  tile_update: object({ level: number(), tiles: array(tileUpdateSchema) }),
+  player_joined: object({ player: playerSchema }),
+  player_left: object({ player_id: string() }),
+  player_moved: object({ player_id: string(), position: positionSchema }),
+  turn: object({ number: number(), player_id: string() }),
+  error: object({ message: string() }),
+};
+
+export type ServerMessage =
+  | { type: 'snapshot'; playerId: string; level: number; players: PlayerData[]; tiles: TileUpdate[] }
+  | { type: 'tile_update'; level: number; tiles: TileUpdate[] }
+  | { type: 'player_joined'; player: PlayerData }
+  | { type: 'player_left'; playerId: string }
+  | { type: 'player_moved'; playerId: string; position: PlayerPosition }
+  | { type: 'turn'; number: number; playerId: string }
+  | { type: 'error'; message: string };
+
+export type ClientMessage =
+  | { type: 'auth'; token: string }
+  | { type: 'subscribe'; level: number; path: MapParent[] }
+  | { type: 'move'; q: number; r: number; level: number }
+  | { type: 'build'; q: number; r: number; level: number; building: BuildingType }
+  | { type: 'claim'; q: number; r: number; level: number }
+  | { type: 'end_turn' };
+
+export type WirePlayer = Infer<typeof playerSchema>;
+export type WireTileUpdate = Infer<typeof tileUpdateSchema>;
+
+export const toPlayerData = (player: WirePlayer): PlayerData => ({
+  id: player.id,
+  name: player.name,
+  color: player.color,
+  resources: player.resources ?? [],
+  position: player.position ?? null,
+});
+
+export const toTileUpdate = (tile: WireTileUpdate): TileUpdate => ({
+  q: tile.q,
+  r: tile.r,
+  ownerId: tile.owner_id,
+  building: tile.building === undefined ? undefined : toBuildingType(tile.building),
+});
+
+// Throws SchemaError for frames that do not match the protocol
+export const parseServerMessage = (data: string): ServerMessage => {
+  const raw: unknown = JSON.parse(data);
+  const type = object({ type: string() }).parse(raw).type;
+
+  switch (type) {
+    case 'snapshot': {
+      const message = messageSchemas.snapshot.parse(raw);
+      return {
+        type,
+        playerId: message.player_id,
+        level: message.level,
+        players: message.players.map(toPlayerData),
+        tiles: message.tiles.map(toTileUpdate),
+      };
+    }
+    case 'tile_update': {
+      const message = messageSchemas.tile_update.parse(raw);
+      return { type, level: message.level, tiles: message.tiles.map(toTileUpdate) };
+    }
+    case 'player_joined':
+      return { type, player: toPlayerData(messageSchemas.player_joined.parse(raw).player) };
+    case 'player_left':
+      return { type, playerId: messageSchemas.player_left.parse(raw).player_id };
+    case 'player_moved': {
+      const message = messageSchemas.player_moved.parse(raw);
+      return { type, playerId: message.player_id, position: message.position };
+    }
+    case 'turn': {
+      const message = messageSchemas.turn.parse(raw);
+      return { type, number: message.number, playerId: message.player_id };
+    }
+    case 'error':
+      return { type, message: messageSchemas.error.parse(raw).message };
+    default:
+      throw new SchemaError('type', Object.keys(messageSchemas).join(' | '), type);
+  }
+};
+
+// Sockets
+/************************************************************************************************************************************************** */
+
+export interface SocketHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onClose: (code: number, reason: string) => void;
+}
+
+export interface RealtimeSocket {
+  send: (data: string) => void;
+  close: (code?: number, reason?: string) => void;
+}
+
+// Lets the mock server (data/mockRealtimeServer.ts) stand in for a real WebSocket
+export type SocketFactory = (url: string, handlers: SocketHandlers) => RealtimeSocket;
+
+export const createBrowserSocket: SocketFactory = (url, handlers) => {
+  const socket = new WebSocket(url);
+  socket.onopen = () => handlers.onOpen();
+  socket.onmessage = (event) => handlers.onMessage(String(event.data));
+  socket.onclose = (event) => handlers.onClose(event.code, event.reason);
+  return socket;
+};
+
+// Connection
+/************************************************************************************************************************************************** */
+
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface RealtimeConnectionOptions {
+  url?: string;
+  createSocket?: SocketFactory;
+  getAccessToken: () => Promise<string | null>;
+  // Called once when the server rejects the token, before reconnecting with the new one
+  refreshAccessToken: () => Promise<string>;
+  onMessage: (message: ServerMessage) => void;
+  onStatusChange?: (status: ConnectionStatus) => void;
+  minReconnectDelay?: number;
+  maxReconnectDelay?: number;
+}
+
+/**
+ * One logical connection to the realtime channel that survives socket drops.
+ * Reconnects with exponential backoff and jitter, authenticates every new socket with
+ * the current access token and re-subscribes to the last requested map.
+ */
+export class RealtimeConnection {
+  private url: string;
+  private createSocket: SocketFactory;
+  private options: RealtimeConnectionOptions;
+  private minReconnectDelay: number;
+  private maxReconnectDelay: number;
+  private socket: RealtimeSocket | null = null;
+  private isOpen = false;
+  private map: MapLocation | null = null;
+  private attempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshedToken = false;
+  private stopped = true;
+  // Bumped on every open/disconnect so a slow token lookup cannot open a stale socket
+  private generation = 0;
+  private status: ConnectionStatus = 'closed';
+
+  constructor(options: RealtimeConnectionOptions) {
+    this.options = options;
+    this.url = options.url ?? REALTIME_URL;
+    this.createSocket = options.createSocket ?? createBrowserSocket;
+    this.minReconnectDelay = options.minReconnectDelay ?? 500;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 30000;
+  }
+
+  get connectionStatus() {
+    return this.status;
+  }
+
+  connect() {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.attempt = 0;
+    this.open();
+  }
+
+  disconnect() {
+    this.stopped = true;
+    this.generation++;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.closeSocket(NORMAL_CLOSE_CODE, 'Client disconnected');
+    this.setStatus('closed');
+  }
+
+  // Remembered across reconnects
+  subscribe(map: MapLocation) {
+    this.map = map;
+    this.send({ type: 'subscribe', level: map.level, path: map.path });
+  }
+
+  move(q: number, r: number, level: number) {
+    this.send({ type: 'move', q, r, level });
+  }
+
+  build(q: number, r: number, level: number, building: BuildingType) {
+    this.send({ type: 'build', q, r, level, building });
+  }
+
+  claim(q: number, r: number, level: number) {
+    this.send({ type: 'claim', q, r, level });
+  }
+
+  endTurn() {
+    this.send({ type: 'end_turn' });
+  }
+
+  private send(message: ClientMessage) {
+    // Nothing is queued while offline; the snapshot after reconnecting brings the client up to date
+    if (this.socket && this.isOpen) this.socket.send(JSON.stringify(message));
+  }
+
+  private async open() {
+    const generation = ++this.generation;
+    this.setStatus(this.attempt === 0 ? 'connecting' : 'reconnecting');
+
+    let token: string | null;
+    try {
+      token = await this.options.getAccessToken();
+    } catch {
+      token = null;
+    }
+    if (this.stopped || generation !== this.generation) return;
+    if (!token) {
+      // Logged out; the owner connects again after the next login
+      this.disconnect();
+      return;
+    }
+
+    let socket: RealtimeSocket;
+    try {
+      socket = this.createSocket(this.url, {
+        onOpen: () => {
+          if (socket !== this.socket) return;
+          this.isOpen = true;
+          this.setStatus('open');
+          socket.send(JSON.stringify({ type: 'auth', token } satisfies ClientMessage));
+          if (this.map !== null) this.subscribe(this.map);
+        },
+        onMessage: (data) => {
+          if (socket !== this.socket) return;
+          this.handleMessage(data);
+        },
+        onClose: (code) => {
+          if (socket !== this.socket) return;
+          this.socket = null;
+          this.isOpen = false;
+          this.handleClose(code);
+        },
+      });
+    } catch (error) {
+      // new WebSocket() throws right away on e.g. a malformed NEXT_PUBLIC_REALTIME_URL; retried
+      // with backoff like a dropped connection rather than left 'connecting'
+      console.error('Could not open the realtime socket:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+  }
+
+  private handleMessage(data: string) {
+    let message: ServerMessage;
+    try {
+      message = parseServerMessage(data);
+    } catch (error) {
+      console.warn('Ignoring malformed realtime message:', error);
+      return;
+    }
+
+    if (message.type === 'snapshot') {
+      // Authenticated and in sync, so the next drop starts backing off from scratch
+      this.attempt = 0;
+      this.refreshedToken = false;
+    }
+    this.options.onMessage(message);
+  }
+
+  private async handleClose(code: number) {
+    if (this.stopped) return;
+
+    if (code === UNAUTHORIZED_CLOSE_CODE) {
+      // Retry right away with a fresh token, but only once in a row
+      if (this.refreshedToken) {
+        this.disconnect();
+        return;
+      }
+      this.refreshedToken = true;
+      try {
+        await this.options.refreshAccessToken();
+      } catch {
+        // The session is over; AuthContext has logged the user out
+        this.disconnect();
+        return;
+      }
+      if (!this.stopped) this.open();
+      return;
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    const backoff = Math.min(this.maxReconnectDelay, this.minReconnectDelay * 2 ** this.attempt);
+    // Jitter keeps many clients from reconnecting in lockstep after a server restart
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    this.attempt++;
+    this.setStatus('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) this.open();
+    }, delay);
+  }
+
+  private closeSocket(code: number, reason: string) {
+    const socket = this.socket;
+    this.socket = null;
+    this.isOpen = false;
+    socket?.close(code, reason);
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.options.onStatusChange?.(status);
+  }
+}
@@ -0,0 +1,43 @@
+// app/utils/resources.ts
+// Arithmetic on resource stockpiles. A stockpile is the Resource[] a player carries;
+// costs and yields are ResourceAmounts from data/content.ts.
+import { RESOURCES, RESOURCE_TYPES, ResourceAmounts } from '../data/content';
+import { Resource, ResourceType } from '../types/gameTypes';
+
+export const getResourceAmount = (resources: Resource[], type: ResourceType) =>
+  resources.find((resource) => resource.type === type)?.amount ?? 0;
+
+export const canAfford = (resources: Resource[], cost: ResourceAmounts) =>
+  RESOURCE_TYPES.every((type) => getResourceAmount(resources, type) >= (cost[type] ?? 0));
+
+// Resources still missing to pay `cost`, empty when it is affordable
+export const getShortfall = (resources: Resource[], cost: ResourceAmounts): Resource[] =>
+  RESOURCE_TYPES.map((type) => ({ type, amount: (cost[type] ?? 0) - getResourceAmount(resources, type) })).filter(
+    ({ amount }) => amount > 0
+  );
+
+// Adds `amounts` (negative to spend), keeping one entry per resource in catalog order
+export const addResources = (resources: Resource[], amounts: ResourceAmounts): Resource[] =>
+  RESOURCE_TYPES.map((type) => ({ type, amount: getResourceAmount(resources, type) + (amounts[type] ?? 0) })).filter(
+    ({ type, amount }) => amount !== 0 || resources.some((resource) => resource.type === type)
+  );
+
+export const spendResources = (resources: Resource[], cost: ResourceAmounts): Resource[] =>
+  addResources(
+    resources,
+    Object.fromEntries(Object.entries(cost).map(([type, amount]) => [type, -(amount ?? 0)]))
+  );
+
+// "Not enough resources, ..." when `cost` cannot be paid, undefined when it can
+export const describeShortfall = (resources: Resource[], cost: ResourceAmounts): string | undefined => {
+  const shortfall = getShortfall(resources, cost);
+  if (shortfall.length === 0) return undefined;
+  const missing = Object.fromEntries(shortfall.map(({ type, amount }) => [type, amount]));
+  return `Not enough resources, missing ${formatResourceAmounts(missing)}.`;
+};
+
+// "20 Wood, 10 Stone"
+export const formatResourceAmounts = (amounts: ResourceAmounts) =>
+  RESOURCE_TYPES.filter((type) => amounts[type])
+    .map((type) => `${amounts[type]} ${RESOURCES[type].label}`)
+    .join(', ');
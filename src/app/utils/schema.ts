@@ -0,0 +1,100 @@
+// app/utils/schema.ts
+// Minimal runtime schemas for validating JSON coming from the backend.
+// Each schema both checks a value and carries its static type, see Infer<>.
+
+export class SchemaError extends Error {
+  constructor(public readonly path: string, public readonly expected: string, public readonly received: unknown) {
+    super(`Invalid value at ${path || '<root>'}: expected ${expected}, received ${describe(received)}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export interface Schema<T> {
+  readonly description: string;
+  parse: (value: unknown, path?: string) => T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const primitive = <T>(description: string, check: (value: unknown) => boolean): Schema<T> => ({
+  description,
+  parse: (value, path = '') => {
+    if (!check(value)) throw new SchemaError(path, description, value);
+    return value as T;
+  },
+});
+
+export const string = () => primitive<string>('string', (value) => typeof value === 'string');
+
+export const number = () =>
+  primitive<number>('number', (value) => typeof value === 'number' && Number.isFinite(value));
+
+export const boolean = () => primitive<boolean>('boolean', (value) => typeof value === 'boolean');
+
+export const literal = <T extends string | number | boolean>(expected: T) =>
+  primitive<T>(JSON.stringify(expected), (value) => value === expected);
+
+// One of a fixed set of strings, e.g. the keys of a content table
+export const oneOf = <T extends string>(values: readonly T[]) =>
+  primitive<T>(values.map((value) => JSON.stringify(value)).join(' | '), (value) =>
+    values.includes(value as T)
+  );
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  description: `${item.description}[]`,
+  parse: (value, path = '') => {
+    if (!Array.isArray(value)) throw new SchemaError(path, `${item.description}[]`, value);
+    return value.map((entry, i) => item.parse(entry, `${path}[${i}]`));
+  },
+});
+
+export const object = <Shape extends { [key: string]: Schema<unknown> }>(
+  shape: Shape
+): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> => ({
+  description: 'object',
+  parse: (value, path = '') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+    const record = value as { [key: string]: unknown };
+    const result: { [key: string]: unknown } = {};
+    for (const key of Object.keys(shape)) {
+      // Unknown keys are dropped so callers only ever see the declared shape
+      result[key] = shape[key].parse(record[key], path ? `${path}.${key}` : key);
+    }
+    return result as { [K in keyof Shape]: Infer<Shape[K]> };
+  },
+});
+
+export const optional = <T>(inner: Schema<T>): Schema<T | undefined> => ({
+  description: `${inner.description} | undefined`,
+  parse: (value, path = '') => (value === undefined ? undefined : inner.parse(value, path)),
+});
+
+export const nullable = <T>(inner: Schema<T>): Schema<T | null> => ({
+  description: `${inner.description} | null`,
+  parse: (value, path = '') => (value === null ? null : inner.parse(value, path)),
+});
+
+export const union = <Members extends Schema<unknown>[]>(...members: Members): Schema<Infer<Members[number]>> => {
+  const description = members.map((member) => member.description).join(' | ');
+  return {
+    description,
+    parse: (value, path = '') => {
+      for (const member of members) {
+        try {
+          return member.parse(value, path) as Infer<Members[number]>;
+        } catch (error) {
+          if (!(error instanceof SchemaError)) throw error;
+        }
+      }
+      throw new SchemaError(path, description, value);
+    },
+  };
+};
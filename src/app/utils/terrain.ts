@@ -0,0 +1,11 @@
+// app/utils/terrain.ts
+import { TERRAINS, TerrainType } from '../data/content';
+
+// Ownership is drawn as borders and never changes the terrain color
+export function getColorForTerrain(terrain: TerrainType): string {
+  return TERRAINS[terrain].color;
+}
+
+export function getModelNameForTerrain(terrain: TerrainType): string {
+  return TERRAINS[terrain].model;
+}
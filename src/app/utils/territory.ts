@@ -0,0 +1,51 @@
+// app/utils/territory.ts
+// Tile ownership: the rules for claiming land and the borders drawn around territories.
+import { TERRAINS } from '../data/content';
+import { PlayerData, TileData } from '../types/gameTypes';
+import { Axial, hexDistance, hexNeighbors } from './hex';
+import { TileLookup } from './pathfinding';
+import { describeShortfall } from './resources';
+
+// Why `player`, standing at `position`, cannot claim `tile`, or undefined when it can.
+// A claim has to border the player's territory or the player; the very first one can
+// only be made where the player stands or right next to it.
+export const getClaimError = (
+  tile: TileData | null,
+  player: PlayerData | null,
+  position: Axial,
+  getTile: TileLookup
+): string | undefined => {
+  if (!player) return 'You are not connected to the game.';
+  if (!tile) return 'There is no tile here.';
+  if (tile.ownerId === player.id) return 'You already own this tile.';
+  if (tile.ownerId) return 'This tile belongs to another player.';
+
+  const { label, claimCost } = TERRAINS[tile.terrain];
+  if (!claimCost) return `${label} cannot be claimed.`;
+
+  const bordersTerritory = hexNeighbors(tile).some((hex) => getTile(hex.q, hex.r)?.ownerId === player.id);
+  if (!bordersTerritory && hexDistance(tile, position) > 1) {
+    return 'Claims must border your territory or where you stand.';
+  }
+
+  return describeShortfall(player.resources, claimCost);
+};
+
+// One edge of a territory: `inside` is owned by `ownerId`, `outside` is not
+export interface TerritoryEdge {
+  inside: Axial;
+  outside: Axial;
+  ownerId: string;
+}
+
+// The edges of an owned tile against its loaded neighbors with a different (or no) owner. Neighbors
+// that are not loaded are left out, as nobody knows yet whether they are part of the territory.
+// Two neighboring territories each get their own edge, so both borders show.
+export const getTileTerritoryEdges = (tile: TileData, getTile: TileLookup): TerritoryEdge[] => {
+  const { ownerId } = tile;
+  if (!ownerId) return [];
+  return hexNeighbors(tile).flatMap((neighbor): TerritoryEdge[] => {
+    const other = getTile(neighbor.q, neighbor.r);
+    return other && other.ownerId !== ownerId ? [{ inside: { q: tile.q, r: tile.r }, outside: neighbor, ownerId }] : [];
+  });
+};
@@ -0,0 +1,17 @@
+// app/utils/tileUpdates.ts
+// Partial tile changes pushed over the realtime channel. Free of Three.js so the game store can use them.
+import { TileData, TileUpdate } from '../types/gameTypes';
+
+export const applyTileUpdate = (tile: TileData, update: TileUpdate): TileData => ({
+  ...tile,
+  ownerId: update.ownerId !== undefined ? update.ownerId : tile.ownerId,
+  building: update.building !== undefined ? update.building : tile.building,
+});
+
+// Combines two changes to the same tile; the later one wins field by field
+export const mergeTileUpdates = (previous: TileUpdate | undefined, update: TileUpdate): TileUpdate => ({
+  q: update.q,
+  r: update.r,
+  ownerId: update.ownerId !== undefined ? update.ownerId : previous?.ownerId,
+  building: update.building !== undefined ? update.building : previous?.building,
+});
@@ -0,0 +1,30 @@
+// app/utils/turns.ts
+// Turn rules shared by the store and the mock server. Players take turns one at a time;
+// the active player first moves, then builds, then ends the turn.
+
+// 'end' means the active player is done and waits for the next turn to start
+export type TurnPhase = 'move' | 'build' | 'end';
+
+export type TurnAction = 'move' | 'build';
+
+export interface TurnState {
+  // Counts rounds, i.e. goes up once every player has had a turn
+  number: number;
+  // Null when no server hands out turns, so the local player plays alone
+  activePlayerId: string | null;
+  phase: TurnPhase;
+}
+
+// Buildings and claims a player may make in one turn
+export const ACTIONS_PER_TURN = 2;
+
+export const isPlayersTurn = (turn: TurnState, playerId: string | null) =>
+  turn.activePlayerId === null || turn.activePlayerId === playerId;
+
+// Why `playerId` cannot take `action` right now, or undefined when it can
+export const getTurnError = (turn: TurnState, playerId: string | null, action: TurnAction): string | undefined => {
+  if (!isPlayersTurn(turn, playerId)) return 'It is not your turn.';
+  if (turn.phase === 'end') return 'Your turn is over.';
+  if (action === 'move' && turn.phase === 'build') return 'You cannot move after building this turn.';
+  return undefined;
+};
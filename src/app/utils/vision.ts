@@ -0,0 +1,60 @@
+// app/utils/vision.ts
+// What a player can see: everything within the sight radius of the player and of its
+// territory, unless terrain that blocks sight stands in between.
+import { TERRAINS, getBuildingEffects } from '../data/content';
+import { TileData } from '../types/gameTypes';
+import { Axial, hexKey, hexLine, hexRange } from './hex';
+import { TileLookup } from './pathfinding';
+
+// 'explored' tiles were seen before but are not in sight now
+export type Visibility = 'unexplored' | 'explored' | 'visible';
+
+export const PLAYER_VISION_RADIUS = 3;
+// Owned tiles without a building that sees further
+export const TERRITORY_VISION_RADIUS = 1;
+
+export interface VisionSource extends Axial {
+  radius: number;
+}
+
+// The player itself and every tile it owns, buildings with a vision effect seeing further
+export const getVisionSources = (position: Axial, playerId: string | null, tiles: TileData[]): VisionSource[] => {
+  const sources: VisionSource[] = [{ q: position.q, r: position.r, radius: PLAYER_VISION_RADIUS }];
+  if (!playerId) return sources;
+
+  tiles.forEach(({ q, r, ownerId, building }) => {
+    if (ownerId !== playerId) return;
+    const radii = building ? getBuildingEffects(building, 'vision').map((effect) => effect.radius) : [];
+    sources.push({ q, r, radius: Math.max(TERRITORY_VISION_RADIUS, ...radii) });
+  });
+  return sources;
+};
+
+// Tiles that are not loaded never block
+export const blocksSight = (tile: TileData | null) => !!tile && TERRAINS[tile.terrain].blocksSight;
+
+// Blocking tiles are seen themselves but hide what lies behind them
+export const hasLineOfSight = (from: Axial, to: Axial, getTile: TileLookup) =>
+  hexLine(from, to)
+    .slice(1, -1)
+    .every(({ q, r }) => !blocksSight(getTile(q, r)));
+
+// Keys (see hexKey) of every tile within the radius of a source, whether seen or not. Only
+// blocking tiles in here change what the sources see.
+export const getVisionReach = (sources: VisionSource[]): Set<string> => {
+  const reach = new Set<string>();
+  sources.forEach((source) => hexRange(source, source.radius).forEach(({ q, r }) => reach.add(hexKey(q, r))));
+  return reach;
+};
+
+// Keys (see hexKey) of every tile seen from at least one source
+export const computeVisibleTiles = (sources: VisionSource[], getTile: TileLookup): Set<string> => {
+  const visible = new Set<string>();
+  sources.forEach((source) => {
+    hexRange(source, source.radius).forEach((hex) => {
+      const key = hexKey(hex.q, hex.r);
+      if (!visible.has(key) && hasLineOfSight(source, hex, getTile)) visible.add(key);
+    });
+  });
+  return visible;
+};